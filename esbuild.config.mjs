@@ -11,6 +11,25 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// `node esbuild.config.mjs cli`: the command line, a Node script without Obsidian
+if (process.argv[2] === "cli") {
+	await esbuild.build({
+		banner: {
+			js: "#!/usr/bin/env node\n" + banner,
+		},
+		entryPoints: ["src/cli-entry.ts"],
+		bundle: true,
+		platform: "node",
+		external: [...builtins],
+		format: "cjs",
+		target: "node18",
+		logLevel: "info",
+		treeShaking: true,
+		outfile: "cli.js",
+	});
+	process.exit(0);
+}
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
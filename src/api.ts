@@ -1,19 +1,19 @@
-// INPUT: obsidian (requestUrl), types (BijiNote)
-// OUTPUT: AuthFatalError, requestWithRetry, fetchNotes, fetchLinkDetail, apiHeaders, API_BASE, DETAIL_DELAY
-// POS: API client — HTTP requests with retry logic, pagination, link detail fetching
+// INPUT: transport.ts (HttpTransport, HttpRequest, HttpResponse), types (BijiNote)
+// OUTPUT: AuthFatalError, ApiSchemaError, isHttpError, requestWithRetry, fetchNotes, fetchNote, fetchLinkDetail, downloadAttachment, AttachmentDownload, apiHeaders, API_BASE, DETAIL_DELAY
+// POS: API client — HTTP requests with retry logic, pagination, single-note and link detail fetching
 
-import { requestUrl, RequestUrlParam, RequestUrlResponse } from "obsidian";
+import type { HttpRequest, HttpResponse, HttpTransport } from "./transport";
 import type { BijiNote } from "./types";
 
 // ── HttpError type guard ────────────────────────────────────────────
-// Obsidian's requestUrl throws objects with { status, headers } on HTTP errors.
+// Transports throw HttpStatusError ({ status, headers }) on HTTP errors.
 
-interface HttpError {
+export interface HttpError {
   status: number;
   headers?: Record<string, string>;
 }
 
-function isHttpError(err: unknown): err is HttpError {
+export function isHttpError(err: unknown): err is HttpError {
   return (
     typeof err === "object" &&
     err !== null &&
@@ -35,6 +35,26 @@ export class AuthFatalError extends Error {
   }
 }
 
+// ── ApiSchemaError ──────────────────────────────────────────────────
+// Thrown when a successful response does not have the shape the client expects,
+// i.e. Get笔记 changed its API. Carries the offending field path.
+
+export class ApiSchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly field: string,
+  ) {
+    super(message);
+    this.name = "ApiSchemaError";
+  }
+}
+
+// The `c` object Get笔记 wraps every payload in; null when the body has none.
+function payloadOf(json: unknown): Record<string, unknown> | null {
+  const c = typeof json === "object" && json !== null ? (json as Record<string, unknown>).c : null;
+  return typeof c === "object" && c !== null && !Array.isArray(c) ? (c as Record<string, unknown>) : null;
+}
+
 // ── Constants ───────────────────────────────────────────────────────
 
 export const API_BASE = "https://get-notes.luojilab.com/voicenotes/web";
@@ -46,7 +66,8 @@ const BACKOFF_BASE = 1000;
 
 // ── Types ───────────────────────────────────────────────────────────
 
-export type JwtRefreshCallback = () => Promise<string>;
+/** Returns a new JWT; receives the JWT the failed request was sent with. */
+export type JwtRefreshCallback = (rejectedJwt?: string) => Promise<string>;
 
 // ── Headers ─────────────────────────────────────────────────────────
 // CRITICAL: X-OAuth-Version: 1 is REQUIRED. Missing it causes 403 InvalidToken.
@@ -65,22 +86,24 @@ export function apiHeaders(jwt: string): Record<string, string> {
 // Retry logic:
 // - 5xx / 429: exponential backoff (1s, 2s, 4s), max 3 attempts
 //   - 429: use max(Retry-After header * 1000, calculated backoff)
-// - 401 / 403: refreshJwtCallback() -> update Authorization -> retry ONCE
+// - 401 / 403: refreshJwtCallback(rejected JWT) -> update Authorization -> retry ONCE
+//   - The rejected JWT lets a shared cache skip refreshing when another request already did
 //   - If refresh fails -> AuthFatalError
 //   - If retry still 401/403 -> AuthFatalError (double-fail)
 // - Other 4xx: re-throw immediately
 // - Network errors (no status): retry with exponential backoff, max 3 attempts
 //
-// Obsidian's requestUrl throws for non-2xx. Exception has .status property.
+// The transport throws for non-2xx. Exception has .status property.
 // On success returns { json, text, headers, status }.
 
 export async function requestWithRetry(
-  params: RequestUrlParam,
+  transport: HttpTransport,
+  params: HttpRequest,
   refreshJwtCallback: JwtRefreshCallback,
-): Promise<RequestUrlResponse> {
+): Promise<HttpResponse> {
   for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
     try {
-      return await requestUrl(params);
+      return await transport.request(params);
     } catch (err: unknown) {
       const httpErr = isHttpError(err) ? err : null;
       const status = httpErr?.status;
@@ -88,13 +111,14 @@ export async function requestWithRetry(
       // ── 401 / 403: JWT expired — refresh and retry once ──
       if (status === 401 || status === 403) {
         try {
-          const newJwt = await refreshJwtCallback();
+          const rejected = params.headers?.Authorization?.replace(/^Bearer /, "");
+          const newJwt = await refreshJwtCallback(rejected);
           params = {
             ...params,
             headers: { ...params.headers, Authorization: `Bearer ${newJwt}` },
           };
           try {
-            return await requestUrl(params);
+            return await transport.request(params);
           } catch (retryErr: unknown) {
             if (isHttpError(retryErr) && (retryErr.status === 401 || retryErr.status === 403)) {
               throw new AuthFatalError(
@@ -137,15 +161,20 @@ export async function requestWithRetry(
 }
 
 // ── fetchNotes ──────────────────────────────────────────────────────
-// Yields pages of notes as AsyncIterable. Each yield is { notes, isLastPage }.
+// Yields pages of notes as AsyncIterable. Each yield is { notes, isLastPage, total }.
 // The sync engine iterates pages and processes individual notes.
+// startSinceId resumes paging below a given note (empty = start from newest).
+// total is the number of notes visible to the account when the server reports it.
+// A page without a `c.list` array throws ApiSchemaError instead of ending the walk.
 
 export async function* fetchNotes(
+  transport: HttpTransport,
   jwt: string,
   refreshJwt: JwtRefreshCallback,
   signal?: AbortSignal,
-): AsyncIterable<{ notes: BijiNote[]; isLastPage: boolean }> {
-  let sinceId = "";
+  startSinceId = "",
+): AsyncIterable<{ notes: BijiNote[]; isLastPage: boolean; total: number | null }> {
+  let sinceId = startSinceId;
 
   while (true) {
     if (signal?.aborted) return;
@@ -153,14 +182,20 @@ export async function* fetchNotes(
     const url = `${API_BASE}/notes?limit=${PAGE_SIZE}&since_id=${encodeURIComponent(sinceId)}&sort=create_desc`;
 
     const response = await requestWithRetry(
+      transport,
       { url, headers: apiHeaders(jwt) },
       refreshJwt,
     );
 
-    const list: BijiNote[] = response.json?.c?.list ?? [];
+    const c = payloadOf(response.json);
+    if (!c || !Array.isArray(c.list)) {
+      throw new ApiSchemaError("Notes response has no c.list array", "c.list");
+    }
+    const list = c.list as BijiNote[];
     const isLastPage = list.length < PAGE_SIZE;
+    const total = typeof c.total === "number" ? c.total : null;
 
-    yield { notes: list, isLastPage };
+    yield { notes: list, isLastPage, total };
 
     if (isLastPage || list.length === 0) return;
 
@@ -171,17 +206,53 @@ export async function* fetchNotes(
   }
 }
 
+// ── fetchNote ───────────────────────────────────────────────────────
+// Fetches one note by id, for retrying notes that failed to sync.
+// UNVERIFIED: GET /notes/{id} is inferred from the list and link-detail
+// endpoints and has not been confirmed against real API traffic. Callers must
+// not trust a null or a failure to mean the note is gone (syncBiji falls back
+// to the page walk). Returns null on 404; every other failure throws,
+// AuthFatalError included, and a body without a note throws ApiSchemaError.
+
+export async function fetchNote(
+  transport: HttpTransport,
+  jwt: string,
+  noteId: string,
+  refreshJwt: JwtRefreshCallback,
+): Promise<BijiNote | null> {
+  try {
+    const response = await requestWithRetry(
+      transport,
+      {
+        url: `${API_BASE}/notes/${encodeURIComponent(noteId)}`,
+        headers: apiHeaders(jwt),
+      },
+      refreshJwt,
+    );
+    const note = payloadOf(response.json);
+    if (typeof note?.id !== "string") {
+      throw new ApiSchemaError("Note response has no c.id", "c.id");
+    }
+    return note as unknown as BijiNote;
+  } catch (err) {
+    if (isHttpError(err) && err.status === 404) return null;
+    throw err;
+  }
+}
+
 // ── fetchLinkDetail ─────────────────────────────────────────────────
 // Fetches full content for link-type notes.
 // AuthFatalError MUST propagate. Other errors are non-fatal (returns null).
 
 export async function fetchLinkDetail(
+  transport: HttpTransport,
   jwt: string,
   noteId: string,
   refreshJwt: JwtRefreshCallback,
 ): Promise<string | null> {
   try {
     const response = await requestWithRetry(
+      transport,
       {
         url: `${API_BASE}/notes/${encodeURIComponent(noteId)}/links/detail`,
         headers: apiHeaders(jwt),
@@ -189,9 +260,9 @@ export async function fetchLinkDetail(
       refreshJwt,
     );
 
-    const data = response.json;
-    if (data?.c?.has_content && data.c.content) {
-      return data.c.content;
+    const c = payloadOf(response.json);
+    if (c?.has_content && typeof c.content === "string" && c.content) {
+      return c.content;
     }
   } catch (err) {
     // AuthFatalError must propagate — it signals unrecoverable auth failure
@@ -200,3 +271,39 @@ export async function fetchLinkDetail(
   }
   return null;
 }
+
+// ── downloadAttachment ──────────────────────────────────────────────
+// Fetches attachment bytes from their (pre-signed) URL.
+// No auth header and no JWT refresh: a 401/403 here means an expired link,
+// not an expired session, so it must never become an AuthFatalError.
+// The size is probed first with a one-byte range request (pre-signed links are
+// signed for GET, so no HEAD), and files over maxBytes are never downloaded.
+// Servers that ignore the range send the whole body, which is then used as is.
+// All failures are non-fatal: the attachment is skipped with the reason.
+
+export type AttachmentDownload = { data: ArrayBuffer } | { skipped: string };
+
+export async function downloadAttachment(
+  transport: HttpTransport,
+  url: string,
+  maxBytes: number,
+): Promise<AttachmentDownload> {
+  const tooLarge = (size: number): AttachmentDownload => ({
+    skipped: `${size} bytes, over the ${maxBytes}-byte limit`,
+  });
+  try {
+    const probe = await transport.request({ url, method: "GET", headers: { Range: "bytes=0-0" } });
+    let data = probe.arrayBuffer;
+    if (probe.status === 206) {
+      // "bytes 0-0/<total>"; the total may be "*" when the server does not know it
+      const size = Number(probe.headers["content-range"]?.split("/")[1]);
+      if (size > maxBytes) return tooLarge(size);
+      data = (await transport.request({ url, method: "GET" })).arrayBuffer;
+    }
+    if (data.byteLength > maxBytes) return tooLarge(data.byteLength);
+    return { data };
+  } catch (err) {
+    const cause = isHttpError(err) ? `status ${err.status}` : err instanceof Error ? err.message : String(err);
+    return { skipped: `download failed, ${cause}` };
+  }
+}
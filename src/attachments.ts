@@ -0,0 +1,125 @@
+// INPUT: host.ts (SyncHost), vault.ts (normalizePath), api.ts (downloadAttachment), Web Crypto (crypto.subtle),
+//        markdown.ts (sanitizeFilename), types.ts (BijiAttachment), writer.ts (VaultWriter)
+// OUTPUT: attachmentPath, saveAttachments
+// POS: Attachment download — stores note media in the vault for ![[...]] embeds
+
+import type { SyncHost } from "./host";
+import { normalizePath } from "./vault";
+import { downloadAttachment } from "./api";
+import { sanitizeFilename } from "./markdown";
+import type { BijiAttachment } from "./types";
+import type { VaultWriter } from "./writer";
+
+// Fallback extensions when neither the URL nor the title has one
+const DEFAULT_EXTENSIONS: Record<string, string> = {
+  image: "jpg",
+  audio: "mp3",
+  file: "bin",
+};
+
+const EXTENSION = /\.([A-Za-z0-9]{1,5})$/;
+
+function extensionOf(name: string): string | null {
+  const match = name.match(EXTENSION);
+  return match ? match[1].toLowerCase() : null;
+}
+
+// Query parameters that sign a CDN link (OSS, S3 and generic token auth).
+// They change every time Get笔记 re-signs a link, without naming another file.
+const SIGNING_PARAM =
+  /^(expires|signature|ossaccesskeyid|security-token|x-oss-(credential|date|expires|signature|signature-version|additional-headers)|x-amz-.*|auth_key|sign|sig|token)$/i;
+
+/**
+ * The part of an attachment URL that names the file: the URL without its
+ * fragment and signing parameters, with the other query parameters (which can
+ * select a file or a variant of it, e.g. x-oss-process) in a stable order.
+ */
+function fileKey(url: string): string {
+  const [base, query = ""] = url.split("#")[0].split("?");
+  const params = query
+    .split("&")
+    .filter((param) => param && !SIGNING_PARAM.test(param.split("=")[0]))
+    .sort();
+  return params.length > 0 ? `${base}?${params.join("&")}` : base;
+}
+
+/** First 16 hex digits (64 bits) of the SHA-256 of a string. */
+async function sha256Prefix(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest).slice(0, 8), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Deterministic vault path for an attachment: "<folder>/<title>-<url hash>.<ext>".
+ * The extension comes from the URL, then the title, then the attachment type.
+ * Since the path depends only on the attachment itself, the same file always
+ * maps to the same path, which is what deduplicates downloads. The hash is a
+ * SHA-256 of the URL without its signing parameters and fragment: re-signed
+ * links of one file share a path, while links that differ in any other query
+ * parameter do not.
+ */
+export async function attachmentPath(folder: string, attachment: BijiAttachment): Promise<string> {
+  const url = attachment.url.split(/[?#]/)[0];
+  const ext =
+    extensionOf(url) ??
+    extensionOf(attachment.title ?? "") ??
+    DEFAULT_EXTENSIONS[attachment.type] ??
+    "bin";
+  const stem = sanitizeFilename(
+    (attachment.title || attachment.type || "attachment").replace(EXTENSION, ""),
+  ).slice(0, 60);
+  return normalizePath(`${folder}/${stem}-${await sha256Prefix(fileKey(attachment.url))}.${ext}`);
+}
+
+/**
+ * Download a note's media attachments into settings.attachmentFolder.
+ * Returns the vault paths to embed, in attachment order.
+ *
+ * Already-downloaded attachments (same URL → same path) are not fetched again.
+ * Each attachment fails independently: a failed or oversized download is
+ * recorded as an "attachment-skipped" action (so it shows in the sync history)
+ * and left out of the embeds, and never fails the note itself.
+ */
+export async function saveAttachments(
+  plugin: SyncHost,
+  writer: VaultWriter,
+  noteId: string,
+  attachments: BijiAttachment[],
+): Promise<string[]> {
+  const vault = plugin.vault;
+  const folder = normalizePath(plugin.settings.attachmentFolder);
+  const maxBytes = plugin.settings.maxAttachmentSizeMB * 1024 * 1024;
+  const paths: string[] = [];
+
+  for (const attachment of attachments) {
+    try {
+      // Dedup: same file, same path — only download what is not there yet
+      const path = await attachmentPath(folder, attachment);
+      if (!vault.getFile(path)) {
+        const reason = `download ${attachment.url}`;
+        if (writer.dryRun) {
+          // Planned only: nothing is downloaded in a dry run
+          writer.plan("attachment", path, noteId, reason);
+          paths.push(path);
+          continue;
+        }
+
+        const download = await downloadAttachment(plugin.transport, attachment.url, maxBytes);
+        if ("skipped" in download) {
+          writer.plan("attachment-skipped", path, noteId, `${attachment.url}: ${download.skipped}`);
+          continue;
+        }
+
+        if (!vault.isFolder(folder)) {
+          await writer.createFolder(folder);
+        }
+        await writer.createBinary(path, download.data, noteId, reason);
+      }
+      paths.push(path);
+    } catch (err) {
+      console.error(`Failed to save attachment ${attachment.url}:`, err);
+    }
+  }
+
+  return paths;
+}
@@ -1,11 +1,14 @@
-// INPUT: obsidian (requestUrl)
-// OUTPUT: decodeJwt, isJwtExpired, refreshJwt, checkTokenExpiration, validateRefreshToken
-// POS: Auth layer — JWT decoding, expiration checks, and token refresh
+// INPUT: transport.ts (HttpTransport), api.ts (ApiSchemaError)
+// OUTPUT: AUTH_BASE, decodeJwt, isJwtExpired, RefreshResult, parseRefreshResponse, refreshJwt, LoginResult,
+//         normalizePhone, validatePhone, sendLoginCode, loginWithCode, refreshTokenExpiry,
+//         describeTokenLifetime, checkTokenExpiration, validateRefreshToken
+// POS: Auth layer — JWT decoding, expiration checks, token refresh and rotation, phone login
 
-import { requestUrl } from "obsidian";
+import { ApiSchemaError } from "./api";
+import type { HttpTransport } from "./transport";
 
-const REFRESH_URL =
-  "https://notes-api.biji.com/account/v2/web/user/auth/refresh";
+/** Account endpoints of the Get笔记 web app; overridable per call so tests can use a local server. */
+export const AUTH_BASE = "https://notes-api.biji.com/account/v2/web/user/auth";
 
 export interface JwtPayload {
   exp: number;
@@ -57,41 +60,191 @@ export function isJwtExpired(jwt: string): boolean {
   return payload.exp * 1000 < Date.now();
 }
 
+/**
+ * What the refresh endpoint returned. The server may rotate the refresh token;
+ * once it does, only the new one keeps working, so it must replace ours.
+ * Times are epoch milliseconds.
+ */
+export interface RefreshResult {
+  jwt: string;
+  refreshToken: string | null; // Rotated refresh token, null when the server kept ours
+  refreshTokenExpiresAt: number | null; // Expiry of the refresh token in use after this call, if reported
+}
+
+// Expiry fields may be epoch seconds or milliseconds
+function toEpochMs(value: unknown): number | null {
+  const n = typeof value === "string" ? Number(value) : value;
+  if (typeof n !== "number" || !isFinite(n) || n <= 0) return null;
+  return n < 1e12 ? n * 1000 : n;
+}
+
+// Access JWT and optional refresh token of a `c.token` object, shared by refresh and login responses.
+// A refusal (`c.success` false) throws `failure`; a body of another shape throws ApiSchemaError.
+function parseTokenPayload(data: unknown, failure: string): { jwt: string; token: Record<string, unknown> } {
+  const c = (data as { c?: { success?: boolean; token?: Record<string, unknown> } } | null)?.c;
+  if (typeof c !== "object" || c === null) {
+    throw new ApiSchemaError("Auth response has no c object", "c");
+  }
+  if (!c.success) {
+    throw new Error(failure);
+  }
+  const token = c.token;
+  if (typeof token?.token !== "string" || !token.token) {
+    throw new ApiSchemaError("Auth response has no access token", "c.token.token");
+  }
+  return { jwt: token.token, token };
+}
+
+function reportedExpiry(token: Record<string, unknown>, refreshToken: string): number | null {
+  const decoded = decodeJwt(refreshToken);
+  return toEpochMs(token.refresh_token_expire_at) ?? (decoded ? decoded.exp * 1000 : null);
+}
+
+/**
+ * Parse a refresh response body: `c.token.token` is the access JWT,
+ * `c.token.refresh_token` / `c.token.refresh_token_expire_at` a rotated refresh
+ * token and its expiry when the server issues them. A rotated token without a
+ * reported expiry falls back to its own `exp` when it is a JWT.
+ * Throws when the response does not carry an access JWT.
+ */
+export function parseRefreshResponse(data: unknown, currentRefreshToken: string): RefreshResult {
+  const { jwt, token } = parseTokenPayload(data, "Refresh token invalid or expired");
+  const rotated =
+    typeof token.refresh_token === "string" && token.refresh_token && token.refresh_token !== currentRefreshToken
+      ? token.refresh_token
+      : null;
+  return {
+    jwt,
+    refreshToken: rotated,
+    refreshTokenExpiresAt: rotated
+      ? reportedExpiry(token, rotated)
+      : toEpochMs(token.refresh_token_expire_at),
+  };
+}
+
 /**
  * Refresh the access JWT using a refresh token.
- * Uses Obsidian's requestUrl (not fetch) for HTTP.
- * Throws on failure — caller should handle the error.
+ * Throws on failure (HttpStatusError for HTTP errors) — caller should handle the error.
  */
-export async function refreshJwt(refreshToken: string): Promise<string> {
-  const response = await requestUrl({
-    url: REFRESH_URL,
+export async function refreshJwt(
+  transport: HttpTransport,
+  refreshToken: string,
+  base = AUTH_BASE,
+): Promise<RefreshResult> {
+  const response = await transport.request({
+    url: `${base}/refresh`,
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ refresh_token: refreshToken }),
   });
 
-  const data = response.json;
-  if (!data?.c?.success) {
-    throw new Error("Refresh token invalid or expired");
+  return parseRefreshResponse(response.json, refreshToken);
+}
+
+// ── Login ───────────────────────────────────────────────────────────
+// Phone + SMS verification code, as on the biji.com login page:
+// sendLoginCode() texts a code to the phone, loginWithCode() exchanges it for tokens.
+// UNVERIFIED: POST /sms/send and POST /login/sms and their payloads are inferred
+// from the refresh endpoint and have not been confirmed against real API traffic.
+// The login modal says so and points to pasting the refresh token instead.
+
+/** Tokens of a new session; the refresh token replaces the one in settings. Times are epoch milliseconds. */
+export interface LoginResult {
+  jwt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: number | null;
+}
+
+/** Phone number without spaces or dashes, keeping a leading "+". */
+export function normalizePhone(phone: string): string {
+  return phone.trim().replace(/[\s-]/g, "");
+}
+
+/** Error message for a phone number that cannot be sent, or null. */
+export function validatePhone(phone: string): string | null {
+  if (!phone) return "Enter your phone number";
+  if (!/^\+?\d{6,15}$/.test(normalizePhone(phone))) return "Phone number should contain digits only";
+  return null;
+}
+
+/**
+ * Ask Get笔记 to text a login verification code to `phone`.
+ * Throws when the server refuses (unknown number, too many requests, ...).
+ */
+export async function sendLoginCode(transport: HttpTransport, phone: string, base = AUTH_BASE): Promise<void> {
+  const response = await transport.request({
+    url: `${base}/sms/send`,
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ phone: normalizePhone(phone) }),
+  });
+  if (!(response.json as { c?: { success?: boolean } } | null)?.c?.success) {
+    throw new Error("Could not send the verification code");
+  }
+}
+
+/**
+ * Log in with the code texted by sendLoginCode.
+ * Throws when the code is wrong or expired, or the response has no refresh token.
+ */
+export async function loginWithCode(
+  transport: HttpTransport,
+  phone: string,
+  code: string,
+  base = AUTH_BASE,
+): Promise<LoginResult> {
+  const response = await transport.request({
+    url: `${base}/login/sms`,
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ phone: normalizePhone(phone), code: code.trim() }),
+  });
+
+  const { jwt, token } = parseTokenPayload(response.json, "Verification code invalid or expired");
+  if (typeof token.refresh_token !== "string" || !token.refresh_token) {
+    throw new Error("Login response did not include a refresh token");
   }
-  return data.c.token.token;
+  return {
+    jwt,
+    refreshToken: token.refresh_token,
+    refreshTokenExpiresAt: reportedExpiry(token, token.refresh_token),
+  };
 }
 
 /**
- * Check refresh token expiration at startup.
- * The refresh token may be JWT (old behavior) or opaque string (actual format).
- * For opaque tokens, we can't check expiration — return null silently.
- * Returns a warning message string, or null if no warning needed.
+ * When the refresh token stops working (epoch ms): the expiry stored from the
+ * last refresh response, else the token's own `exp` if it is a JWT.
+ * Null for opaque tokens with no reported expiry.
  */
-export function checkTokenExpiration(refreshToken: string): string | null {
+export function refreshTokenExpiry(refreshToken: string, storedExpiresAt: number | null): number | null {
   if (!refreshToken) return null;
-
-  // Try decoding as JWT — if it's an opaque token, decodeJwt returns null
+  if (storedExpiresAt !== null) return storedExpiresAt;
   const payload = decodeJwt(refreshToken);
-  if (!payload) return null; // Opaque token or malformed = skip check
+  return payload ? payload.exp * 1000 : null;
+}
+
+/** "expires in 12 days", "expires in 5 hours", "expired" — for the settings tab. */
+export function describeTokenLifetime(expiresAt: number, now = Date.now()): string {
+  const hours = (expiresAt - now) / (1000 * 60 * 60);
+  if (hours <= 0) return "expired";
+  if (hours < 1) return "expires in less than an hour";
+  if (hours < 48) return `expires in ${Math.floor(hours)} hours`;
+  return `expires in ${Math.floor(hours / 24)} days`;
+}
+
+/**
+ * Check refresh token expiration at startup.
+ * Uses the expiry reported by the last refresh when there is one; otherwise the
+ * token may be a JWT (old behavior) or an opaque string (actual format).
+ * For opaque tokens without a known expiry we can't check — return null silently.
+ * Returns a warning message string, or null if no warning needed.
+ */
+export function checkTokenExpiration(refreshToken: string, storedExpiresAt: number | null = null): string | null {
+  const expiresAt = refreshTokenExpiry(refreshToken, storedExpiresAt);
+  if (expiresAt === null) return null; // No token, opaque token or malformed = skip check
 
   const daysUntilExpiry =
-    (payload.exp * 1000 - Date.now()) / (1000 * 60 * 60 * 24);
+    (expiresAt - Date.now()) / (1000 * 60 * 60 * 24);
 
   if (daysUntilExpiry <= 0) {
     return "Get笔记 refresh token has expired, please update in settings";
@@ -0,0 +1,22 @@
+// INPUT: cli.ts (runCli)
+// OUTPUT: none (runs on load)
+// POS: Node entry of the command line, bundled into cli.js by `npm run build:cli`
+
+import { runCli } from "./cli";
+
+// Ctrl+C stops after the current note; the next run resumes where it stopped
+const controller = new AbortController();
+process.once("SIGINT", () => {
+  console.log("Cancelling sync...");
+  controller.abort();
+});
+
+runCli(process.argv.slice(2), { env: process.env, signal: controller.signal }).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(err);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,353 @@
+// INPUT: Node fs/path, settings-schema.ts, host.ts (SyncHost), fs-vault.ts (FsVault, fsAdapter), sync.ts (syncBiji),
+//        note-index.ts, state.ts, secrets.ts, jwt-cache.ts, writer.ts, history.ts, profiles.ts, filters.ts (SyncFilter, sameSyncFilter),
+//        routing.ts (FolderRule, FOLDER_RULE_FIELDS), conflict.ts (ConflictPolicy), deletions.ts (DeletionPolicy),
+//        conflict.ts (hashContent), transport.ts (HttpTransport, fetchTransport), api.ts (AuthFatalError)
+// OUTPUT: CliConfig, CLI_SETTING_KEYS, STATE_FOLDER, CliError, parseCliConfig, runCli
+// POS: Headless command line — syncs Get笔记 into a plain Markdown folder with the plugin's sync engine
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { DEFAULT_SETTINGS } from "./settings-schema";
+import type { BijiSyncSettings } from "./settings-schema";
+import type { SyncHost } from "./host";
+import type { FileAdapter } from "./vault";
+import { FsVault, fsAdapter } from "./fs-vault";
+import { syncBiji } from "./sync";
+import { BijiNoteIndex } from "./note-index";
+import { NoteStateStore } from "./state";
+import { SecretStore } from "./secrets";
+import { JwtCache } from "./jwt-cache";
+import { VaultWriter } from "./writer";
+import { addSyncRun, describeSyncRun, finishSyncRun, startSyncRun } from "./history";
+import { migrateProfiles } from "./profiles";
+import type { AccountProfile } from "./profiles";
+import { DEFAULT_SYNC_FILTER, sameSyncFilter } from "./filters";
+import type { SyncFilter } from "./filters";
+import { FOLDER_RULE_FIELDS } from "./routing";
+import type { FolderRule } from "./routing";
+import { hashContent } from "./conflict";
+import type { ConflictPolicy } from "./conflict";
+import type { DeletionPolicy } from "./deletions";
+import { fetchTransport } from "./transport";
+import type { HttpTransport } from "./transport";
+import { AuthFatalError } from "./api";
+
+/** State folder inside the output folder; skipped by FsVault like every dot-folder. */
+export const STATE_FOLDER = ".getbiji-sync";
+
+const SETTINGS_FILE = "settings.json";
+const NOTE_STATE_FILE = "sync-state.json";
+const SECRETS_FILE = "secrets.json";
+
+const USAGE = `Usage: getbiji-sync [--config <file>] [--full] [--dry-run]
+
+  --config <file>  JSON config (default: getbiji-sync.json)
+  --full           Walk every note: picks up edits and, with a deletionPolicy, deletions
+  --dry-run        Print what a sync would change without writing anything
+
+Environment: GETBIJI_REFRESH_TOKEN (overrides "refreshToken" in the config),
+GETBIJI_PASSPHRASE (unlocks tokens encrypted by the plugin)`;
+
+/** Shared settings the config file can set; everything else keeps its default. */
+export const CLI_SETTING_KEYS = [
+  "filenameTemplate",
+  "conflictPolicy",
+  "deletionPolicy",
+  "archiveFolder",
+  "downloadAttachments",
+  "attachmentFolder",
+  "maxAttachmentSizeMB",
+  "noteTemplate",
+  "maxRetryAttempts",
+] as const;
+
+type CliSettings = Pick<BijiSyncSettings, (typeof CLI_SETTING_KEYS)[number]>;
+
+/**
+ * The config file. `output` is resolved against the folder of the config
+ * file. Get笔记 rotates the refresh token on every refresh and the rotated one
+ * is kept in the state folder, so the configured token only replaces it once
+ * it changes.
+ */
+export interface CliConfig extends Partial<CliSettings> {
+  output: string;
+  refreshToken?: string;
+  targetFolder?: string;
+  folderRules?: FolderRule[];
+  syncFilter?: Partial<SyncFilter>;
+}
+
+/** A usage or config problem: nothing was synced (exit code 2). */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+// Settings with a fixed set of values: the engine reads anything else as some other policy
+const CONFLICT_POLICIES: ConflictPolicy[] = ["conflict-file", "keep-local", "take-remote", "merge"];
+const DELETION_POLICIES: DeletionPolicy[] = ["off", "archive", "trash", "tag"];
+
+const kindOf = (value: unknown) => (Array.isArray(value) ? "list" : typeof value);
+
+/** Throw unless a config value is missing or of the same kind as `expected`. */
+function checkKind(name: string, value: unknown, expected: unknown): void {
+  if (value !== undefined && kindOf(value) !== kindOf(expected)) {
+    throw new CliError(`Config "${name}" must be a ${kindOf(expected)}`);
+  }
+}
+
+/** Throw unless a config value is missing or one of `choices`. */
+function checkChoice(name: string, value: unknown, choices: readonly string[]): void {
+  if (value !== undefined && !choices.includes(value as string)) {
+    throw new CliError(`Config "${name}" must be one of ${choices.map((c) => `"${c}"`).join(", ")}`);
+  }
+}
+
+/**
+ * Validate the parsed JSON of a config file. Unknown keys and values outside
+ * the choices of a setting are rejected, so typos do not pass silently.
+ */
+export function parseCliConfig(data: unknown): CliConfig {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new CliError("Config must be a JSON object");
+  }
+  const config = data as Record<string, unknown>;
+  const known: string[] = ["output", "refreshToken", "targetFolder", "folderRules", "syncFilter", ...CLI_SETTING_KEYS];
+  const unknown = Object.keys(config).filter((key) => !known.includes(key));
+  if (unknown.length > 0) throw new CliError(`Unknown config keys: ${unknown.join(", ")}`);
+  if (typeof config.output !== "string" || config.output.trim() === "") {
+    throw new CliError('Config needs "output", the folder to sync into');
+  }
+  checkKind("refreshToken", config.refreshToken, "");
+  checkKind("targetFolder", config.targetFolder, "");
+  for (const key of CLI_SETTING_KEYS) checkKind(key, config[key], DEFAULT_SETTINGS[key]);
+  checkChoice("conflictPolicy", config.conflictPolicy, CONFLICT_POLICIES);
+  checkChoice("deletionPolicy", config.deletionPolicy, DELETION_POLICIES);
+
+  checkKind("folderRules", config.folderRules, []);
+  const isRule = (rule: unknown) =>
+    typeof rule === "object" &&
+    rule !== null &&
+    ["field", "value", "folder"].every((key) => typeof (rule as Record<string, unknown>)[key] === "string");
+  if (Array.isArray(config.folderRules) && !config.folderRules.every(isRule)) {
+    throw new CliError('Config "folderRules" must be a list of { "field", "value", "folder" }');
+  }
+  for (const [index, rule] of ((config.folderRules as FolderRule[] | undefined) ?? []).entries()) {
+    checkChoice(`folderRules[${index}].field`, rule.field, Object.keys(FOLDER_RULE_FIELDS));
+  }
+
+  if (config.syncFilter !== undefined) {
+    if (typeof config.syncFilter !== "object" || config.syncFilter === null || Array.isArray(config.syncFilter)) {
+      throw new CliError('Config "syncFilter" must be an object');
+    }
+    const filter = config.syncFilter as Record<string, unknown>;
+    const unknownFilter = Object.keys(filter).filter((key) => !(key in DEFAULT_SYNC_FILTER));
+    if (unknownFilter.length > 0) throw new CliError(`Unknown syncFilter keys: ${unknownFilter.join(", ")}`);
+    for (const [key, expected] of Object.entries(DEFAULT_SYNC_FILTER)) {
+      const value = filter[key];
+      checkKind(`syncFilter.${key}`, value, expected);
+      if (Array.isArray(value) && !value.every((item) => typeof item === "string")) {
+        throw new CliError(`Config "syncFilter.${key}" must be a list of strings`);
+      }
+    }
+  }
+  return config as unknown as CliConfig;
+}
+
+// ── Host ──
+
+/** SyncHost on a folder: settings, note state and tokens are JSON files in its state folder. */
+class CliHost implements SyncHost {
+  settings: BijiSyncSettings = DEFAULT_SETTINGS;
+  noteIndex: BijiNoteIndex;
+  noteState: NoteStateStore;
+  secrets: SecretStore;
+  /** Hash of the config token the stored refresh token was seeded from (null before the first one). */
+  configTokenHash: string | null = null;
+  private adapter: FileAdapter;
+  private jwtCache: JwtCache | null = null;
+
+  constructor(
+    public vault: FsVault,
+    public transport: HttpTransport,
+    private log: (line: string) => void,
+  ) {
+    this.adapter = fsAdapter(path.join(vault.root, STATE_FOLDER));
+    this.noteIndex = new BijiNoteIndex(vault);
+    this.noteState = new NoteStateStore(this.adapter, NOTE_STATE_FILE);
+    this.secrets = new SecretStore(this.adapter, SECRETS_FILE);
+  }
+
+  /** Stored settings (cursors, retry queue, history) with the config applied on top. */
+  async load(config: CliConfig): Promise<void> {
+    let data: Record<string, unknown> | null = null;
+    if (await this.adapter.exists(SETTINGS_FILE)) {
+      data = JSON.parse(await this.adapter.read(SETTINGS_FILE));
+    }
+    const { configTokenHash, ...stored } = data ?? {};
+    this.configTokenHash = typeof configTokenHash === "string" ? configTokenHash : null;
+    this.settings = { ...DEFAULT_SETTINGS, ...stored, profiles: migrateProfiles(data) };
+    for (const key of CLI_SETTING_KEYS) {
+      if (config[key] !== undefined) Object.assign(this.settings, { [key]: config[key] });
+    }
+    const profile = this.settings.profiles[0];
+    if (config.targetFolder !== undefined) profile.targetFolder = config.targetFolder;
+    profile.folderRules = config.folderRules ?? [];
+    const syncFilter = { ...DEFAULT_SYNC_FILTER, ...config.syncFilter };
+    // Notes the stored filter left out are behind the cursor: walk all notes again
+    if (data && !sameSyncFilter(syncFilter, { ...DEFAULT_SYNC_FILTER, ...profile.syncFilter })) {
+      profile.lastSyncId = null;
+      profile.syncCheckpoint = null;
+      this.log("Sync filter changed: looking at all notes again");
+    }
+    profile.syncFilter = syncFilter;
+    await this.secrets.load();
+  }
+
+  tokenCache(profile: AccountProfile): JwtCache {
+    if (!this.jwtCache) {
+      this.jwtCache = new JwtCache(
+        this.transport,
+        () => this.secrets.get(profile.id).refreshToken,
+        this.secrets.get(profile.id).accessToken,
+        ({ refreshTokenExpiresAt, ...secrets }) => {
+          if (refreshTokenExpiresAt !== undefined) profile.refreshTokenExpiresAt = refreshTokenExpiresAt;
+          this.secrets.set(profile.id, secrets);
+          void this.saveSettings();
+        },
+      );
+    }
+    return this.jwtCache;
+  }
+
+  async saveSettings(): Promise<void> {
+    const data = { ...this.settings, configTokenHash: this.configTokenHash };
+    await this.adapter.write(SETTINGS_FILE, JSON.stringify(data, null, 2));
+    await this.secrets.save();
+  }
+
+  notify(message: string): void {
+    this.log(message);
+  }
+}
+
+// ── Entry ──
+
+/**
+ * Run the command line with `args` (without node and the script). Resolves
+ * to the exit code: 0 after a complete sync, 1 when the sync failed or some
+ * notes could not be synced, 2 for usage and config errors.
+ */
+export async function runCli(
+  args: string[],
+  options: {
+    env?: Record<string, string | undefined>;
+    transport?: HttpTransport;
+    signal?: AbortSignal;
+    log?: (line: string) => void;
+  } = {},
+): Promise<number> {
+  const env = options.env ?? {};
+  const log = options.log ?? ((line: string) => console.log(line));
+  const signal = options.signal ?? new AbortController().signal;
+
+  let configPath = "getbiji-sync.json";
+  let fullScan = false;
+  let dryRun = false;
+  let host: CliHost;
+  try {
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (arg === "--config" && i + 1 < args.length) configPath = args[++i];
+      else if (arg === "--full") fullScan = true;
+      else if (arg === "--dry-run") dryRun = true;
+      else if (arg === "--help" || arg === "-h") {
+        log(USAGE);
+        return 0;
+      } else throw new CliError(`Unknown argument: ${arg}\n\n${USAGE}`);
+    }
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(configPath, "utf8");
+    } catch {
+      throw new CliError(`Cannot read config file ${configPath}`);
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch (err) {
+      throw new CliError(`Config file ${configPath} is not valid JSON: ${err instanceof Error ? err.message : err}`);
+    }
+    const config = parseCliConfig(data);
+
+    const vault = new FsVault(path.resolve(path.dirname(configPath), config.output));
+    await vault.load();
+    host = new CliHost(vault, options.transport ?? fetchTransport(), log);
+    await host.load(config);
+
+    if (host.secrets.isLocked) {
+      if (!env.GETBIJI_PASSPHRASE) throw new CliError("Tokens are encrypted: set GETBIJI_PASSPHRASE");
+      try {
+        await host.secrets.unlock(env.GETBIJI_PASSPHRASE);
+      } catch (err) {
+        throw new CliError(err instanceof Error ? err.message : String(err));
+      }
+    }
+    const profile = host.settings.profiles[0];
+    const refreshToken = env.GETBIJI_REFRESH_TOKEN || config.refreshToken;
+    if (refreshToken) {
+      const tokenHash = hashContent(refreshToken);
+      // Tokens stored before the hash was recorded were seeded from this same config
+      if (host.configTokenHash === null && host.secrets.get(profile.id).refreshToken) {
+        host.configTokenHash = tokenHash;
+      }
+      // A token other than the seed was pasted in: it replaces the rotated one
+      if (tokenHash !== host.configTokenHash) {
+        host.secrets.set(profile.id, { refreshToken });
+        host.configTokenHash = tokenHash;
+      }
+    }
+  } catch (err) {
+    if (!(err instanceof CliError)) throw err;
+    log(err.message);
+    return 2;
+  }
+
+  const profile = host.settings.profiles[0];
+  const writer = new VaultWriter(host.vault, dryRun);
+  const run = dryRun ? undefined : startSyncRun("manual", profile.id);
+  let failed = false;
+  try {
+    await syncBiji(host, profile, signal, { fullScan, writer, run });
+  } catch (err) {
+    failed = true;
+    const message = err instanceof Error ? err.message : String(err);
+    if (run) {
+      run.status = "failed";
+      run.message = message;
+    }
+    if (err instanceof AuthFatalError) {
+      log(`Authentication failed, please update the refresh token: ${message}`);
+    } else {
+      log(`Sync failed: ${message}`);
+      console.error(err);
+    }
+  }
+
+  if (dryRun) {
+    for (const { action, path: actionPath, reason } of writer.actions) {
+      log(`${action.padEnd(13)} ${actionPath || "-"}  (${reason})`);
+    }
+    if (writer.actions.length === 0) log("Nothing to do: the folder is up to date.");
+    return failed ? 1 : 0;
+  }
+
+  const record = finishSyncRun(run!, writer.actions, signal.aborted ? "cancelled" : "complete");
+  host.settings.syncHistory = addSyncRun(host.settings.syncHistory, record);
+  await host.saveSettings();
+  log(`${record.status}: ${describeSyncRun(record)}`);
+  return record.status === "complete" && record.errors.length === 0 ? 0 : 1;
+}
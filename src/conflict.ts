@@ -0,0 +1,137 @@
+// INPUT: none
+// OUTPUT: ConflictPolicy, hashContent, mergeLines, conflictFilePath
+// POS: Conflict detection helpers — content hashing, line-level three-way merge
+
+/**
+ * What to do when a synced note was edited locally AND changed in Get笔记:
+ * - keep-local: leave the vault copy alone
+ * - take-remote: overwrite with the new remote render (user section still kept)
+ * - conflict-file: keep the vault copy and write the remote render next to it
+ * - merge: line-level three-way merge, falling back to conflict-file on overlap
+ */
+export type ConflictPolicy = "keep-local" | "take-remote" | "conflict-file" | "merge";
+
+// Merging is O(n*m) in lines; larger documents go to a conflict file instead
+const MAX_MERGE_CELLS = 4_000_000;
+
+/**
+ * 32-bit FNV-1a hash of a string, as 8 hex chars.
+ * Only used to detect local edits, so collision resistance is not a concern.
+ */
+export function hashContent(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Path for the sibling file that receives the remote version of a conflicted note:
+ * "Folder/Note.md" -> "Folder/Note (conflict).md".
+ */
+export function conflictFilePath(path: string): string {
+  return path.replace(/(\.md)?$/, " (conflict).md");
+}
+
+// A change relative to base: replace base[start, end) with lines
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/** Hunks turning `base` into `other`, from a longest-common-subsequence alignment. */
+function diffHunks(base: string[], other: string[]): Hunk[] {
+  const n = base.length;
+  const m = other.length;
+
+  // lcs[i][j] = LCS length of base[i..] and other[j..]
+  const lcs: number[][] = [];
+  for (let i = 0; i <= n; i++) lcs.push(new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        base[i] === other[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && base[i] === other[j]) {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      i++;
+      j++;
+    } else if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      current = current ?? { start: i, end: i, lines: [] };
+      current.lines.push(other[j]);
+      j++;
+    } else {
+      current = current ?? { start: i, end: i, lines: [] };
+      current.end = i + 1;
+      i++;
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+}
+
+function sameHunk(a: Hunk, b: Hunk): boolean {
+  return (
+    a.start === b.start &&
+    a.end === b.end &&
+    a.lines.length === b.lines.length &&
+    a.lines.every((line, k) => line === b.lines[k])
+  );
+}
+
+/**
+ * Line-level three-way merge of two descendants of `base`.
+ * Returns the merged text, or null when both sides touched the same or
+ * adjacent lines differently (or the documents are too large to merge).
+ */
+export function mergeLines(base: string, local: string, remote: string): string | null {
+  const baseLines = base.split("\n");
+  const localLines = local.split("\n");
+  const remoteLines = remote.split("\n");
+
+  const cells = baseLines.length * Math.max(localLines.length, remoteLines.length);
+  if (cells > MAX_MERGE_CELLS) return null;
+
+  const localHunks = diffHunks(baseLines, localLines);
+  const remoteHunks = diffHunks(baseLines, remoteLines);
+
+  // Collect both sides' hunks; identical changes are applied once
+  const hunks: Hunk[] = [...localHunks];
+  for (const r of remoteHunks) {
+    let duplicate = false;
+    for (const l of localHunks) {
+      if (sameHunk(l, r)) {
+        duplicate = true;
+        break;
+      }
+      // Overlapping or touching ranges conflict (same rule as git)
+      if (r.start <= l.end && l.start <= r.end) return null;
+    }
+    if (!duplicate) hunks.push(r);
+  }
+  hunks.sort((a, b) => a.start - b.start);
+
+  const merged: string[] = [];
+  let pos = 0;
+  for (const hunk of hunks) {
+    merged.push(...baseLines.slice(pos, hunk.start), ...hunk.lines);
+    pos = hunk.end;
+  }
+  merged.push(...baseLines.slice(pos));
+  return merged.join("\n");
+}
@@ -0,0 +1,95 @@
+// INPUT: host.ts (SyncHost), vault.ts (normalizePath), writer.ts (VaultWriter),
+//        profiles.ts (AccountProfile, ownsNote)
+// OUTPUT: DeletionPolicy, DELETION_CHECK_INTERVAL, reconcileDeletions
+// POS: Reconciliation pass — applies remote deletions to the vault copies
+
+import type { SyncHost } from "./host";
+import { normalizePath } from "./vault";
+import type { VaultWriter } from "./writer";
+import { ownsNote } from "./profiles";
+import type { AccountProfile } from "./profiles";
+
+/**
+ * What to do with a vault note whose biji_id no longer exists in Get笔记:
+ * - off: nothing (default)
+ * - archive: move it into settings.archiveFolder
+ * - trash: move it to Obsidian's .trash folder
+ * - tag: set `biji_deleted: true` in its frontmatter
+ */
+export type DeletionPolicy = "off" | "archive" | "trash" | "tag";
+
+const REASON = "deleted in Get笔记";
+
+// Auto-sync runs a full scan for deletions at most this often (when opted in)
+export const DELETION_CHECK_INTERVAL = 24 * 60 * 60 * 1000;
+
+/**
+ * Compare every synced note of `profile` in the vault against the complete set
+ * of remote ids from a full walk, and apply settings.deletionPolicy to the
+ * orphans. Notes of other accounts are never touched (ownsNote).
+ *
+ * Callers must only pass ids from a walk that reached the last page; an empty
+ * set is treated as a failed listing and never deletes anything.
+ * Returns the vault paths (before any move) that were acted upon.
+ */
+export async function reconcileDeletions(
+  plugin: SyncHost,
+  profile: AccountProfile,
+  writer: VaultWriter,
+  remoteIds: Set<string>,
+): Promise<string[]> {
+  const policy = plugin.settings.deletionPolicy;
+  if (policy === "off" || remoteIds.size === 0) return [];
+
+  const archiveFolder = normalizePath(plugin.settings.archiveFolder);
+  const affected: string[] = [];
+
+  for (const [bijiId, file] of plugin.noteIndex.entries()) {
+    if (remoteIds.has(bijiId)) continue;
+    const frontmatter = plugin.vault.frontmatter(file);
+    if (!ownsNote(profile, frontmatter?.biji_account)) continue;
+
+    const path = file.path;
+    try {
+      if (policy === "archive") {
+        if (file.path.startsWith(`${archiveFolder}/`)) continue; // Already archived
+        await ensureFolder(plugin, writer, archiveFolder);
+        let target = normalizePath(`${archiveFolder}/${file.name}`);
+        if (plugin.vault.getFile(target) || plugin.vault.isFolder(target)) {
+          target = normalizePath(
+            `${archiveFolder}/${file.basename}-${bijiId.slice(0, 6)}.${file.extension}`,
+          );
+        }
+        await writer.rename(file, target, bijiId, REASON);
+      } else if (policy === "trash") {
+        await writer.trash(file, bijiId, REASON);
+        if (!writer.dryRun) plugin.noteState.delete(bijiId);
+      } else {
+        if (frontmatter?.biji_deleted === true) continue; // Already tagged
+        await writer.processFrontMatter(
+          file,
+          (fm) => {
+            fm.biji_deleted = true;
+          },
+          bijiId,
+          REASON,
+        );
+      }
+      affected.push(path);
+    } catch (err) {
+      console.error(`Failed to apply deletion for ${path}:`, err);
+    }
+  }
+
+  return affected;
+}
+
+async function ensureFolder(
+  plugin: SyncHost,
+  writer: VaultWriter,
+  path: string,
+): Promise<void> {
+  if (!plugin.vault.isFolder(path)) {
+    await writer.createFolder(path);
+  }
+}
@@ -0,0 +1,134 @@
+// INPUT: api.ts (fetchNotes, isHttpError, AuthFatalError, ApiSchemaError, API_BASE), auth.ts (decodeJwt,
+//        validateRefreshToken, AUTH_BASE), jwt-cache.ts (JwtCache), transport.ts (HttpTransport)
+// OUTPUT: DiagnosticStatus, DiagnosticStep, ConnectionReport, testConnection, describeFailure
+// POS: Connection test — checks a refresh token end to end and explains what broke
+
+import { API_BASE, ApiSchemaError, AuthFatalError, fetchNotes, isHttpError } from "./api";
+import { AUTH_BASE, decodeJwt, validateRefreshToken } from "./auth";
+import type { JwtCache } from "./jwt-cache";
+import type { HttpTransport } from "./transport";
+
+export type DiagnosticStatus = "ok" | "error";
+
+/** One checked step of a connection test, e.g. "Refresh token": "Get笔记 rejected it". */
+export interface DiagnosticStep {
+  name: string;
+  status: DiagnosticStatus;
+  detail: string;
+}
+
+/** Steps run in order; the test stops at the first failing one. */
+export interface ConnectionReport {
+  ok: boolean;
+  steps: DiagnosticStep[];
+}
+
+/**
+ * Explain why a request to `base` failed, by failure mode:
+ * - schema change: the response did not have the expected shape
+ * - network: no HTTP status at all (offline, DNS, proxy, TLS)
+ * - server: 5xx / 429
+ * - anything else: an unexpected HTTP status
+ * Auth failures are told apart by the callers, which know which token was sent.
+ */
+export function describeFailure(err: unknown, base: string): string {
+  if (err instanceof ApiSchemaError) {
+    return `Unexpected response from Get笔记 (${err.field} missing). The API may have changed; the plugin needs an update.`;
+  }
+  if (!isHttpError(err)) {
+    const message = err instanceof Error ? err.message : String(err);
+    return `Could not reach ${new URL(base).host}: ${message}. Check your internet connection, proxy or firewall.`;
+  }
+  if (err.status >= 500 || err.status === 429) {
+    return `Get笔记 answered HTTP ${err.status}. The service is busy or down; try again later.`;
+  }
+  return `Get笔记 answered HTTP ${err.status}. The API may have changed; the plugin needs an update.`;
+}
+
+// Status of the failed retry behind an AuthFatalError, if it was an HTTP error
+function authStatus(err: AuthFatalError): number | null {
+  return isHttpError(err.cause) ? err.cause.status : null;
+}
+
+/**
+ * Check a refresh token end to end: obtain an access JWT, decode its uid and
+ * expiry, and request the first page of notes. Every step reports what it
+ * found or why it failed, so a bad token can be told apart from a network
+ * problem or an API change. The refresh goes through `tokens`, so a refresh
+ * token rotated by the server is saved as during a sync.
+ */
+export async function testConnection(
+  transport: HttpTransport,
+  refreshToken: string,
+  tokens: Pick<JwtCache, "refresh">,
+): Promise<ConnectionReport> {
+  const steps: DiagnosticStep[] = [];
+  const fail = (name: string, detail: string): ConnectionReport => {
+    steps.push({ name, status: "error", detail });
+    return { ok: false, steps };
+  };
+
+  const tokenError = validateRefreshToken(refreshToken);
+  if (tokenError) return fail("Refresh token", "No refresh token. Log in or paste one first.");
+
+  // 1. Exchange the refresh token for an access JWT
+  let jwt: string;
+  try {
+    jwt = await tokens.refresh();
+  } catch (err) {
+    // refreshJwt throws this message when the server answers success: false
+    const rejected =
+      (isHttpError(err) && (err.status === 401 || err.status === 403)) ||
+      (err instanceof Error && err.message === "Refresh token invalid or expired");
+    return fail(
+      "Refresh token",
+      rejected
+        ? "Get笔记 rejected the refresh token: it is invalid, expired or was replaced by a newer login. Log in again or paste a new one."
+        : describeFailure(err, AUTH_BASE),
+    );
+  }
+  steps.push({ name: "Refresh token", status: "ok", detail: "Accepted by Get笔记" });
+
+  // 2. The access JWT identifies the account and tells how long it is valid
+  const payload = decodeJwt(jwt);
+  if (!payload) {
+    return fail(
+      "Access token",
+      "The access token is not a JWT with an expiry. The token format may have changed; the plugin needs an update.",
+    );
+  }
+  steps.push({
+    name: "Access token",
+    status: "ok",
+    detail: `${payload.uid !== undefined ? `User ${payload.uid}, valid` : "Valid"} until ${new Date(payload.exp * 1000).toLocaleString()}`,
+  });
+
+  // 3. One page of notes, sent with the same headers as a sync
+  try {
+    const first = await fetchNotes(transport, jwt, (rejected) => tokens.refresh(rejected))[Symbol.asyncIterator]().next();
+    const page = first.done ? null : first.value;
+    if (!page || page.notes.length === 0) {
+      steps.push({ name: "Notes", status: "ok", detail: "Connected, but this account has no notes yet" });
+    } else {
+      const count = page.total ?? `${page.notes.length}${page.isLastPage ? "" : "+"}`;
+      steps.push({
+        name: "Notes",
+        status: "ok",
+        detail: `Visible: ${count}. Latest: "${page.notes[0].title || "(untitled)"}"`,
+      });
+    }
+  } catch (err) {
+    if (err instanceof AuthFatalError) {
+      // A just-issued JWT was refused: the token is fine, the request itself is not
+      return fail(
+        "Notes",
+        authStatus(err) === 403
+          ? "Get笔记 refused a freshly issued access token (HTTP 403 InvalidToken). The notes API requires the X-OAuth-Version header; it was missing or its version is no longer accepted, so the plugin needs an update."
+          : "Get笔记 refused a freshly issued access token for the notes API. Log in again; if that does not help, the API may have changed.",
+      );
+    }
+    return fail("Notes", describeFailure(err, API_BASE));
+  }
+
+  return { ok: true, steps };
+}
@@ -0,0 +1,137 @@
+// INPUT: RawNote from types.ts, api.ts (fetchNotes), auth.ts (validateRefreshToken), jwt-cache.ts (JwtCache),
+//        markdown.ts (bijiNoteToRawNote), template.ts (formatDate), transport.ts (HttpTransport)
+// OUTPUT: SyncFilter, DEFAULT_SYNC_FILTER, filterNote, sameSyncFilter, previewSyncFilter
+// POS: Sync filters — decide which remote notes are imported at all
+
+import type { RawNote } from "./types";
+import { fetchNotes } from "./api";
+import { validateRefreshToken } from "./auth";
+import type { JwtCache } from "./jwt-cache";
+import { bijiNoteToRawNote } from "./markdown";
+import { formatDate } from "./template";
+import type { HttpTransport } from "./transport";
+
+/**
+ * Which notes to sync. Empty include lists allow everything; exclude lists
+ * always win. Dates are inclusive "YYYY-MM-DD" bounds on the local creation
+ * date ("" = unbounded). Text comparisons ignore case.
+ */
+export interface SyncFilter {
+  includeTags: string[];
+  excludeTags: string[];
+  includeNoteTypes: string[];
+  excludeNoteTypes: string[];
+  includeEntryTypes: string[];
+  excludeEntryTypes: string[];
+  includeOrigins: string[];
+  excludeOrigins: string[];
+  createdFrom: string;
+  createdUntil: string;
+}
+
+export const DEFAULT_SYNC_FILTER: SyncFilter = {
+  includeTags: [],
+  excludeTags: [],
+  includeNoteTypes: [],
+  excludeNoteTypes: [],
+  includeEntryTypes: [],
+  excludeEntryTypes: [],
+  includeOrigins: [],
+  excludeOrigins: [],
+  createdFrom: "",
+  createdUntil: "",
+};
+
+// Notes inspected by the settings preview (the most recent ones)
+const PREVIEW_LIMIT = 50;
+
+function normalize(values: string[]): string[] {
+  return values.map((v) => v.trim().replace(/^#/, "").toLowerCase()).filter((v) => v.length > 0);
+}
+
+/**
+ * Whether two filters let the same notes through: lists are compared the way
+ * filterNote reads them (order, case, "#" and blanks do not matter).
+ */
+export function sameSyncFilter(a: SyncFilter, b: SyncFilter): boolean {
+  return (Object.keys(DEFAULT_SYNC_FILTER) as Array<keyof SyncFilter>).every((key) => {
+    const x = a[key];
+    const y = b[key];
+    if (typeof x === "string" || typeof y === "string") return x === y;
+    return normalize(x).sort().join("\n") === normalize(y).sort().join("\n");
+  });
+}
+
+/**
+ * Check a note against the filter.
+ * Returns why the note is filtered out, or null if it should be synced.
+ */
+export function filterNote(note: RawNote, filter: SyncFilter): string | null {
+  const tags = note.tags.map((t) => t.toLowerCase());
+
+  const excludedTag = normalize(filter.excludeTags).find((t) => tags.includes(t));
+  if (excludedTag) return `tag "${excludedTag}" is excluded`;
+  const includeTags = normalize(filter.includeTags);
+  if (includeTags.length > 0 && !includeTags.some((t) => tags.includes(t))) {
+    return "no included tag";
+  }
+
+  const fields: Array<[string, string | undefined, string[], string[]]> = [
+    ["note type", note.noteType, filter.includeNoteTypes, filter.excludeNoteTypes],
+    ["entry type", note.entryType, filter.includeEntryTypes, filter.excludeEntryTypes],
+    ["origin", note.origin, filter.includeOrigins, filter.excludeOrigins],
+  ];
+  for (const [label, raw, include, exclude] of fields) {
+    const value = (raw ?? "").toLowerCase();
+    if (normalize(exclude).includes(value)) return `${label} "${value}" is excluded`;
+    const included = normalize(include);
+    if (included.length > 0 && !included.includes(value)) {
+      return `${label} "${value}" is not included`;
+    }
+  }
+
+  const from = filter.createdFrom.trim();
+  const until = filter.createdUntil.trim();
+  if (from || until) {
+    const created = formatDate(note.createdAt, "YYYY-MM-DD");
+    if (from && created < from) return `created before ${from}`;
+    if (until && created > until) return `created after ${until}`;
+  }
+
+  return null;
+}
+
+/**
+ * Apply the filter to the most recent remote notes, for the settings preview.
+ * Throws (like sync) when the token is missing or rejected.
+ */
+export async function previewSyncFilter(
+  transport: HttpTransport,
+  refreshToken: string,
+  filter: SyncFilter,
+  jwtCache: JwtCache,
+): Promise<{ matched: RawNote[]; filtered: Array<{ note: RawNote; reason: string }> }> {
+  const tokenError = validateRefreshToken(refreshToken);
+  if (tokenError) throw new Error(tokenError);
+
+  let jwt = await jwtCache.get();
+  const refresh = async (rejectedJwt?: string) => {
+    jwt = await jwtCache.refresh(rejectedJwt);
+    return jwt;
+  };
+
+  const matched: RawNote[] = [];
+  const filtered: Array<{ note: RawNote; reason: string }> = [];
+  for await (const page of fetchNotes(transport, jwt, refresh)) {
+    for (const bijiNote of page.notes) {
+      const note = bijiNoteToRawNote(bijiNote);
+      if (!note) continue;
+      const reason = filterNote(note, filter);
+      if (reason) filtered.push({ note, reason });
+      else matched.push(note);
+    }
+    // The most recent notes are enough for a preview
+    if (matched.length + filtered.length >= PREVIEW_LIMIT || page.isLastPage) break;
+  }
+  return { matched, filtered };
+}
@@ -0,0 +1,184 @@
+// INPUT: Node fs/path, vault.ts (SyncVault, VaultFile, FrontMatter, FileAdapter, normalizePath),
+//        markdown.ts (readFrontmatter, updateFrontmatter)
+// OUTPUT: FsVault, fsAdapter
+// POS: SyncVault of the command line — a plain folder of Markdown files on disk
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { readFrontmatter, updateFrontmatter } from "./markdown";
+import { normalizePath } from "./vault";
+import type { FileAdapter, FrontMatter, SyncVault, VaultFile } from "./vault";
+
+const TRASH_FOLDER = ".trash";
+
+function vaultFile(filePath: string): VaultFile {
+  const name = filePath.split("/").pop() ?? filePath;
+  const dot = name.lastIndexOf(".");
+  return {
+    path: filePath,
+    name,
+    basename: dot > 0 ? name.slice(0, dot) : name,
+    extension: dot > 0 ? name.slice(dot + 1) : "",
+  };
+}
+
+async function exists(fullPath: string): Promise<boolean> {
+  try {
+    await fs.stat(fullPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A folder on disk seen as a vault. load() scans it once (dot-folders such as
+ * .trash and the CLI state folder are skipped) and caches every file and the
+ * frontmatter of every Markdown file; writes keep the cache current, so the
+ * synchronous lookups of SyncVault need no disk access. Changes made to the
+ * folder by others during a run are not picked up.
+ */
+export class FsVault implements SyncVault {
+  private files = new Map<string, VaultFile>();
+  private folders = new Set<string>();
+  private frontmatters = new Map<string, FrontMatter | null>();
+
+  constructor(readonly root: string) {}
+
+  async load(): Promise<void> {
+    this.files.clear();
+    this.folders.clear();
+    this.frontmatters.clear();
+    await fs.mkdir(this.root, { recursive: true });
+    await this.scan("");
+  }
+
+  private async scan(folder: string): Promise<void> {
+    for (const entry of await fs.readdir(this.fullPath(folder), { withFileTypes: true })) {
+      if (entry.name.startsWith(".")) continue;
+      const entryPath = folder ? `${folder}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        this.folders.add(entryPath);
+        await this.scan(entryPath);
+      } else if (entry.isFile()) {
+        const file = vaultFile(entryPath);
+        this.files.set(entryPath, file);
+        if (file.extension === "md") this.cacheFrontmatter(file, await this.read(file));
+      }
+    }
+  }
+
+  private fullPath(vaultPath: string): string {
+    return path.join(this.root, ...vaultPath.split("/"));
+  }
+
+  private cacheFrontmatter(file: VaultFile, text: string): void {
+    this.frontmatters.set(file.path, readFrontmatter(text));
+  }
+
+  /** Register the parent folders of a path and create them on disk. */
+  private async ensureParent(vaultPath: string): Promise<void> {
+    const parts = vaultPath.split("/").slice(0, -1);
+    if (parts.length === 0) return;
+    await fs.mkdir(this.fullPath(parts.join("/")), { recursive: true });
+    for (let i = 1; i <= parts.length; i++) this.folders.add(parts.slice(0, i).join("/"));
+  }
+
+  getFile(filePath: string): VaultFile | null {
+    return this.files.get(normalizePath(filePath)) ?? null;
+  }
+
+  isFolder(folderPath: string): boolean {
+    return this.folders.has(normalizePath(folderPath));
+  }
+
+  markdownFiles(): VaultFile[] {
+    return [...this.files.values()].filter((file) => file.extension === "md");
+  }
+
+  frontmatter(file: VaultFile): FrontMatter | null {
+    return this.frontmatters.get(file.path) ?? null;
+  }
+
+  read(file: VaultFile): Promise<string> {
+    return fs.readFile(this.fullPath(file.path), "utf8");
+  }
+
+  async createFolder(folderPath: string): Promise<void> {
+    const normalized = normalizePath(folderPath);
+    await this.ensureParent(`${normalized}/_`);
+  }
+
+  async create(filePath: string, data: string): Promise<VaultFile> {
+    const file = await this.createFile(filePath, data);
+    this.cacheFrontmatter(file, data);
+    return file;
+  }
+
+  async modify(file: VaultFile, data: string): Promise<void> {
+    await fs.writeFile(this.fullPath(file.path), data, "utf8");
+    if (file.extension === "md") this.cacheFrontmatter(file, data);
+  }
+
+  async createBinary(filePath: string, data: ArrayBuffer): Promise<void> {
+    await this.createFile(filePath, new Uint8Array(data));
+  }
+
+  private async createFile(filePath: string, data: string | Uint8Array): Promise<VaultFile> {
+    const normalized = normalizePath(filePath);
+    if (this.files.has(normalized) || (await exists(this.fullPath(normalized)))) {
+      throw new Error(`File already exists: ${normalized}`);
+    }
+    await this.ensureParent(normalized);
+    await fs.writeFile(this.fullPath(normalized), data);
+    const file = vaultFile(normalized);
+    this.files.set(normalized, file);
+    return file;
+  }
+
+  /** Moves the file on disk and updates `file` in place, as Obsidian does with a TFile. */
+  async rename(file: VaultFile, newPath: string): Promise<void> {
+    const normalized = normalizePath(newPath);
+    if (this.files.has(normalized) || (await exists(this.fullPath(normalized)))) {
+      throw new Error(`Destination file already exists: ${normalized}`);
+    }
+    await this.ensureParent(normalized);
+    await fs.rename(this.fullPath(file.path), this.fullPath(normalized));
+    const frontmatter = this.frontmatters.get(file.path);
+    this.files.delete(file.path);
+    this.frontmatters.delete(file.path);
+    Object.assign(file, vaultFile(normalized));
+    this.files.set(normalized, file);
+    if (frontmatter !== undefined) this.frontmatters.set(normalized, frontmatter);
+  }
+
+  /** Moves the file to `.trash` in the folder; a name taken there gets a number. */
+  async trash(file: VaultFile): Promise<void> {
+    await fs.mkdir(this.fullPath(TRASH_FOLDER), { recursive: true });
+    let target = `${TRASH_FOLDER}/${file.name}`;
+    for (let n = 1; await exists(this.fullPath(target)); n++) {
+      const suffix = file.extension ? `.${file.extension}` : "";
+      target = `${TRASH_FOLDER}/${file.basename} ${n}${suffix}`;
+    }
+    await fs.rename(this.fullPath(file.path), this.fullPath(target));
+    this.files.delete(file.path);
+    this.frontmatters.delete(file.path);
+  }
+
+  async processFrontMatter(file: VaultFile, fn: (frontmatter: FrontMatter) => void): Promise<void> {
+    await this.modify(file, updateFrontmatter(await this.read(file), fn));
+  }
+}
+
+/** FileAdapter on a folder on disk, for the JSON state files of the command line. */
+export function fsAdapter(dir: string): FileAdapter {
+  const fullPath = (file: string) => path.join(dir, ...file.split("/"));
+  return {
+    exists: (file) => exists(fullPath(file)),
+    read: (file) => fs.readFile(fullPath(file), "utf8"),
+    write: async (file, data) => {
+      await fs.mkdir(path.dirname(fullPath(file)), { recursive: true });
+      await fs.writeFile(fullPath(file), data, "utf8");
+    },
+  };
+}
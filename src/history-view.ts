@@ -0,0 +1,130 @@
+// INPUT: obsidian (ItemView, WorkspaceLeaf), main.ts (BijiSyncPlugin), history.ts
+// OUTPUT: VIEW_TYPE_SYNC_HISTORY, SyncHistoryView
+// POS: Sidebar view — lists recorded sync runs with their errors, changed files and a retry action
+
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import type BijiSyncPlugin from "./main";
+import { SyncRunRecord, describeSyncRun, failedNoteIds } from "./history";
+
+export const VIEW_TYPE_SYNC_HISTORY = "getbiji-sync-history";
+
+const TRIGGER_LABELS: Record<SyncRunRecord["trigger"], string> = {
+  manual: "Manual",
+  auto: "Auto",
+  retry: "Retry",
+};
+
+const STATUS_LABELS: Record<SyncRunRecord["status"], string> = {
+  running: "Running",
+  complete: "Complete",
+  cancelled: "Cancelled",
+  failed: "Failed",
+};
+
+/** Recorded sync runs, newest first. Re-rendered by the plugin after every run. */
+export class SyncHistoryView extends ItemView {
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: BijiSyncPlugin,
+  ) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_SYNC_HISTORY;
+  }
+
+  getDisplayText(): string {
+    return "Get笔记 sync history";
+  }
+
+  getIcon(): string {
+    return "history";
+  }
+
+  async onOpen(): Promise<void> {
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("getbiji-history");
+
+    const header = contentEl.createDiv({ cls: "getbiji-history-header" });
+    header.createEl("h4", { text: "Get笔记 sync history" });
+    const history = this.plugin.settings.syncHistory;
+    if (history.length > 0) {
+      header.createEl("button", { text: "Clear" }).addEventListener("click", () => {
+        void this.plugin.clearSyncHistory();
+      });
+    }
+
+    if (history.length === 0) {
+      contentEl.createEl("p", { text: "No sync has been recorded yet." });
+      return;
+    }
+
+    for (const run of history) this.renderRun(contentEl, run);
+  }
+
+  private renderRun(parent: HTMLElement, run: SyncRunRecord): void {
+    const section = parent.createDiv({ cls: `getbiji-history-run getbiji-history-${run.status}` });
+
+    const started = new Date(run.startedAt).toLocaleString();
+    const duration =
+      run.endedAt !== null ? ` · ${Math.max(1, Math.round((run.endedAt - run.startedAt) / 1000))}s` : "";
+    const kind = run.fullScan ? `${TRIGGER_LABELS[run.trigger]} full scan` : TRIGGER_LABELS[run.trigger];
+    // Accounts are only named once there is more than one
+    const { profiles } = this.plugin.settings;
+    const profile = profiles.find((p) => p.id === run.account);
+    const account = profiles.length > 1 && run.account ? `${profile?.name ?? run.account} · ` : "";
+    section.createDiv({
+      cls: "getbiji-history-title",
+      text: `${started} · ${account}${kind} · ${STATUS_LABELS[run.status]}${duration}`,
+    });
+    section.createDiv({ text: describeSyncRun(run) });
+    if (run.message) {
+      section.createDiv({ cls: "getbiji-history-message", text: run.message });
+    }
+
+    if (run.errors.length > 0) {
+      const errors = section.createEl("details", { cls: "getbiji-history-errors" });
+      errors.createEl("summary", { text: `Errors (${run.errors.length})` });
+      const list = errors.createEl("ul");
+      for (const { noteId, title, message } of run.errors) {
+        list.createEl("li", { text: `${title || noteId}: ${message}` });
+      }
+      // Only possible while the account still exists (older records retry with the first one)
+      const retryProfile = run.account ? profile : profiles[0];
+      if (retryProfile) {
+        const retry = section.createEl("button", { text: "Retry failed" });
+        retry.addEventListener("click", () => {
+          void this.plugin.triggerSync({ profileId: retryProfile.id, noteIds: failedNoteIds(run) });
+        });
+      }
+    }
+
+    if (run.files.length > 0) {
+      const files = section.createEl("details");
+      files.createEl("summary", { text: `Files (${run.files.length})` });
+      const list = files.createEl("ul");
+      for (const { action, path, reason } of run.files) {
+        const item = list.createEl("li", { text: `${action}: ` });
+        // Trashed, moved or since-deleted files cannot be opened
+        if (action !== "trash" && this.app.vault.getAbstractFileByPath(path)) {
+          item.createEl("a", { text: path }).addEventListener("click", () => {
+            void this.app.workspace.openLinkText(path, "");
+          });
+        } else {
+          item.appendText(path);
+        }
+        if (reason) item.appendText(` (${reason})`);
+      }
+    }
+  }
+}
@@ -0,0 +1,115 @@
+// INPUT: writer.ts (PlannedAction, PlannedActionType)
+// OUTPUT: SyncTrigger, SyncRunStatus, SyncNoteError, SyncFileChange, SyncRunRecord, MAX_SYNC_HISTORY,
+//         startSyncRun, finishSyncRun, addSyncRun, failedNoteIds, describeSyncRun
+// POS: Sync history — per-run records kept in plugin data for the history view
+
+import type { PlannedAction, PlannedActionType } from "./writer";
+
+export type SyncTrigger = "manual" | "auto" | "retry";
+
+export type SyncRunStatus = "running" | "complete" | "cancelled" | "failed";
+
+/** A note that could not be synced, with the error it failed on. */
+export interface SyncNoteError {
+  noteId: string;
+  title: string;
+  message: string;
+}
+
+/** A vault file written, moved or trashed by a run, or an attachment it could not download. */
+export interface SyncFileChange {
+  action: PlannedActionType;
+  path: string;
+  noteId: string;
+  reason?: string; // Why an attachment was skipped; only set for "attachment-skipped"
+}
+
+/** One sync run as shown in the history view. Times are epoch milliseconds. */
+export interface SyncRunRecord {
+  startedAt: number;
+  endedAt: number | null;
+  trigger: SyncTrigger;
+  account: string; // Id of the synced account profile ("" in records from before profiles)
+  fullScan: boolean;
+  status: SyncRunStatus;
+  message: string; // Why the run failed ("" otherwise)
+  created: number;
+  updated: number;
+  skipped: number;
+  filtered: number;
+  conflicts: number;
+  deleted: number;
+  errors: SyncNoteError[];
+  files: SyncFileChange[];
+}
+
+/** Runs kept in plugin data; older ones are dropped. */
+export const MAX_SYNC_HISTORY = 50;
+
+// File changes kept per run, so a first sync of thousands of notes stays small in data.json
+const MAX_RUN_FILES = 200;
+
+/** A new run record; syncBiji fills in the rest as it goes. */
+export function startSyncRun(trigger: SyncTrigger, account: string): SyncRunRecord {
+  return {
+    startedAt: Date.now(),
+    endedAt: null,
+    trigger,
+    account,
+    fullScan: false,
+    status: "running",
+    message: "",
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    filtered: 0,
+    conflicts: 0,
+    deleted: 0,
+    errors: [],
+    files: [],
+  };
+}
+
+/**
+ * Close a run: stamp the end time and keep the file changes from the writer.
+ * A run still marked "running" ended without reporting, so it gets `fallback`.
+ */
+export function finishSyncRun(
+  run: SyncRunRecord,
+  actions: PlannedAction[],
+  fallback: SyncRunStatus,
+): SyncRunRecord {
+  run.endedAt = Date.now();
+  if (run.status === "running") run.status = fallback;
+  run.files = actions
+    .filter((a) => a.action !== "skip" && a.path)
+    .slice(0, MAX_RUN_FILES)
+    .map(({ action, path, noteId, reason }) =>
+      action === "attachment-skipped" ? { action, path, noteId, reason } : { action, path, noteId },
+    );
+  return run;
+}
+
+/** History with `run` prepended, newest first and capped at MAX_SYNC_HISTORY. */
+export function addSyncRun(history: SyncRunRecord[], run: SyncRunRecord): SyncRunRecord[] {
+  return [run, ...history].slice(0, MAX_SYNC_HISTORY);
+}
+
+/** Ids of the notes that failed in a run, without duplicates. */
+export function failedNoteIds(run: SyncRunRecord): string[] {
+  return Array.from(new Set(run.errors.map((e) => e.noteId)));
+}
+
+/** "3 new, 1 updated, 0 skipped, ..." for a run. */
+export function describeSyncRun(run: SyncRunRecord): string {
+  const parts = [
+    `${run.created} new`,
+    `${run.updated} updated`,
+    `${run.skipped} skipped`,
+    `${run.filtered} filtered`,
+    `${run.conflicts} conflicts`,
+    `${run.errors.length} errors`,
+  ];
+  if (run.deleted > 0) parts.push(`${run.deleted} deleted in Get笔记`);
+  return parts.join(", ");
+}
@@ -0,0 +1,35 @@
+// INPUT: settings-schema.ts (BijiSyncSettings), vault.ts (SyncVault), note-index.ts (BijiNoteIndex),
+//        state.ts (NoteStateStore), secrets.ts (SecretStore), jwt-cache.ts (JwtCache), transport.ts (HttpTransport),
+//        profiles.ts (AccountProfile)
+// OUTPUT: SyncHost
+// POS: What the sync engine needs from whoever runs it — the plugin (main.ts) or the command line (cli.ts)
+
+import type { BijiSyncSettings } from "./settings-schema";
+import type { SyncVault } from "./vault";
+import type { BijiNoteIndex } from "./note-index";
+import type { NoteStateStore } from "./state";
+import type { SecretStore } from "./secrets";
+import type { JwtCache } from "./jwt-cache";
+import type { HttpTransport } from "./transport";
+import type { AccountProfile } from "./profiles";
+
+/**
+ * The sync engine (syncBiji and the passes it runs) reaches files, state,
+ * tokens, the network and the user only through this, never through
+ * Obsidian directly. BijiSyncPlugin implements it for the app; the command
+ * line implements it on a plain folder and prints instead of showing Notices.
+ */
+export interface SyncHost {
+  settings: BijiSyncSettings;
+  vault: SyncVault;
+  noteIndex: BijiNoteIndex;
+  noteState: NoteStateStore;
+  secrets: SecretStore;
+  transport: HttpTransport;
+  /** Access JWT cache of an account, persisting refreshed tokens. */
+  tokenCache(profile: AccountProfile): JwtCache;
+  /** Persist settings (cursors, retry queues) and secrets. */
+  saveSettings(): Promise<void>;
+  /** Tell the user something: a Notice in Obsidian, a line on the command line. */
+  notify(message: string): void;
+}
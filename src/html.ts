@@ -0,0 +1,381 @@
+// INPUT: none
+// OUTPUT: htmlToMarkdown, decodeEntities
+// POS: Regex-based HTML → Markdown converter for note content and link originals
+
+// Elements whose contents are dropped entirely, not just their tags
+const SKIPPED_ELEMENTS = ["script", "style", "noscript", "template"];
+
+// Elements that never have children or a closing tag
+const VOID_ELEMENTS = [
+  "br", "hr", "img", "input", "meta", "link", "wbr", "col", "source",
+  "area", "base", "embed", "param", "track",
+];
+
+// Block elements that implicitly close an open <p>
+const BLOCK_ELEMENTS = [
+  "p", "div", "ul", "ol", "li", "blockquote", "pre", "table", "hr",
+  "h1", "h2", "h3", "h4", "h5", "h6", "section", "article", "header",
+  "footer", "main", "aside", "figure", "dl", "dt", "dd", "details",
+];
+
+// Rendered as a line of their own, without paragraph spacing
+const LINE_ELEMENTS = [
+  "div", "section", "article", "header", "footer", "main", "aside",
+  "figure", "figcaption", "dl", "dt", "dd", "details", "summary",
+  "center", "address", "nav",
+];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  ensp: " ", emsp: " ", thinsp: " ", copy: "©", reg: "®", trade: "™",
+  hellip: "…", mdash: "—", ndash: "–", lsquo: "‘", rsquo: "’",
+  ldquo: "“", rdquo: "”", laquo: "«", raquo: "»", middot: "·",
+  bull: "•", times: "×", divide: "÷", deg: "°", plusmn: "±",
+  yen: "¥", euro: "€", pound: "£", cent: "¢", sect: "§", para: "¶",
+  larr: "←", rarr: "→", uarr: "↑", darr: "↓", hearts: "♥",
+  zwj: "‍", zwnj: "‌", shy: "",
+};
+
+const UNSAFE_URL = /^\s*(javascript|data|vbscript):/i;
+
+// Comment/doctype | closing tag | opening tag (quoted attribute values may contain "<" or ">")
+const TOKEN =
+  /<!--[\s\S]*?-->|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*\/?>/g;
+
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+/**
+ * Decode named (&amp;, &hellip;, ...) and numeric (&#39;, &#x4E2D;) entities.
+ * Unknown or invalid entities are left as-is.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity: string, code: string) => {
+    if (code[0] !== "#") {
+      return NAMED_ENTITIES[code] ?? NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    }
+    const point =
+      code[1] === "x" || code[1] === "X"
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+    if (!point || point > 0x10ffff || (point >= 0xd800 && point <= 0xdfff)) {
+      return entity;
+    }
+    return String.fromCodePoint(point);
+  });
+}
+
+/**
+ * Convert an HTML fragment to Markdown.
+ *
+ * Input without any tags is treated as plain text: only entities are decoded,
+ * so line breaks and indentation in plain-text notes survive untouched.
+ */
+export function htmlToMarkdown(html: string): string {
+  if (!/<(\/?[a-zA-Z]|!--)/.test(html)) {
+    return decodeEntities(html).replace(/\n{3,}/g, "\n\n");
+  }
+
+  return squeezeBlankLines(renderChildren(parse(html).children), 1).replace(/^\n+|\n+$/g, "");
+}
+
+/**
+ * Keep at most `keep` blank lines in a row (whitespace-only lines count as
+ * blank and become empty). Fenced code blocks, also those indented in list
+ * items, are copied line for line.
+ */
+function squeezeBlankLines(text: string, keep: number): string {
+  const lines: string[] = [];
+  let fence: string | null = null; // Opening fence of the code block being copied
+  let blanks = 0;
+  for (const line of text.split("\n")) {
+    if (fence !== null) {
+      lines.push(line);
+      const close = line.trim();
+      if (/^`+$/.test(close) && close.length >= fence.length) fence = null;
+    } else if (!line.trim()) {
+      if (++blanks <= keep) lines.push("");
+    } else {
+      lines.push(line);
+      blanks = 0;
+      fence = line.match(/^\s*(`{3,})/)?.[1] ?? null;
+    }
+  }
+  return lines.join("\n");
+}
+
+// ── Parsing ──
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  ATTRIBUTE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE.exec(source)) !== null) {
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    attrs[match[1].toLowerCase()] = decodeEntities(value);
+  }
+  return attrs;
+}
+
+/** Build an element tree, tolerating unclosed and stray tags like a browser would. */
+function parse(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const top = () => stack[stack.length - 1];
+
+  // Pop up to and including the nearest open `tag`, unless a `boundary` element comes first
+  const closeOpen = (tag: string, boundaries: string[] = []) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (boundaries.includes(stack[i].tag)) return;
+      if (stack[i].tag === tag) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  const source = html.replace(/\r\n?/g, "\n");
+  const token = new RegExp(TOKEN.source, "g");
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = token.exec(source)) !== null) {
+    if (match.index > last) top().children.push(source.slice(last, match.index));
+    last = token.lastIndex;
+
+    const [, closeTag, openTag, attrSource] = match;
+    if (closeTag) {
+      closeOpen(closeTag.toLowerCase());
+      continue;
+    }
+    if (!openTag) continue; // Comment or doctype
+
+    const tag = openTag.toLowerCase();
+    if (SKIPPED_ELEMENTS.includes(tag)) {
+      // Skip everything up to the matching close tag (or the end of input)
+      const close = new RegExp(`</${tag}\\s*>`, "ig");
+      close.lastIndex = last;
+      const end = close.exec(source);
+      last = end ? close.lastIndex : source.length;
+      token.lastIndex = last;
+      continue;
+    }
+
+    if (tag === "li") closeOpen("li", ["ul", "ol"]);
+    if (tag === "td" || tag === "th") {
+      closeOpen("td", ["tr", "table"]);
+      closeOpen("th", ["tr", "table"]);
+    }
+    if (tag === "tr") closeOpen("tr", ["table"]);
+    if (BLOCK_ELEMENTS.includes(tag) && top().tag === "p") stack.pop();
+
+    const element: HtmlElement = { tag, attrs: parseAttributes(attrSource ?? ""), children: [] };
+    top().children.push(element);
+    if (!VOID_ELEMENTS.includes(tag)) stack.push(element);
+  }
+  if (last < source.length) top().children.push(source.slice(last));
+
+  return root;
+}
+
+// ── Rendering ──
+
+/** Surround block content with blank lines; empty blocks vanish. */
+function block(content: string): string {
+  return content.trim() ? `\n\n${content}\n\n` : "";
+}
+
+/** Wrap inline content in a delimiter, keeping surrounding whitespace outside it. */
+function wrap(delimiter: string, content: string): string {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!match[2]) return content;
+  return `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`;
+}
+
+/** Single-line text for headings, table cells and link labels. */
+function oneLine(content: string): string {
+  return content.replace(/\s*\n\s*/g, " ").trim();
+}
+
+function safeUrl(url: string): string {
+  return url.trim().replace(/ /g, "%20").replace(/\(/g, "%28").replace(/\)/g, "%29");
+}
+
+/** Raw text of an element, whitespace preserved (for <pre> and <code>). */
+function textContent(node: HtmlNode): string {
+  if (typeof node === "string") return decodeEntities(node);
+  if (node.tag === "br") return "\n";
+  return node.children.map(textContent).join("");
+}
+
+function renderText(text: string): string {
+  // HTML source indentation is not content; line breaks are kept for mixed text/HTML notes
+  return decodeEntities(text.replace(/[ \t\f]+/g, " ").replace(/ ?\n ?/g, "\n"));
+}
+
+function renderChildren(nodes: HtmlNode[]): string {
+  return nodes
+    .map((node) => (typeof node === "string" ? renderText(node) : renderElement(node)))
+    .join("");
+}
+
+function renderElement(el: HtmlElement): string {
+  const tag = el.tag;
+
+  switch (tag) {
+    case "br":
+      return "\n";
+    case "hr":
+      return block("---");
+    case "p":
+      return block(renderChildren(el.children).trim());
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = oneLine(renderChildren(el.children));
+      return text ? block(`${"#".repeat(Number(tag[1]))} ${text}`) : "";
+    }
+    case "strong":
+    case "b":
+      return wrap("**", renderChildren(el.children));
+    case "em":
+    case "i":
+      return wrap("*", renderChildren(el.children));
+    case "del":
+    case "s":
+    case "strike":
+      return wrap("~~", renderChildren(el.children));
+    case "mark":
+      return wrap("==", renderChildren(el.children));
+    case "code":
+      return renderInlineCode(textContent(el));
+    case "pre":
+      return renderCodeBlock(el);
+    case "a":
+      return renderLink(el);
+    case "img":
+      return renderImage(el);
+    case "input":
+      return el.attrs.type === "checkbox" ? ("checked" in el.attrs ? "[x] " : "[ ] ") : "";
+    case "ul":
+    case "ol":
+      return block(renderList(el));
+    case "blockquote": {
+      const content = renderChildren(el.children)
+        .replace(/^[ \t]+$/gm, "")
+        .replace(/\n{3,}/g, "\n\n")
+        .replace(/^\n+|\n+$/g, "");
+      return block(content.split("\n").map((line) => (line ? `> ${line}` : ">")).join("\n"));
+    }
+    case "table":
+      return block(renderTable(el));
+    default:
+      if (LINE_ELEMENTS.includes(tag)) {
+        return `\n${renderChildren(el.children)}\n`;
+      }
+      return renderChildren(el.children);
+  }
+}
+
+function renderInlineCode(text: string): string {
+  const code = text.replace(/\n/g, " ");
+  if (!code) return "";
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const ticks = "`".repeat(longest + 1);
+  const pad = code.startsWith("`") || code.endsWith("`") ? " " : "";
+  return `${ticks}${pad}${code}${pad}${ticks}`;
+}
+
+function renderCodeBlock(el: HtmlElement): string {
+  const code = textContent(el).replace(/^\n/, "").replace(/\n+$/, "");
+  const inner = el.children.find(
+    (child): child is HtmlElement => typeof child !== "string" && child.tag === "code",
+  );
+  const className = `${el.attrs.class ?? ""} ${inner?.attrs.class ?? ""}`;
+  const language = className.match(/(?:language|lang)-([\w+#-]+)/)?.[1] ?? "";
+  const longest = Math.max(2, ...(code.match(/`{3,}/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longest + 1);
+  return `\n\n${fence}${language}\n${code}\n${fence}\n\n`;
+}
+
+function renderLink(el: HtmlElement): string {
+  const text = oneLine(renderChildren(el.children));
+  const href = el.attrs.href;
+  if (!href || UNSAFE_URL.test(href)) return text;
+  return `[${text || href}](${safeUrl(href)})`;
+}
+
+function renderImage(el: HtmlElement): string {
+  const alt = oneLine(el.attrs.alt ?? "");
+  const src = el.attrs.src;
+  if (!src || UNSAFE_URL.test(src)) return alt;
+  return `![${alt}](${safeUrl(src)})`;
+}
+
+/** Render a list; nested lists are indented under their parent item. */
+function renderList(el: HtmlElement): string {
+  const ordered = el.tag === "ol";
+  const start = parseInt(el.attrs.start ?? "1", 10);
+  const items: string[] = [];
+
+  for (const child of el.children) {
+    if (typeof child === "string") {
+      // Whitespace between items is formatting; stray text joins the previous item
+      if (!child.trim()) continue;
+      if (items.length === 0) items.push("");
+      items[items.length - 1] += renderText(child);
+    } else if (child.tag === "li" || items.length === 0) {
+      items.push(child.tag === "li" ? renderChildren(child.children) : renderElement(child));
+    } else {
+      // <ul><li>a</li><ul>...</ul></ul>: a list placed directly in a list belongs to the item above
+      items[items.length - 1] += `\n${renderElement(child)}`;
+    }
+  }
+
+  return items
+    .map((content, index) => {
+      const marker = ordered ? `${(isNaN(start) ? 1 : start) + index}. ` : "- ";
+      const indent = " ".repeat(marker.length);
+      const lines = squeezeBlankLines(content.trim(), 0).split("\n");
+      return lines.map((line, i) => (i === 0 ? marker + line : line ? indent + line : "")).join("\n");
+    })
+    .join("\n");
+}
+
+/** Render a table as a GFM pipe table; the first row becomes the header. */
+function renderTable(el: HtmlElement): string {
+  const rows: string[][] = [];
+  const collectRows = (node: HtmlElement) => {
+    for (const child of node.children) {
+      if (typeof child === "string") continue;
+      if (child.tag === "tr") {
+        const cells = child.children.filter(
+          (cell): cell is HtmlElement =>
+            typeof cell !== "string" && (cell.tag === "td" || cell.tag === "th"),
+        );
+        rows.push(cells.map((cell) => oneLine(renderChildren(cell.children)).replace(/\|/g, "\\|")));
+      } else if (child.tag !== "table") {
+        collectRows(child); // thead/tbody/tfoot
+      }
+    }
+  };
+  collectRows(el);
+  if (rows.length === 0) return "";
+
+  const columns = Math.max(1, ...rows.map((row) => row.length));
+  const line = (cells: string[]) => {
+    const padded = cells.concat(new Array(columns - cells.length).fill(""));
+    return `| ${padded.join(" | ")} |`;
+  };
+  return [line(rows[0]), line(new Array(columns).fill("---")), ...rows.slice(1).map(line)].join("\n");
+}
@@ -0,0 +1,100 @@
+// INPUT: auth.ts (decodeJwt, refreshJwt), profiles.ts (AccountProfile), secrets.ts (ProfileSecrets),
+//        transport.ts (HttpTransport)
+// OUTPUT: JwtCache, TokenSettings, JWT_REFRESH_MARGIN
+// POS: Access token cache — reuses the JWT until shortly before it expires, one refresh at a time,
+//      and hands rotated refresh tokens back to the account's secrets
+
+import { decodeJwt, refreshJwt } from "./auth";
+import type { AccountProfile } from "./profiles";
+import type { ProfileSecrets } from "./secrets";
+import type { HttpTransport } from "./transport";
+
+/** The secrets and profile fields the cache writes back after a refresh. */
+export type TokenSettings = ProfileSecrets & Pick<AccountProfile, "refreshTokenExpiresAt">;
+
+/** Seconds before `exp` from which a cached JWT is refreshed instead of reused. */
+export const JWT_REFRESH_MARGIN = 5 * 60;
+
+/**
+ * The access JWT for the refresh token of one account profile.
+ *
+ * Kept in memory and handed to `persist` so it also survives restarts. A JWT
+ * obtained with a different refresh token is never reused. Concurrent
+ * refreshes share one request. A refresh token rotated by the server, and its
+ * expiry when reported, go to `persist` along with the new JWT.
+ */
+export class JwtCache {
+  private jwt: string;
+  private source: string; // Refresh token the cached JWT was obtained with
+  private inFlight: Promise<string> | null = null;
+
+  constructor(
+    private transport: HttpTransport,
+    private refreshToken: () => string,
+    initial: string,
+    private persist: (update: Partial<TokenSettings>) => void,
+  ) {
+    this.jwt = initial;
+    this.source = initial ? refreshToken() : "";
+  }
+
+  /** True when the cached JWT belongs to the current refresh token and is valid beyond the margin. */
+  isFresh(now = Date.now()): boolean {
+    if (!this.jwt || this.source !== this.refreshToken()) return false;
+    const payload = decodeJwt(this.jwt);
+    return payload !== null && payload.exp * 1000 - now > JWT_REFRESH_MARGIN * 1000;
+  }
+
+  /** The cached JWT while it is fresh, a newly refreshed one otherwise. Throws like refreshJwt. */
+  async get(): Promise<string> {
+    return this.isFresh() ? this.jwt : this.refresh();
+  }
+
+  /**
+   * Obtain a new JWT; callers arriving while a refresh is in flight share it.
+   * `rejected` is the JWT a request just failed with: when the cache has
+   * already moved past it, the newer JWT is returned without another refresh.
+   */
+  refresh(rejected?: string): Promise<string> {
+    if (this.inFlight) return this.inFlight;
+
+    const refreshToken = this.refreshToken();
+    if (rejected !== undefined && this.jwt && this.jwt !== rejected && this.source === refreshToken) {
+      return Promise.resolve(this.jwt);
+    }
+
+    this.inFlight = refreshJwt(this.transport, refreshToken)
+      .then(({ jwt, refreshToken: rotated, refreshTokenExpiresAt }) => {
+        const update: Partial<TokenSettings> = { accessToken: jwt };
+        if (rotated) {
+          // The expiry of the old token no longer applies, even when none was reported
+          update.refreshToken = rotated;
+          update.refreshTokenExpiresAt = refreshTokenExpiresAt;
+        } else if (refreshTokenExpiresAt !== null) {
+          update.refreshTokenExpiresAt = refreshTokenExpiresAt;
+        }
+        this.jwt = jwt;
+        this.source = rotated ?? refreshToken;
+        this.persist(update);
+        return jwt;
+      })
+      .finally(() => {
+        this.inFlight = null;
+      });
+    return this.inFlight;
+  }
+
+  /** Cache a JWT obtained outside the cache (e.g. by logging in) for the current refresh token. */
+  set(jwt: string): void {
+    this.jwt = jwt;
+    this.source = this.refreshToken();
+    this.persist({ accessToken: jwt });
+  }
+
+  /** Forget the cached JWT, e.g. after the refresh token was replaced. */
+  clear(): void {
+    this.jwt = "";
+    this.source = "";
+    this.persist({ accessToken: "" });
+  }
+}
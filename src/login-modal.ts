@@ -0,0 +1,138 @@
+// INPUT: obsidian (App, Modal, Setting), auth.ts (sendLoginCode, loginWithCode, validatePhone, LoginResult),
+//        transport.ts (HttpTransport)
+// OUTPUT: LoginModal
+// POS: Login dialog — phone + verification code login that replaces copying refresh_token from DevTools
+
+import { App, ButtonComponent, Modal, Setting } from "obsidian";
+import { loginWithCode, sendLoginCode, validatePhone } from "./auth";
+import type { LoginResult } from "./auth";
+import type { HttpTransport } from "./transport";
+
+// Seconds before another code can be requested
+const RESEND_COOLDOWN = 60;
+
+/** Phone + SMS code login; hands the new session to `onLogin` and closes. */
+export class LoginModal extends Modal {
+  private phone = "";
+  private code = "";
+  private statusEl: HTMLElement | null = null;
+  private cooldownId: number | null = null;
+
+  constructor(
+    app: App,
+    private transport: HttpTransport,
+    private onLogin: (result: LoginResult) => Promise<void>,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "Log in to Get笔记" });
+    contentEl.createEl("p", {
+      text: "A verification code will be texted to the phone number of your Get笔记 account.",
+    });
+    contentEl.createEl("p", {
+      text:
+        "Experimental: this login has not been confirmed against Get笔记 yet. " +
+        "If it fails, paste the refresh token from biji.com in the settings instead.",
+      cls: "getbiji-login-experimental",
+    });
+
+    new Setting(contentEl)
+      .setName("Phone number")
+      .addText((text) =>
+        text.setPlaceholder("13800000000").onChange((value) => {
+          this.phone = value;
+        })
+      )
+      .addButton((button) =>
+        button.setButtonText("Send code").onClick(() => void this.sendCode(button))
+      );
+
+    new Setting(contentEl)
+      .setName("Verification code")
+      .addText((text) =>
+        text.setPlaceholder("123456").onChange((value) => {
+          this.code = value;
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Log in")
+          .setCta()
+          .onClick(() => void this.logIn(button))
+      );
+
+    this.statusEl = contentEl.createEl("p", { cls: "getbiji-login-status" });
+  }
+
+  onClose(): void {
+    this.stopCooldown();
+    this.contentEl.empty();
+  }
+
+  private async sendCode(button: ButtonComponent): Promise<void> {
+    const phoneError = validatePhone(this.phone);
+    if (phoneError) {
+      this.setStatus(phoneError, true);
+      return;
+    }
+
+    button.setDisabled(true);
+    try {
+      await sendLoginCode(this.transport, this.phone);
+      this.setStatus("Code sent. Enter it below.", false);
+      this.startCooldown(button);
+    } catch (err) {
+      button.setDisabled(false);
+      this.setStatus(`Could not send the code: ${err instanceof Error ? err.message : String(err)}`, true);
+    }
+  }
+
+  private async logIn(button: ButtonComponent): Promise<void> {
+    const phoneError = validatePhone(this.phone);
+    if (phoneError || !this.code.trim()) {
+      this.setStatus(phoneError ?? "Enter the verification code", true);
+      return;
+    }
+
+    button.setDisabled(true);
+    try {
+      const result = await loginWithCode(this.transport, this.phone, this.code);
+      await this.onLogin(result);
+      this.close();
+    } catch (err) {
+      button.setDisabled(false);
+      this.setStatus(`Login failed: ${err instanceof Error ? err.message : String(err)}`, true);
+    }
+  }
+
+  private startCooldown(button: ButtonComponent): void {
+    let remaining = RESEND_COOLDOWN;
+    button.setButtonText(`Resend (${remaining}s)`);
+    this.cooldownId = window.setInterval(() => {
+      remaining--;
+      if (remaining > 0) {
+        button.setButtonText(`Resend (${remaining}s)`);
+        return;
+      }
+      this.stopCooldown();
+      button.setButtonText("Resend code").setDisabled(false);
+    }, 1000);
+  }
+
+  private stopCooldown(): void {
+    if (this.cooldownId !== null) {
+      window.clearInterval(this.cooldownId);
+      this.cooldownId = null;
+    }
+  }
+
+  private setStatus(message: string, isError: boolean): void {
+    if (!this.statusEl) return;
+    this.statusEl.setText(message);
+    this.statusEl.toggleClass("getbiji-login-error", isError);
+  }
+}
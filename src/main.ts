@@ -1,34 +1,99 @@
-// INPUT: obsidian (Plugin, Notice), settings.ts, auth.ts, sync.ts
-// OUTPUT: BijiSyncPlugin (main plugin class)
-// POS: Entry point — plugin lifecycle, settings integration, sync triggering, commands
-
-import { MetadataCache, Notice, Plugin } from "obsidian";
-import {
-  BijiSyncSettings,
-  BijiSyncSettingTab,
-  DEFAULT_SETTINGS,
-} from "./settings";
+// INPUT: obsidian (Plugin, Notice, WorkspaceLeaf), settings.ts, settings-schema.ts, auth.ts, sync.ts, note-index.ts,
+//        state.ts, writer.ts, preview-modal.ts, history.ts, history-view.ts, status-bar.ts, jwt-cache.ts,
+//        login-modal.ts, profiles.ts, secrets.ts, passphrase-modal.ts, obsidian-transport.ts, obsidian-vault.ts, host.ts
+// OUTPUT: BijiSyncPlugin (main plugin class, the SyncHost of the app)
+// POS: Entry point — plugin lifecycle, settings integration, sync triggering per account, sync history, status bar,
+//      login, token encryption, commands
+
+import { MetadataCache, Notice, Plugin, WorkspaceLeaf } from "obsidian";
+import { BijiSyncSettingTab } from "./settings";
+import { DEFAULT_SETTINGS } from "./settings-schema";
+import type { BijiSyncSettings } from "./settings-schema";
 import { checkTokenExpiration } from "./auth";
+import type { LoginResult } from "./auth";
 import { AuthFatalError } from "./api";
 import { syncBiji } from "./sync";
+import { BijiNoteIndex } from "./note-index";
+import { NoteStateStore } from "./state";
+import { VaultWriter } from "./writer";
+import type { PlannedAction } from "./writer";
+import { SyncPreviewModal } from "./preview-modal";
+import { SyncRunRecord, addSyncRun, finishSyncRun, startSyncRun } from "./history";
+import { SyncHistoryView, VIEW_TYPE_SYNC_HISTORY } from "./history-view";
+import { SyncStatusBar } from "./status-bar";
+import { JwtCache } from "./jwt-cache";
+import { LoginModal } from "./login-modal";
+import { PROFILE_KEYS, SECRET_KEYS, extractSecrets, latestSyncTime, migrateProfiles } from "./profiles";
+import type { AccountProfile } from "./profiles";
+import { SecretStore } from "./secrets";
+import type { ProfileSecrets } from "./secrets";
+import { PassphraseModal } from "./passphrase-modal";
+import { obsidianTransport } from "./obsidian-transport";
+import type { HttpTransport } from "./transport";
+import { ObsidianVault } from "./obsidian-vault";
+import type { SyncVault } from "./vault";
+import type { SyncHost } from "./host";
 
 const MAX_AUTH_FAILURES = 3;
 
-export default class BijiSyncPlugin extends Plugin {
+export default class BijiSyncPlugin extends Plugin implements SyncHost {
   settings: BijiSyncSettings = DEFAULT_SETTINGS;
+  vault!: SyncVault;
+  noteIndex!: BijiNoteIndex;
+  noteState!: NoteStateStore;
+  secrets!: SecretStore;
+  transport: HttpTransport = obsidianTransport; // Every request to Get笔记 goes through it
   private syncing = false;
   private syncAbortController: AbortController | null = null;
-  private autoSyncIntervalId: number | null = null;
-  private consecutiveAuthFailures = 0;
+  private jwtCaches = new Map<string, JwtCache>(); // By profile id
+  private autoSyncIntervals = new Map<string, number>(); // By profile id
+  private authFailures = new Map<string, number>(); // Consecutive auto-sync auth failures by profile id
+  private pendingAutoSyncs = new Set<string>(); // Profiles whose auto-sync fired during another sync
+  private legacySecrets: Record<string, ProfileSecrets> = {}; // data.json tokens of older versions, by profile id
+  private statusBar: SyncStatusBar | null = null;
 
   async onload() {
     await this.loadSettings();
     this.addSettingTab(new BijiSyncSettingTab(this.app, this));
 
-    // Startup token expiration check
-    const warning = checkTokenExpiration(this.settings.refreshToken);
-    if (warning) {
-      new Notice(warning);
+    // Vault-wide biji_id index, built lazily on first sync and kept current by events
+    this.vault = new ObsidianVault(this.app);
+    this.noteIndex = new BijiNoteIndex(this.vault);
+    this.noteIndex.registerEvents(this);
+
+    // Per-note hashes for conflict detection, kept out of data.json
+    this.noteState = new NoteStateStore(
+      this.app.vault.adapter,
+      `${this.manifest.dir}/sync-state.json`,
+    );
+
+    // Sidebar view listing recorded sync runs
+    this.registerView(
+      VIEW_TYPE_SYNC_HISTORY,
+      (leaf: WorkspaceLeaf) => new SyncHistoryView(leaf, this),
+    );
+
+    // Status bar: idle / progress / error; click cancels a sync or opens the history
+    this.statusBar = new SyncStatusBar(this.addStatusBarItem(), {
+      cancel: () => this.cancelSync(),
+      openDetails: () => void this.openSyncHistory(),
+    });
+    this.statusBar.setIdle(latestSyncTime(this.settings.profiles));
+
+    // Encrypted tokens are unlocked on first use; tell auto-sync users why nothing happens until then
+    if (this.secrets.isLocked && this.settings.profiles.some((p) => p.autoSyncEnabled)) {
+      new Notice("Get笔记 tokens are encrypted: run a sync or \"Unlock Get笔记 tokens\" to start auto sync");
+    }
+
+    // Startup token expiration check, per account
+    for (const profile of this.settings.profiles) {
+      const warning = checkTokenExpiration(
+        this.secrets.get(profile.id).refreshToken,
+        profile.refreshTokenExpiresAt,
+      );
+      if (warning) {
+        new Notice(this.settings.profiles.length > 1 ? `${profile.name}: ${warning}` : warning);
+      }
     }
 
     // Ribbon icon for sync
@@ -45,27 +110,80 @@ export default class BijiSyncPlugin extends Plugin {
       },
     });
 
+    // Command: full scan for notes edited or deleted in Get笔记 after import
+    this.addCommand({
+      id: "sync-biji-edited",
+      name: "Full scan Get笔记 (edits and deletions)",
+      callback: async () => {
+        await this.triggerSync({ fullScan: true });
+      },
+    });
+
+    // Command: dry run — show what a sync would do without writing anything
+    this.addCommand({
+      id: "preview-biji-sync",
+      name: "Preview Get笔记 sync",
+      callback: async () => {
+        await this.triggerSync({ preview: true });
+      },
+    });
+
+    // Command: add the original article to link notes imported before it was available
+    this.addCommand({
+      id: "backfill-biji-originals",
+      name: "Fill in missing Get笔记 link originals",
+      callback: async () => {
+        await this.triggerSync({ originalsOnly: true });
+      },
+    });
+
+    // Command: open the sync history view
+    this.addCommand({
+      id: "open-biji-sync-history",
+      name: "Open Get笔记 sync history",
+      callback: async () => {
+        await this.openSyncHistory();
+      },
+    });
+
+    // Command: log in with phone + verification code
+    this.addCommand({
+      id: "log-in-to-biji",
+      name: "Log in to Get笔记",
+      callback: async () => {
+        await this.openLogin();
+      },
+    });
+
+    // Command: enter the passphrase of encrypted tokens
+    this.addCommand({
+      id: "unlock-biji-tokens",
+      name: "Unlock Get笔记 tokens",
+      callback: async () => {
+        if (!this.secrets.isLocked) {
+          new Notice("Get笔记 tokens are not locked");
+          return;
+        }
+        await this.unlockSecrets();
+      },
+    });
+
     // Command: cancel sync
     this.addCommand({
       id: "cancel-biji-sync",
       name: "Cancel Get笔记 sync",
       callback: () => {
-        if (this.syncAbortController) {
-          this.syncAbortController.abort();
-          new Notice("Cancelling sync...");
-        } else {
-          new Notice("No sync in progress");
-        }
+        this.cancelSync();
       },
     });
 
     // Auto-sync initialization: wait for MetadataCache readiness
-    if (this.settings.autoSyncEnabled) {
+    if (this.settings.profiles.some((p) => p.autoSyncEnabled)) {
       if ((this.app.metadataCache as MetadataCache & { resolved?: boolean }).resolved) {
-        this.startAutoSync();
+        this.onAutoSyncSettingsChanged();
       } else {
         const resolvedRef = this.app.metadataCache.on('resolved', () => {
-          this.startAutoSync();
+          this.onAutoSyncSettingsChanged();
           this.app.metadataCache.offref(resolvedRef);
         });
         this.registerEvent(resolvedRef);
@@ -75,29 +193,34 @@ export default class BijiSyncPlugin extends Plugin {
     console.debug("Biji Sync plugin loaded");
   }
 
-  private startAutoSync() {
-    this.stopAutoSync();
-    this.consecutiveAuthFailures = 0;
-    const minutes = Math.max(this.settings.autoSyncInterval, 5);
+  // ── Auto-sync (one timer per account) ──
+
+  private startAutoSync(profile: AccountProfile) {
+    this.stopAutoSync(profile.id);
+    this.authFailures.delete(profile.id);
+    const minutes = Math.max(profile.autoSyncInterval, 5);
     const ms = minutes * 60 * 1000;
-    this.autoSyncIntervalId = window.setInterval(() => {
-      void this.triggerSync({ silent: true });
+    const intervalId = window.setInterval(() => {
+      void this.triggerSync({ silent: true, profileId: profile.id });
     }, ms);
-    this.registerInterval(this.autoSyncIntervalId);
+    this.autoSyncIntervals.set(profile.id, intervalId);
+    this.registerInterval(intervalId);
   }
 
-  private stopAutoSync() {
-    if (this.autoSyncIntervalId !== null) {
-      window.clearInterval(this.autoSyncIntervalId);
-      this.autoSyncIntervalId = null;
+  /** Stop the timer of one account, or of all accounts. */
+  private stopAutoSync(profileId?: string) {
+    for (const [id, intervalId] of this.autoSyncIntervals) {
+      if (profileId !== undefined && id !== profileId) continue;
+      window.clearInterval(intervalId);
+      this.autoSyncIntervals.delete(id);
     }
   }
 
+  /** Re-read the schedule of every account, e.g. after settings changed or an account was removed. */
   onAutoSyncSettingsChanged() {
-    if (this.settings.autoSyncEnabled) {
-      this.startAutoSync();
-    } else {
-      this.stopAutoSync();
+    this.stopAutoSync();
+    for (const profile of this.settings.profiles) {
+      if (profile.autoSyncEnabled) this.startAutoSync(profile);
     }
   }
 
@@ -107,61 +230,304 @@ export default class BijiSyncPlugin extends Plugin {
     console.debug("Biji Sync plugin unloaded");
   }
 
-  async triggerSync(options?: { silent?: boolean }) {
+  cancelSync() {
+    if (this.syncAbortController) {
+      this.syncAbortController.abort();
+      new Notice("Cancelling sync...");
+    } else {
+      new Notice("No sync in progress");
+    }
+  }
+
+  /**
+   * Run a sync unless one is already running.
+   * silent = auto-sync (no Notices), preview = dry run shown in a modal,
+   * noteIds = retry just those notes, originalsOnly = only fill in missing link originals.
+   * profileId = sync only that account; otherwise every account with a refresh token
+   * is synced, one after another. An auto-sync arriving while another account syncs
+   * runs right after it. Every real run is recorded in the sync history, one per account.
+   */
+  async triggerSync(options?: {
+    silent?: boolean;
+    fullScan?: boolean;
+    preview?: boolean;
+    noteIds?: string[];
+    originalsOnly?: boolean;
+    profileId?: string;
+  }) {
     if (this.syncing) {
-      if (!options?.silent) {
+      if (options?.silent && options.profileId) {
+        this.pendingAutoSyncs.add(options.profileId);
+      } else if (!options?.silent) {
         new Notice("Sync already in progress");
       }
       return;
     }
+
+    // Locked tokens: auto-sync waits for the user, a manual sync asks for the passphrase
+    if (this.secrets.isLocked) {
+      if (options?.silent) {
+        this.statusBar?.setError("Get笔记 tokens are locked");
+        return;
+      }
+      if (!(await this.unlockSecrets())) return;
+    }
+
+    const profiles = this.profilesToSync(options?.profileId);
+    if (profiles.length === 0) return;
+
     this.syncing = true;
     this.syncAbortController = new AbortController();
+    const signal = this.syncAbortController.signal;
+    const preview = options?.preview ?? false;
+    const planned: PlannedAction[] = [];
+    let failure: string | null = null;
+    this.statusBar?.start();
     try {
       if (!options?.silent) {
-        new Notice("Syncing Get笔记...");
+        new Notice(preview ? "Previewing Get笔记 sync..." : "Syncing Get笔记...");
       }
-      await syncBiji(this, this.syncAbortController.signal, {
+      for (const profile of profiles) {
+        if (signal.aborted) break;
+        const writer = new VaultWriter(this.vault, preview);
+        failure = (await this.syncProfile(profile, writer, signal, options)) ?? failure;
+        planned.push(...writer.actions);
+      }
+      if (preview && !failure) {
+        new SyncPreviewModal(this.app, planned).open();
+      }
+    } finally {
+      this.syncing = false;
+      this.syncAbortController = null;
+      if (failure) this.statusBar?.setError(failure);
+      else this.statusBar?.setIdle(latestSyncTime(this.settings.profiles));
+    }
+
+    // Auto-syncs of other accounts that fired while this sync ran
+    const pending = [...this.pendingAutoSyncs];
+    this.pendingAutoSyncs.clear();
+    for (const profileId of pending) {
+      await this.triggerSync({ silent: true, profileId });
+    }
+  }
+
+  /** The given account, or every account with a refresh token (the first one when none has). */
+  private profilesToSync(profileId?: string): AccountProfile[] {
+    const { profiles } = this.settings;
+    if (profileId !== undefined) return profiles.filter((p) => p.id === profileId);
+    const withToken = profiles.filter((p) => this.secrets.get(p.id).refreshToken);
+    return withToken.length > 0 ? withToken : profiles.slice(0, 1);
+  }
+
+  /** Sync one account and record its run. Returns the failure message, if any. */
+  private async syncProfile(
+    profile: AccountProfile,
+    writer: VaultWriter,
+    signal: AbortSignal,
+    options?: { silent?: boolean; fullScan?: boolean; noteIds?: string[]; originalsOnly?: boolean },
+  ): Promise<string | null> {
+    const run = writer.dryRun
+      ? undefined
+      : startSyncRun(options?.noteIds ? "retry" : options?.silent ? "auto" : "manual", profile.id);
+    const label = this.settings.profiles.length > 1 ? `${profile.name}: ` : "";
+    let failure: string | null = null;
+    try {
+      await syncBiji(this, profile, signal, {
         silent: options?.silent,
+        fullScan: options?.fullScan,
+        writer,
+        run,
+        noteIds: options?.noteIds,
+        originalsOnly: options?.originalsOnly,
+        onProgress: (progress) => this.statusBar?.setProgress(progress),
       });
       // Reset auth failure counter on success
-      this.consecutiveAuthFailures = 0;
+      this.authFailures.delete(profile.id);
     } catch (err) {
+      failure = err instanceof Error ? err.message : String(err);
+      if (run) {
+        run.status = "failed";
+        run.message = failure;
+      }
       if (err instanceof AuthFatalError) {
-        console.error("Auth failed:", err.message, err.cause);
+        console.error(`${label}Auth failed:`, err.message, err.cause);
         if (options?.silent) {
-          this.consecutiveAuthFailures++;
-          if (this.consecutiveAuthFailures >= MAX_AUTH_FAILURES) {
-            this.stopAutoSync();
+          const failures = (this.authFailures.get(profile.id) ?? 0) + 1;
+          this.authFailures.set(profile.id, failures);
+          if (failures >= MAX_AUTH_FAILURES) {
+            this.stopAutoSync(profile.id);
             new Notice(
-              `Auto-sync stopped: authentication failed ${MAX_AUTH_FAILURES} times, please update refresh token`,
+              `${label}Auto-sync stopped: authentication failed ${MAX_AUTH_FAILURES} times, please update refresh token`,
             );
           }
         } else {
           new Notice(
-            "Authentication failed, please update refresh token in settings",
+            `${label}Authentication failed, please update refresh token in settings`,
           );
         }
       } else {
-        console.error("Sync failed:", err);
+        console.error(`${label}Sync failed:`, err);
         if (!options?.silent) {
-          new Notice("Sync failed, check console for details");
+          new Notice(`${label}Sync failed, check console for details`);
         }
       }
-    } finally {
-      this.syncing = false;
-      this.syncAbortController = null;
     }
+    if (run) {
+      await this.recordSyncRun(
+        finishSyncRun(run, writer.actions, signal.aborted ? "cancelled" : "complete"),
+      );
+    }
+    // A run that could not start (e.g. invalid token) reports its reason in the record
+    return failure ?? (run?.status === "failed" ? run.message : null);
+  }
+
+  // ── Sync history ──
+
+  private async recordSyncRun(run: SyncRunRecord) {
+    this.settings.syncHistory = addSyncRun(this.settings.syncHistory, run);
+    await this.saveSettings();
+    this.refreshSyncHistory();
+  }
+
+  async clearSyncHistory() {
+    this.settings.syncHistory = [];
+    await this.saveSettings();
+    this.refreshSyncHistory();
+  }
+
+  private refreshSyncHistory() {
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SYNC_HISTORY)) {
+      if (leaf.view instanceof SyncHistoryView) leaf.view.render();
+    }
+  }
+
+  async openSyncHistory() {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_SYNC_HISTORY)[0];
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf(true);
+      await leaf.setViewState({ type: VIEW_TYPE_SYNC_HISTORY, active: true });
+    }
+    workspace.revealLeaf(leaf);
+  }
+
+  // ── Accounts ──
+
+  /**
+   * Access JWT cache of an account, reused across syncs until shortly before it
+   * expires; refreshed tokens are written back to the secret store (and the
+   * token expiry to the profile) and saved.
+   */
+  tokenCache(profile: AccountProfile): JwtCache {
+    let cache = this.jwtCaches.get(profile.id);
+    if (!cache) {
+      const current = () => this.settings.profiles.find((p) => p.id === profile.id) ?? profile;
+      cache = new JwtCache(
+        this.transport,
+        () => this.secrets.get(profile.id).refreshToken,
+        this.secrets.get(profile.id).accessToken,
+        ({ refreshTokenExpiresAt, ...secrets }) => {
+          if (refreshTokenExpiresAt !== undefined) current().refreshTokenExpiresAt = refreshTokenExpiresAt;
+          this.secrets.set(profile.id, secrets);
+          void this.saveSettings();
+        },
+      );
+      this.jwtCaches.set(profile.id, cache);
+    }
+    return cache;
+  }
+
+  // ── Login ──
+
+  /**
+   * Open the login dialog for an account (by default the first one without a
+   * refresh token, else the first one); `onDone` runs after a successful login
+   * (e.g. to re-render settings).
+   */
+  async openLogin(profile?: AccountProfile, onDone?: () => void) {
+    // The new token could not be stored while encrypted tokens are locked
+    if (this.secrets.isLocked && !(await this.unlockSecrets())) return;
+    const { profiles } = this.settings;
+    const target = profile ?? profiles.find((p) => !this.secrets.get(p.id).refreshToken) ?? profiles[0];
+    new LoginModal(this.app, this.transport, async (result) => {
+      await this.applyLogin(target, result);
+      new Notice(this.settings.profiles.length > 1 ? `Logged in to Get笔记 as ${target.name}` : "Logged in to Get笔记");
+      onDone?.();
+    }).open();
+  }
+
+  /** Store the session of a login in place of the account's previous refresh token. */
+  async applyLogin(profile: AccountProfile, result: LoginResult) {
+    this.secrets.set(profile.id, { refreshToken: result.refreshToken });
+    profile.refreshTokenExpiresAt = result.refreshTokenExpiresAt;
+    this.tokenCache(profile).set(result.jwt);
+    await this.saveSettings();
+    // Auto-sync may have stopped after repeated auth failures with the old token
+    if (profile.autoSyncEnabled) this.startAutoSync(profile);
+  }
+
+  // ── Token encryption ──
+
+  /**
+   * Ask for the passphrase of the encrypted tokens. Resolves true once they are
+   * unlocked, false when the dialog was closed without it.
+   */
+  unlockSecrets(): Promise<boolean> {
+    return new Promise((resolve) => {
+      new PassphraseModal(
+        this.app,
+        "unlock",
+        async (passphrase) => {
+          await this.secrets.unlock(passphrase);
+          // The legacy tokens are in secrets.json now: drop them from data.json
+          if (Object.keys(this.legacySecrets).length > 0) await this.saveSettings();
+          // Caches created while locked hold no JWT; start over with the stored ones
+          this.jwtCaches.clear();
+          this.statusBar?.setIdle(latestSyncTime(this.settings.profiles));
+          this.onAutoSyncSettingsChanged();
+        },
+        resolve,
+      ).open();
+    });
   }
 
   async loadSettings() {
-    this.settings = Object.assign(
-      {},
-      DEFAULT_SETTINGS,
-      await this.loadData(),
-    );
+    const data = await this.loadData();
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+    this.settings.profiles = migrateProfiles(data);
+
+    // Tokens live in their own file, never in data.json
+    this.secrets = new SecretStore(this.app.vault.adapter, `${this.manifest.dir}/secrets.json`);
+    await this.secrets.load();
+    const legacySecrets = extractSecrets(data);
+    this.secrets.adopt(legacySecrets);
+    this.legacySecrets = legacySecrets;
+
+    // Per-account keys of older versions now live in the default profile, tokens in the secret store
+    for (const key of [...PROFILE_KEYS, ...SECRET_KEYS]) {
+      delete (this.settings as unknown as Record<string, unknown>)[key];
+    }
+    if (Object.keys(legacySecrets).length > 0) await this.saveSettings();
   }
 
+  /**
+   * Write data.json and secrets.json. Legacy tokens are only held in memory
+   * by a locked store, so they stay in the profiles of data.json until it is
+   * unlocked and has saved them.
+   */
   async saveSettings() {
-    await this.saveData(this.settings);
+    const keepLegacy = this.secrets.isLocked && Object.keys(this.legacySecrets).length > 0;
+    const data = keepLegacy
+      ? {
+          ...this.settings,
+          profiles: this.settings.profiles.map((profile) => ({ ...profile, ...this.legacySecrets[profile.id] })),
+        }
+      : this.settings;
+    await this.saveData(data);
+    await this.secrets.save();
+  }
+
+  notify(message: string) {
+    new Notice(message);
   }
 }
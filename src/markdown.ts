@@ -1,11 +1,44 @@
-// INPUT: RawNote, BijiNote from types.ts
-// OUTPUT: sanitizeFilename, escapeYamlString, cleanHtml, buildFrontmatter, buildMarkdown, bijiNoteToRawNote, resolveFilename
+// INPUT: RawNote, BijiNote from types.ts, html.ts (htmlToMarkdown),
+//        template.ts (DEFAULT_NOTE_TEMPLATE, DEFAULT_FILENAME_TEMPLATE, renderTemplate, noteTemplateContext)
+// OUTPUT: sanitizeFilename, escapeYamlString, cleanHtml, buildFrontmatter, buildMarkdown, bijiNoteToRawNote, noteFilename, resolveFilename, latestTimestamp, isRemoteNewer,
+//         USER_SECTION_MARKER, MANAGED_FRONTMATTER_KEYS, MEDIA_ATTACHMENT_TYPES, mergeUserEdits, stripUserEdits,
+//         readFrontmatter, updateFrontmatter
 // POS: Markdown generation and note conversion for biji-sync
 
 import type { RawNote, BijiNote } from "./types";
+import { htmlToMarkdown } from "./html";
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  DEFAULT_NOTE_TEMPLATE,
+  noteTemplateContext,
+  renderTemplate,
+} from "./template";
 
 const UNSAFE_CHARS = /[/\\?%*:|"<>\0]/g;
 
+/** Attachment types that are downloaded into the vault instead of linked. */
+export const MEDIA_ATTACHMENT_TYPES = ["image", "audio", "file"];
+
+/**
+ * Obsidian comment separating generated content from the user's own notes.
+ * Everything after it is carried over when a synced note is regenerated.
+ */
+export const USER_SECTION_MARKER = "%% biji-sync: notes below this line are kept on re-sync %%";
+
+/** Frontmatter keys written by buildFrontmatter; any other key belongs to the user. */
+export const MANAGED_FRONTMATTER_KEYS = [
+  "biji_id",
+  "biji_account",
+  "title",
+  "note_type",
+  "entry_type",
+  "tags",
+  "source_url",
+  "origin",
+  "created_at",
+  "updated_at",
+];
+
 /**
  * Remove filesystem-unsafe characters, collapse whitespace, strip leading dots,
  * trim, and limit to 200 characters.
@@ -35,51 +68,18 @@ export function escapeYamlString(value: string): string {
 }
 
 /**
- * Clean HTML content to plain Markdown using regex only.
- * No external dependencies (no DOMParser, turndown, etc.).
+ * Convert HTML content (note bodies, AI summaries, link originals) to Markdown:
+ * headings, emphasis, lists, blockquotes, code, tables, images and links keep
+ * their structure; <script>/<style> contents are dropped and entities decoded.
+ * Links and images with javascript:/data:/vbscript: URLs are reduced to their text.
  */
 export function cleanHtml(html: string): string {
-  let result = html;
-
-  // 1. <br>, <br/>, <br /> -> \n
-  result = result.replace(/<br\s*\/?>/gi, "\n");
-
-  // 2. </p> -> \n\n; <p> and <p ...> -> removed
-  result = result.replace(/<\/p>/gi, "\n\n");
-  result = result.replace(/<p[^>]*>/gi, "");
-
-  // 3. <a href="URL">text</a> -> [text](URL), strip dangerous protocols
-  result = result.replace(
-    /<a\s+[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi,
-    (_match: string, url: string, text: string) => {
-      if (/^\s*(javascript|data|vbscript):/i.test(url)) {
-        return text;
-      }
-      return `[${text}](${url})`;
-    },
-  );
-
-  // 4. Strip all remaining HTML tags, keep inner text
-  result = result.replace(/<[^>]+>/g, "");
-
-  // 5. Collapse 3+ consecutive newlines to \n\n
-  result = result.replace(/\n{3,}/g, "\n\n");
-
-  // 6. Decode HTML entities
-  result = result
-    .replace(/&amp;/g, "&")
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&nbsp;/g, " ");
-
-  return result;
+  return htmlToMarkdown(html);
 }
 
 /**
  * Build YAML frontmatter from a RawNote with fixed field order:
- * biji_id, title, note_type, entry_type, tags, source_url?, origin?, created_at, updated_at
+ * biji_id, biji_account?, title, note_type, entry_type, tags, source_url?, origin?, created_at, updated_at
  */
 export function buildFrontmatter(note: RawNote): string {
   const lines: string[] = [];
@@ -87,6 +87,11 @@ export function buildFrontmatter(note: RawNote): string {
   // biji_id (required)
   lines.push(`biji_id: "${escapeYamlString(note.id)}"`);
 
+  // biji_account (optional, the profile the note was synced with)
+  if (note.account) {
+    lines.push(`biji_account: "${escapeYamlString(note.account)}"`);
+  }
+
   // title
   lines.push(`title: "${escapeYamlString(note.title)}"`);
 
@@ -127,23 +132,19 @@ export function buildFrontmatter(note: RawNote): string {
 }
 
 /**
- * Build full Markdown document: frontmatter + heading + content + optional callout.
+ * Build full Markdown document: frontmatter + the body rendered from `template`
+ * (heading, content, attachment embeds, optional callout by default),
+ * followed by the user section marker.
+ *
+ * Frontmatter and the marker are not part of the template: dedup, conflict
+ * detection and user-edit preservation depend on them.
+ * Throws TemplateError if the template is malformed.
  */
-export function buildMarkdown(note: RawNote): string {
+export function buildMarkdown(note: RawNote, template: string = DEFAULT_NOTE_TEMPLATE): string {
   const frontmatter = buildFrontmatter(note);
-  const safeTitle = note.title.replace(/[\r\n]+/g, " ");
-  const parts = [frontmatter, "", `# ${safeTitle}`, "", note.content];
-
-  if (note.originalContent) {
-    const lines = note.originalContent.replace(/\n$/, "").split("\n");
-    parts.push(
-      "",
-      "> [!quote]- 原文",
-      ...lines.map((line) => (line ? `> ${line}` : ">")),
-    );
-  }
+  const body = renderTemplate(template, noteTemplateContext(note)).replace(/\n*$/, "\n");
 
-  return parts.join("\n") + "\n";
+  return `${frontmatter}\n\n${body}\n${USER_SECTION_MARKER}\n`;
 }
 
 /**
@@ -161,8 +162,10 @@ export function bijiNoteToRawNote(note: BijiNote): RawNote | null {
     .filter((t) => t.name && t.type !== "system")
     .map((t) => t.name);
 
-  // Source URL: first attachment with a url
-  const sourceUrl = (note.attachments ?? []).find((a) => a.url)?.url;
+  // Media attachments are downloaded; the first other attachment with a url is the source
+  const withUrl = (note.attachments ?? []).filter((a) => a && a.url);
+  const media = withUrl.filter((a) => MEDIA_ATTACHMENT_TYPES.includes(a.type));
+  const sourceUrl = withUrl.find((a) => !MEDIA_ATTACHMENT_TYPES.includes(a.type))?.url;
 
   // Content: prefer content, fallback to body_text, then empty
   const rawContent = note.content || note.body_text || "";
@@ -179,14 +182,24 @@ export function bijiNoteToRawNote(note: BijiNote): RawNote | null {
     content,
     tags: tagNames,
     createdAt: note.created_at,
-    updatedAt: note.updated_at,
+    updatedAt: latestTimestamp(note.updated_at, note.edit_time),
     sourceUrl,
     noteType: note.note_type ?? "unknown",
     entryType: note.entry_type,
     origin: note.source,
+    attachments: media.length > 0 ? media : undefined,
   };
 }
 
+/**
+ * Base file name (without .md) for a note, rendered from a file name template
+ * such as "{{created:YYYY-MM-DD}} {{title}}" and sanitized.
+ * Throws TemplateError if the template is malformed.
+ */
+export function noteFilename(note: RawNote, template: string = DEFAULT_FILENAME_TEMPLATE): string {
+  return sanitizeFilename(renderTemplate(template, noteTemplateContext(note)));
+}
+
 /**
  * Resolve a filename, appending a short id suffix if there is a biji_id conflict.
  */
@@ -201,3 +214,227 @@ export function resolveFilename(
   }
   return base;
 }
+
+/**
+ * Pick the most recent of several timestamps.
+ * edit_time tracks in-app edits and can be newer than updated_at.
+ * Unparseable values lose to parseable ones; returns "" if all are empty.
+ */
+export function latestTimestamp(
+  ...values: Array<string | null | undefined>
+): string {
+  let best = "";
+  let bestTime = NaN;
+  for (const value of values) {
+    if (!value) continue;
+    const time = Date.parse(value);
+    if (!best || (!isNaN(time) && (isNaN(bestTime) || time > bestTime))) {
+      best = value;
+      bestTime = time;
+    }
+  }
+  return best;
+}
+
+/**
+ * Check whether the remote note changed after the local copy was written.
+ * localUpdatedAt is the raw frontmatter value; files without one are left alone.
+ * Falls back to string inequality when either side is not a parseable date.
+ */
+export function isRemoteNewer(
+  remoteUpdatedAt: string,
+  localUpdatedAt: unknown,
+): boolean {
+  if (!remoteUpdatedAt) return false;
+  if (typeof localUpdatedAt !== "string" || !localUpdatedAt) return false;
+
+  const remoteTime = Date.parse(remoteUpdatedAt);
+  const localTime = Date.parse(localUpdatedAt);
+  if (isNaN(remoteTime) || isNaN(localTime)) {
+    return remoteUpdatedAt !== localUpdatedAt;
+  }
+  return remoteTime > localTime;
+}
+
+/**
+ * Split a document into its frontmatter lines (without the --- fences) and body.
+ * Returns null frontmatter when the document does not start with a fence.
+ */
+function splitFrontmatter(text: string): { frontmatter: string[] | null; body: string } {
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+  if (!match) return { frontmatter: null, body: text };
+  return {
+    frontmatter: match[1].split(/\r?\n/),
+    body: text.slice(match[0].length),
+  };
+}
+
+/**
+ * Group frontmatter lines into top-level entries: a "key:" line plus its
+ * indented / list continuation lines.
+ */
+function frontmatterEntries(lines: string[]): Array<{ key: string; lines: string[] }> {
+  const entries: Array<{ key: string; lines: string[] }> = [];
+  for (const line of lines) {
+    const keyMatch = line.match(/^([^\s#:][^:]*):(\s|$)/);
+    if (keyMatch) {
+      entries.push({ key: keyMatch[1].trim(), lines: [line] });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1].lines.push(line);
+    }
+  }
+  return entries;
+}
+
+/** Value of a YAML scalar: quoted strings, booleans, null, numbers, else the plain text. */
+function parseYamlScalar(raw: string): unknown {
+  const value = raw.trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value); // escapeYamlString output is valid JSON
+    } catch {
+      return value;
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  const plain = value.replace(/\s+#.*$/, "");
+  if (plain === "" || plain === "~" || plain === "null") return null;
+  if (plain === "true" || plain === "false") return plain === "true";
+  if (/^-?\d+(\.\d+)?$/.test(plain)) return Number(plain);
+  return plain;
+}
+
+/** Value of one top-level entry: a scalar, a flow list ([a, b]) or a block list ("- a" lines). */
+function parseYamlEntry(lines: string[]): unknown {
+  const inline = lines[0].slice(lines[0].indexOf(":") + 1).trim();
+  const rest = lines.slice(1).filter((line) => line.trim() !== "");
+  if (inline.startsWith("[") && inline.endsWith("]")) {
+    const items = inline.slice(1, -1).match(/\s*("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+)/g) ?? [];
+    return items.filter((item) => item.trim() !== "").map(parseYamlScalar);
+  }
+  if (inline === "" && rest.length > 0) {
+    if (rest.every((line) => /^\s*- /.test(line) || /^\s*-$/.test(line))) {
+      return rest.map((line) => parseYamlScalar(line.replace(/^\s*-/, "")));
+    }
+    return rest.join("\n"); // Nested mappings and block scalars are kept as text
+  }
+  return parseYamlScalar(inline);
+}
+
+/** YAML for a frontmatter value written by updateFrontmatter. */
+function formatYamlEntry(key: string, value: unknown): string[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${key}: []`];
+    return [`${key}:`, ...value.map((item) => `  - ${formatYamlScalar(item)}`)];
+  }
+  return [`${key}: ${formatYamlScalar(value)}`];
+}
+
+function formatYamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "boolean" || typeof value === "number") return String(value);
+  return `"${escapeYamlString(typeof value === "string" ? value : JSON.stringify(value))}"`;
+}
+
+/**
+ * Read the frontmatter of a document outside Obsidian's MetadataCache.
+ * Covers what notes written by buildMarkdown and typical user edits hold:
+ * top-level keys with strings, booleans, null, numbers and lists. Nested
+ * mappings come back as their raw text. Returns null without frontmatter.
+ */
+export function readFrontmatter(text: string): Record<string, unknown> | null {
+  const { frontmatter } = splitFrontmatter(text);
+  if (!frontmatter) return null;
+  const result: Record<string, unknown> = {};
+  for (const entry of frontmatterEntries(frontmatter)) {
+    result[entry.key] = parseYamlEntry(entry.lines);
+  }
+  return result;
+}
+
+/**
+ * Apply `fn` to the frontmatter of a document, like Obsidian's
+ * FileManager.processFrontMatter: only keys that `fn` adds, changes or deletes
+ * are rewritten, every other line and the body stay as they were.
+ */
+export function updateFrontmatter(text: string, fn: (frontmatter: Record<string, unknown>) => void): string {
+  const { frontmatter, body } = splitFrontmatter(text);
+  const entries = frontmatterEntries(frontmatter ?? []);
+  const before = readFrontmatter(text) ?? {};
+  const after = structuredClone(before);
+  fn(after);
+
+  const lines: string[] = [];
+  for (const entry of entries) {
+    if (!(entry.key in after)) continue; // Deleted
+    const unchanged = JSON.stringify(after[entry.key]) === JSON.stringify(before[entry.key]);
+    lines.push(...(unchanged ? entry.lines : formatYamlEntry(entry.key, after[entry.key])));
+  }
+  for (const key of Object.keys(after)) {
+    if (!(key in before)) lines.push(...formatYamlEntry(key, after[key]));
+  }
+  return `---\n${lines.join("\n")}\n---\n${body}`;
+}
+
+/**
+ * Carry the user's edits from an existing note into freshly generated Markdown:
+ * - frontmatter keys not in MANAGED_FRONTMATTER_KEYS are appended to the new frontmatter
+ * - everything after USER_SECTION_MARKER replaces the generated (empty) user section
+ * Files without the marker (written before it existed, or with it removed) may
+ * hold user text anywhere, so their whole old body moves below the new marker.
+ * Managed keys always take the new value.
+ */
+export function mergeUserEdits(generated: string, existing: string): string {
+  const next = splitFrontmatter(generated);
+  const prev = splitFrontmatter(existing);
+
+  let frontmatter = next.frontmatter;
+  if (frontmatter && prev.frontmatter) {
+    const nextKeys = new Set(frontmatterEntries(frontmatter).map((e) => e.key));
+    const userLines: string[] = [];
+    for (const entry of frontmatterEntries(prev.frontmatter)) {
+      if (MANAGED_FRONTMATTER_KEYS.includes(entry.key)) continue;
+      if (nextKeys.has(entry.key)) continue;
+      userLines.push(...entry.lines);
+    }
+    frontmatter = [...frontmatter, ...userLines];
+  }
+
+  let body = next.body;
+  const markerIndex = prev.body.indexOf(USER_SECTION_MARKER);
+  const nextMarkerIndex = body.indexOf(USER_SECTION_MARKER);
+  if (markerIndex !== -1 && nextMarkerIndex !== -1) {
+    const userSection = prev.body.slice(markerIndex + USER_SECTION_MARKER.length);
+    body = body.slice(0, nextMarkerIndex + USER_SECTION_MARKER.length) + userSection;
+  } else if (markerIndex === -1 && nextMarkerIndex !== -1 && prev.body.trim() !== "") {
+    body = `${body.slice(0, nextMarkerIndex + USER_SECTION_MARKER.length)}\n${prev.body}`;
+  }
+
+  return frontmatter ? `---\n${frontmatter.join("\n")}\n---\n${body}` : body;
+}
+
+/**
+ * Reduce a note to its plugin-generated part: managed frontmatter keys and the
+ * body up to and including USER_SECTION_MARKER. For an untouched note this
+ * returns exactly what buildMarkdown produced, so it can be hashed and compared.
+ */
+export function stripUserEdits(text: string): string {
+  const { frontmatter, body } = splitFrontmatter(text);
+
+  let generatedBody = body;
+  const markerIndex = body.indexOf(USER_SECTION_MARKER);
+  if (markerIndex !== -1) {
+    generatedBody = body.slice(0, markerIndex + USER_SECTION_MARKER.length) + "\n";
+  }
+
+  if (!frontmatter) return generatedBody;
+  const managedLines: string[] = [];
+  for (const entry of frontmatterEntries(frontmatter)) {
+    if (MANAGED_FRONTMATTER_KEYS.includes(entry.key)) {
+      managedLines.push(...entry.lines);
+    }
+  }
+  return `---\n${managedLines.join("\n")}\n---\n${generatedBody}`;
+}
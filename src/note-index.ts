@@ -0,0 +1,123 @@
+// INPUT: obsidian (Plugin, types only), vault.ts (SyncVault, VaultFile, FrontMatter)
+// OUTPUT: BijiNoteIndex
+// POS: Vault-wide biji_id → file index used for dedup and locating synced notes
+
+import type { Plugin } from "obsidian";
+import type { FrontMatter, SyncVault, VaultFile } from "./vault";
+
+/**
+ * Maps every vault file carrying a `biji_id` frontmatter key to that id.
+ *
+ * Built from the vault's cached frontmatter on first use. In Obsidian it is
+ * kept current through metadataCache "changed" and vault "rename"/"delete"
+ * events, so synced notes can be renamed, moved or retitled without breaking dedup.
+ * If several files share one biji_id, the first one indexed wins.
+ */
+export class BijiNoteIndex {
+  private fileById = new Map<string, VaultFile>();
+  private idByPath = new Map<string, string>();
+  private built = false;
+
+  constructor(private vault: SyncVault) {}
+
+  /** Subscribe to the plugin's vault/metadata events. Handlers are released on plugin unload. */
+  registerEvents(plugin: Plugin): void {
+    const { metadataCache, vault } = plugin.app;
+    plugin.registerEvent(
+      metadataCache.on("changed", (file, _data, cache) => {
+        this.indexFile(file, cache.frontmatter ?? null);
+      }),
+    );
+    plugin.registerEvent(
+      vault.on("rename", (file, oldPath) => {
+        const id = this.idByPath.get(oldPath);
+        const renamed = this.vault.getFile(file.path); // Folders are not indexed
+        if (id === undefined || !renamed) return;
+        this.idByPath.delete(oldPath);
+        this.idByPath.set(renamed.path, id);
+        this.fileById.set(id, renamed);
+      }),
+    );
+    plugin.registerEvent(
+      vault.on("delete", (file) => {
+        this.removePath(file.path);
+      }),
+    );
+  }
+
+  /** (Re)build the index from every Markdown file in the vault. */
+  build(): void {
+    this.fileById.clear();
+    this.idByPath.clear();
+    for (const file of this.vault.markdownFiles()) {
+      this.indexFile(file, this.vault.frontmatter(file));
+    }
+    this.built = true;
+  }
+
+  ensureBuilt(): void {
+    if (!this.built) this.build();
+  }
+
+  /** File currently holding the given biji_id, or null if none. */
+  get(bijiId: string): VaultFile | null {
+    return this.fileById.get(bijiId) ?? null;
+  }
+
+  /** Snapshot of every indexed [biji_id, file] pair. */
+  entries(): Array<[string, VaultFile]> {
+    return Array.from(this.fileById.entries());
+  }
+
+  /** biji_id recorded for a path, or null if the file is not a synced note. */
+  idForPath(path: string): string | null {
+    return this.idByPath.get(path) ?? null;
+  }
+
+  /**
+   * Record a file the sync engine just wrote, ahead of the MetadataCache
+   * "changed" event that would otherwise index it asynchronously.
+   */
+  set(bijiId: string, file: VaultFile): void {
+    this.removePath(file.path);
+    this.idByPath.set(file.path, bijiId);
+    if (!this.fileById.has(bijiId)) {
+      this.fileById.set(bijiId, file);
+    }
+  }
+
+  private indexFile(file: VaultFile, frontmatter: FrontMatter | null): void {
+    const rawId: unknown = frontmatter?.biji_id;
+    const id =
+      typeof rawId === "string" || typeof rawId === "number"
+        ? String(rawId)
+        : "";
+
+    if (this.idByPath.get(file.path) === id && id) return;
+    this.removePath(file.path);
+    if (!id) return;
+
+    this.idByPath.set(file.path, id);
+    if (!this.fileById.has(id)) {
+      this.fileById.set(id, file);
+    }
+  }
+
+  private removePath(path: string): void {
+    const id = this.idByPath.get(path);
+    if (id === undefined) return;
+    this.idByPath.delete(path);
+    if (this.fileById.get(id)?.path === path) {
+      this.fileById.delete(id);
+      // Fall back to another file carrying the same id, if any
+      for (const [otherPath, otherId] of this.idByPath) {
+        if (otherId !== id) continue;
+        const other = this.vault.getFile(otherPath);
+        if (other) {
+          this.fileById.set(id, other);
+          break;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,25 @@
+// INPUT: obsidian (requestUrl), transport.ts (HttpTransport, HttpStatusError, createResponse)
+// OUTPUT: obsidianTransport
+// POS: HTTP transport of the plugin — Obsidian's requestUrl, which is not subject to CORS
+
+import { requestUrl } from "obsidian";
+import { HttpStatusError, createResponse } from "./transport";
+import type { HttpTransport } from "./transport";
+
+function lowercaseKeys(headers: Record<string, string> | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) result[name.toLowerCase()] = value;
+  return result;
+}
+
+/** requestUrl with `throw: false`, so non-2xx responses become HttpStatusError with their headers. */
+export const obsidianTransport: HttpTransport = {
+  async request(request) {
+    const response = await requestUrl({ ...request, throw: false });
+    const headers = lowercaseKeys(response.headers);
+    if (response.status < 200 || response.status >= 300) {
+      throw new HttpStatusError(response.status, headers);
+    }
+    return createResponse(response.status, headers, response.arrayBuffer);
+  },
+};
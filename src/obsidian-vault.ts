@@ -0,0 +1,65 @@
+// INPUT: obsidian (App, TFile, TFolder), vault.ts (SyncVault, VaultFile, FrontMatter)
+// OUTPUT: ObsidianVault
+// POS: SyncVault of the plugin — Obsidian's vault, MetadataCache and FileManager
+
+import { TFile, TFolder } from "obsidian";
+import type { App } from "obsidian";
+import type { FrontMatter, SyncVault, VaultFile } from "./vault";
+
+/**
+ * The files handed out are TFiles, so the casts back to TFile in the write
+ * methods hold for every file the sync engine can pass in. Renames go through
+ * the FileManager so links to the note are updated.
+ */
+export class ObsidianVault implements SyncVault {
+  constructor(private app: App) {}
+
+  getFile(path: string): VaultFile | null {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+  }
+
+  isFolder(path: string): boolean {
+    return this.app.vault.getAbstractFileByPath(path) instanceof TFolder;
+  }
+
+  markdownFiles(): VaultFile[] {
+    return this.app.vault.getMarkdownFiles();
+  }
+
+  frontmatter(file: VaultFile): FrontMatter | null {
+    return this.app.metadataCache.getFileCache(file as TFile)?.frontmatter ?? null;
+  }
+
+  read(file: VaultFile): Promise<string> {
+    return this.app.vault.read(file as TFile);
+  }
+
+  async createFolder(path: string): Promise<void> {
+    await this.app.vault.createFolder(path);
+  }
+
+  create(path: string, data: string): Promise<VaultFile> {
+    return this.app.vault.create(path, data);
+  }
+
+  modify(file: VaultFile, data: string): Promise<void> {
+    return this.app.vault.modify(file as TFile, data);
+  }
+
+  async createBinary(path: string, data: ArrayBuffer): Promise<void> {
+    await this.app.vault.createBinary(path, data);
+  }
+
+  rename(file: VaultFile, newPath: string): Promise<void> {
+    return this.app.fileManager.renameFile(file as TFile, newPath);
+  }
+
+  trash(file: VaultFile): Promise<void> {
+    return this.app.vault.trash(file as TFile, false);
+  }
+
+  processFrontMatter(file: VaultFile, fn: (frontmatter: FrontMatter) => void): Promise<void> {
+    return this.app.fileManager.processFrontMatter(file as TFile, fn);
+  }
+}
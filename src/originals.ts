@@ -0,0 +1,116 @@
+// INPUT: host.ts (SyncHost), types.ts (RawNote),
+//        api.ts (fetchLinkDetail, fetchNote, AuthFatalError, DETAIL_DELAY),
+//        markdown.ts (bijiNoteToRawNote, cleanHtml, mergeUserEdits, stripUserEdits, USER_SECTION_MARKER),
+//        conflict.ts (hashContent, mergeLines), writer.ts (VaultWriter), profiles.ts (AccountProfile, ownsNote)
+// OUTPUT: RenderNote, backfillOriginals
+// POS: Backfill — adds the original article to link notes imported before it was available
+
+import type { SyncHost } from "./host";
+import type { RawNote } from "./types";
+import { AuthFatalError, DETAIL_DELAY, fetchLinkDetail, fetchNote } from "./api";
+import type { JwtRefreshCallback } from "./api";
+import { USER_SECTION_MARKER, bijiNoteToRawNote, cleanHtml, mergeUserEdits, stripUserEdits } from "./markdown";
+import { hashContent, mergeLines } from "./conflict";
+import type { VaultWriter } from "./writer";
+import { ownsNote } from "./profiles";
+import type { AccountProfile } from "./profiles";
+
+/** Render `note` as the sync would write it: note template and attachment embeds. */
+export type RenderNote = (note: RawNote) => Promise<string>;
+
+/**
+ * Retry the link detail of every note of `profile` marked missingOriginal in
+ * the note state. Once the original is available the note is fetched again
+ * and rendered without and with it; the difference, which is wherever the
+ * configured template puts the original, is merged into the generated part
+ * of the vault copy line by line. Everything else, local edits included, is
+ * left as it is. Notes of other accounts are left for their own profile.
+ *
+ * Originals that are still missing, and notes edited right where the original
+ * goes, stay marked for the next run. A note that left the vault or Get笔记,
+ * or lost its user section marker, is unmarked. If the generated part was
+ * unedited, the stored hash follows the insertion so the note does not look
+ * locally edited afterwards. Returns the paths of the filled-in notes.
+ * AuthFatalError propagates.
+ */
+export async function backfillOriginals(
+  plugin: SyncHost,
+  profile: AccountProfile,
+  writer: VaultWriter,
+  jwt: string,
+  refreshJwt: JwtRefreshCallback,
+  signal: AbortSignal,
+  render: RenderNote,
+): Promise<string[]> {
+  const filled: string[] = [];
+  const pending = plugin.noteState.idsWhere((state) => state.missingOriginal === true);
+
+  const unmark = (bijiId: string): void => {
+    const state = plugin.noteState.get(bijiId);
+    if (writer.dryRun || !state) return;
+    plugin.noteState.set(bijiId, { hash: state.hash, base: state.base });
+  };
+
+  for (const bijiId of pending) {
+    if (signal.aborted) break;
+    const file = plugin.noteIndex.get(bijiId);
+    if (!file) {
+      unmark(bijiId);
+      continue;
+    }
+    const account = plugin.vault.frontmatter(file)?.biji_account;
+    if (!ownsNote(profile, account)) continue;
+
+    try {
+      const html = await fetchLinkDetail(plugin.transport, jwt, bijiId, refreshJwt);
+      // Rate-limit between consecutive link detail requests
+      await new Promise((r) => setTimeout(r, DETAIL_DELAY));
+      if (!html) continue; // Still being processed by Get笔记
+
+      // fetchNote is unverified: a null does not prove the note is gone, so the mark stays
+      const note = await fetchNote(plugin.transport, jwt, bijiId, refreshJwt);
+      if (!note) continue;
+      const rawNote = bijiNoteToRawNote(note);
+      if (!rawNote) {
+        unmark(bijiId); // Not a note the sync can render
+        continue;
+      }
+      rawNote.account = profile.id;
+
+      const current = await plugin.vault.read(file);
+      if (!current.includes(USER_SECTION_MARKER)) {
+        unmark(bijiId); // The generated part cannot be told from the user's text
+        continue;
+      }
+      const without = await render(rawNote);
+      const withOriginal = await render({ ...rawNote, originalContent: cleanHtml(html) });
+      if (withOriginal === without) {
+        unmark(bijiId); // The note template no longer shows the original
+        continue;
+      }
+      const localGenerated = stripUserEdits(current);
+      const merged = mergeLines(without, localGenerated, withOriginal);
+      if (merged === null) {
+        writer.plan("skip", file.path, bijiId, "original article available, but the note was edited where it goes");
+        continue;
+      }
+
+      await writer.modify(file, mergeUserEdits(merged, current), bijiId, "original article now available");
+      filled.push(file.path);
+
+      const state = plugin.noteState.get(bijiId);
+      if (!writer.dryRun && state) {
+        const unedited = hashContent(localGenerated) === state.hash;
+        plugin.noteState.set(bijiId, {
+          hash: unedited ? hashContent(merged) : state.hash,
+          base: state.base !== undefined ? mergeLines(without, state.base, withOriginal) ?? state.base : undefined,
+        });
+      }
+    } catch (err) {
+      if (err instanceof AuthFatalError) throw err;
+      console.error(`Failed to backfill the original of note ${bijiId}:`, err);
+    }
+  }
+
+  return filled;
+}
@@ -0,0 +1,100 @@
+// INPUT: obsidian (App, Modal, Setting), secrets.ts (MIN_PASSPHRASE_LENGTH)
+// OUTPUT: PassphraseModal
+// POS: Passphrase dialog — unlocks the encrypted tokens once per session, or sets a new passphrase
+
+import { App, Modal, Setting } from "obsidian";
+import { MIN_PASSPHRASE_LENGTH } from "./secrets";
+
+/**
+ * "unlock" asks for the passphrase once; "set" asks for a new one twice.
+ * `onSubmit` errors are shown in the dialog, which stays open for another try.
+ * `onDone` tells whether a submit succeeded before the dialog closed.
+ */
+export class PassphraseModal extends Modal {
+  private passphrase = "";
+  private confirmation = "";
+  private statusEl: HTMLElement | null = null;
+  private submitted = false;
+
+  constructor(
+    app: App,
+    private mode: "unlock" | "set",
+    private onSubmit: (passphrase: string) => Promise<void>,
+    private onDone?: (submitted: boolean) => void,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", {
+      text: this.mode === "unlock" ? "Unlock Get笔记 tokens" : "Encrypt Get笔记 tokens",
+    });
+    contentEl.createEl("p", {
+      text:
+        this.mode === "unlock"
+          ? "Your Get笔记 tokens are encrypted. Enter the passphrase to use them until Obsidian is closed."
+          : "The passphrase is asked once per session and cannot be recovered. If you forget it, remove the encryption and log in again.",
+    });
+
+    new Setting(contentEl).setName("Passphrase").addText((text) => {
+      text.inputEl.type = "password";
+      text.onChange((value) => {
+        this.passphrase = value;
+      });
+      text.inputEl.addEventListener("keydown", (event) => {
+        if (event.key === "Enter" && this.mode === "unlock") void this.submit();
+      });
+    });
+
+    if (this.mode === "set") {
+      new Setting(contentEl).setName("Repeat passphrase").addText((text) => {
+        text.inputEl.type = "password";
+        text.onChange((value) => {
+          this.confirmation = value;
+        });
+      });
+    }
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText(this.mode === "unlock" ? "Unlock" : "Encrypt")
+        .setCta()
+        .onClick(() => void this.submit())
+    );
+
+    this.statusEl = contentEl.createEl("p", { cls: "getbiji-login-status" });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.onDone?.(this.submitted);
+  }
+
+  private async submit(): Promise<void> {
+    if (this.mode === "set") {
+      if (this.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        this.setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (this.passphrase !== this.confirmation) {
+        this.setError("The passphrases do not match");
+        return;
+      }
+    }
+    try {
+      await this.onSubmit(this.passphrase);
+      this.submitted = true;
+      this.close();
+    } catch (err) {
+      this.setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  private setError(message: string): void {
+    if (!this.statusEl) return;
+    this.statusEl.setText(message);
+    this.statusEl.addClass("getbiji-login-error");
+  }
+}
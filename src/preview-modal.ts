@@ -0,0 +1,86 @@
+// INPUT: obsidian (App, Modal), writer.ts (PlannedAction)
+// OUTPUT: SyncPreviewModal
+// POS: Dry-run report — lists the vault changes a sync would make
+
+import { App, Modal } from "obsidian";
+import type { PlannedAction, PlannedActionType } from "./writer";
+
+// Rows beyond this are summarized, so a full scan cannot freeze the modal
+const MAX_ROWS = 500;
+
+const ACTION_LABELS: Record<PlannedActionType, string> = {
+  create: "Create",
+  update: "Update",
+  "conflict-file": "Conflict copy",
+  rename: "Move",
+  trash: "Trash",
+  tag: "Tag deleted",
+  attachment: "Attachment",
+  "attachment-skipped": "Attachment skipped",
+  skip: "Skip",
+};
+
+/** Table of the actions recorded by a dry-run VaultWriter. */
+export class SyncPreviewModal extends Modal {
+  constructor(
+    app: App,
+    private actions: PlannedAction[],
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h2", { text: "Get笔记 sync preview" });
+
+    if (this.actions.length === 0) {
+      contentEl.createEl("p", { text: "Nothing to do: the vault is up to date." });
+      return;
+    }
+
+    // Changes first, skips last
+    const sorted = this.actions
+      .slice()
+      .sort((a, b) => Number(a.action === "skip") - Number(b.action === "skip"));
+
+    const counts = new Map<PlannedActionType, number>();
+    for (const { action } of sorted) counts.set(action, (counts.get(action) ?? 0) + 1);
+    contentEl.createEl("p", {
+      text:
+        Array.from(counts, ([action, count]) => `${ACTION_LABELS[action]}: ${count}`).join(", ") +
+        ". Nothing has been written.",
+    });
+
+    const table = contentEl.createEl("table", { cls: "getbiji-preview-table" });
+    const header = table.createEl("tr");
+    for (const title of ["Action", "Path", "Reason", "Note id"]) {
+      header.createEl("th", { text: title });
+    }
+
+    for (const { action, path, reason, noteId } of sorted.slice(0, MAX_ROWS)) {
+      const row = table.createEl("tr");
+      row.createEl("td", { text: ACTION_LABELS[action] });
+      const pathCell = row.createEl("td");
+      // Existing files can be opened; planned ones do not exist yet
+      if (path && this.app.vault.getAbstractFileByPath(path)) {
+        pathCell.createEl("a", { text: path }).addEventListener("click", () => {
+          void this.app.workspace.openLinkText(path, "");
+          this.close();
+        });
+      } else {
+        pathCell.setText(path || "—");
+      }
+      row.createEl("td", { text: reason });
+      row.createEl("td", { text: noteId });
+    }
+
+    if (sorted.length > MAX_ROWS) {
+      contentEl.createEl("p", { text: `… and ${sorted.length - MAX_ROWS} more` });
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,161 @@
+// INPUT: settings-schema.ts (SyncCheckpoint), filters.ts (SyncFilter, DEFAULT_SYNC_FILTER), retry-queue.ts (RetryEntry),
+//        secrets.ts (ProfileSecrets), routing.ts (FolderRule)
+// OUTPUT: AccountProfile, DEFAULT_PROFILE_ID, PROFILE_KEYS, SECRET_KEYS, createProfile, profileId, migrateProfiles,
+//         extractSecrets, ownsNote, latestSyncTime
+// POS: Account profiles — one Get笔记 account each, with its own folders, cursor, filters and schedule
+//      (its tokens live in the SecretStore under the profile id)
+
+import type { SyncCheckpoint } from "./settings-schema";
+import { DEFAULT_SYNC_FILTER } from "./filters";
+import type { SyncFilter } from "./filters";
+import type { RetryEntry } from "./retry-queue";
+import type { ProfileSecrets } from "./secrets";
+import type { FolderRule } from "./routing";
+
+/**
+ * Everything that belongs to one Get笔记 account, except its tokens (see
+ * SecretStore). Times are epoch milliseconds. `id` never changes and is
+ * written to the `biji_account` frontmatter of the account's notes; `name` is
+ * only shown in the UI.
+ */
+export interface AccountProfile {
+  id: string;
+  name: string;
+  refreshTokenExpiresAt: number | null; // Reported by the refresh endpoint
+  targetFolder: string;
+  folderRules: FolderRule[]; // Route new notes of this account away from targetFolder
+  syncFilter: SyncFilter;
+  lastSyncId: string | null;
+  lastSyncTime: number | null;
+  syncCheckpoint: SyncCheckpoint | null;
+  autoSyncEnabled: boolean;
+  autoSyncInterval: number;
+  lastDeletionCheck: number | null;
+  lastFullScan: number | null; // Last complete full scan, for the daily edit check of auto sync
+  retryQueue: RetryEntry[];
+}
+
+/** Id of the profile created from the settings of the single-account versions. */
+export const DEFAULT_PROFILE_ID = "default";
+
+/** Per-account keys, which older versions kept at the top level of the settings. */
+export const PROFILE_KEYS = [
+  "refreshTokenExpiresAt",
+  "targetFolder",
+  "folderRules",
+  "syncFilter",
+  "lastSyncId",
+  "lastSyncTime",
+  "syncCheckpoint",
+  "autoSyncEnabled",
+  "autoSyncInterval",
+  "lastDeletionCheck",
+  "retryQueue",
+] as const;
+
+/** Token keys older versions kept in the settings, at the top level or in each profile. */
+export const SECRET_KEYS = ["refreshToken", "accessToken"] as const;
+
+/** A new profile with default settings; `overrides` win. */
+export function createProfile(id: string, name: string, overrides: Partial<AccountProfile> = {}): AccountProfile {
+  return {
+    id,
+    name,
+    refreshTokenExpiresAt: null,
+    targetFolder: "Get笔记",
+    folderRules: [],
+    syncFilter: DEFAULT_SYNC_FILTER,
+    lastSyncId: null,
+    lastSyncTime: null,
+    syncCheckpoint: null,
+    autoSyncEnabled: false,
+    autoSyncInterval: 30,
+    lastDeletionCheck: null,
+    lastFullScan: null,
+    retryQueue: [],
+    ...overrides,
+  };
+}
+
+/** Id for a new profile named `name`: a slug of the name, unique among `taken`. */
+export function profileId(name: string, taken: string[]): string {
+  const slug =
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9\u4e00-\u9fff]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "account";
+  let id = slug;
+  for (let n = 2; taken.includes(id); n++) id = `${slug}-${n}`;
+  return id;
+}
+
+/**
+ * Profiles from stored plugin data. Data from before profiles existed becomes
+ * the DEFAULT_PROFILE_ID profile, keeping its token, cursor and schedule;
+ * stored profiles get defaults for fields added since they were saved.
+ * Folder rules, once shared by all profiles, are copied into each stored
+ * profile without its own, so new notes keep landing where they did.
+ */
+export function migrateProfiles(data: Record<string, unknown> | null): AccountProfile[] {
+  const stored = data?.profiles;
+  if (Array.isArray(stored) && stored.length > 0) {
+    const sharedRules = Array.isArray(data?.folderRules) ? (data?.folderRules as FolderRule[]) : [];
+    return stored.map((profile: AccountProfile) => {
+      const copy: Record<string, unknown> = { ...profile };
+      if (!Array.isArray(copy.folderRules)) copy.folderRules = sharedRules;
+      for (const key of SECRET_KEYS) delete copy[key];
+      return createProfile(profile.id, profile.name, copy);
+    });
+  }
+
+  const legacy: Partial<AccountProfile> = {};
+  for (const key of PROFILE_KEYS) {
+    if (data && data[key] !== undefined) Object.assign(legacy, { [key]: data[key] });
+  }
+  return [createProfile(DEFAULT_PROFILE_ID, "Default", legacy)];
+}
+
+/**
+ * Tokens stored in plugin data by older versions, by profile id: per profile,
+ * or at the top level for the DEFAULT_PROFILE_ID profile. They belong in the
+ * SecretStore and must be removed from the data afterwards.
+ */
+export function extractSecrets(data: Record<string, unknown> | null): Record<string, ProfileSecrets> {
+  const found: Record<string, ProfileSecrets> = {};
+  const take = (id: string, source: Record<string, unknown>): void => {
+    if (typeof source.refreshToken === "string" && source.refreshToken) {
+      found[id] = {
+        refreshToken: source.refreshToken,
+        accessToken: typeof source.accessToken === "string" ? source.accessToken : "",
+      };
+    }
+  };
+  if (data) take(DEFAULT_PROFILE_ID, data);
+  if (Array.isArray(data?.profiles)) {
+    for (const profile of data.profiles as Array<Record<string, unknown>>) {
+      if (typeof profile?.id === "string") take(profile.id, profile);
+    }
+  }
+  return found;
+}
+
+/**
+ * Whether a vault note belongs to `profile`, given its `biji_account`
+ * frontmatter. Notes synced before profiles existed have none and belong to
+ * the DEFAULT_PROFILE_ID profile; once that is removed they belong to nobody.
+ */
+export function ownsNote(profile: AccountProfile, account: unknown): boolean {
+  if (account === undefined || account === null || account === "") {
+    return profile.id === DEFAULT_PROFILE_ID;
+  }
+  return account === profile.id;
+}
+
+/** Most recent sync of any profile, or null if none has synced. */
+export function latestSyncTime(profiles: AccountProfile[]): number | null {
+  return profiles.reduce<number | null>(
+    (latest, p) => (p.lastSyncTime !== null && (latest === null || p.lastSyncTime > latest) ? p.lastSyncTime : latest),
+    null,
+  );
+}
@@ -0,0 +1,53 @@
+// INPUT: history.ts (SyncNoteError)
+// OUTPUT: RetryEntry, DEFAULT_MAX_RETRY_ATTEMPTS, retryDelay, queueRetry, dequeueRetry, dueRetries, givenUpRetries
+// POS: Retry queue — notes that failed to sync, retried by later syncs with backoff
+
+import type { SyncNoteError } from "./history";
+
+/** A note that failed to sync and is waiting for another attempt. Times are epoch milliseconds. */
+export interface RetryEntry {
+  noteId: string;
+  title: string;
+  attempts: number; // Failed attempts so far
+  lastError: string;
+  nextRetryAt: number;
+}
+
+export const DEFAULT_MAX_RETRY_ATTEMPTS = 5;
+
+const RETRY_BASE_DELAY = 5 * 60 * 1000; // 5 minutes, doubled after every failure
+const RETRY_MAX_DELAY = 24 * 60 * 60 * 1000; // 1 day
+
+/** Wait before the next attempt after `attempts` failures: 5 min, 10 min, 20 min, ... up to a day. */
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY);
+}
+
+/** Queue with one more failed attempt recorded for the note (added if new). */
+export function queueRetry(queue: RetryEntry[], failure: SyncNoteError, now: number): RetryEntry[] {
+  const previous = queue.find((e) => e.noteId === failure.noteId);
+  const attempts = (previous?.attempts ?? 0) + 1;
+  const entry: RetryEntry = {
+    noteId: failure.noteId,
+    title: failure.title || previous?.title || "",
+    attempts,
+    lastError: failure.message,
+    nextRetryAt: now + retryDelay(attempts),
+  };
+  return [...queue.filter((e) => e.noteId !== failure.noteId), entry];
+}
+
+/** Queue without the note; the same array when it was not queued. */
+export function dequeueRetry(queue: RetryEntry[], noteId: string): RetryEntry[] {
+  return queue.some((e) => e.noteId === noteId) ? queue.filter((e) => e.noteId !== noteId) : queue;
+}
+
+/** Entries to retry now: due and not yet given up on. */
+export function dueRetries(queue: RetryEntry[], maxAttempts: number, now: number): RetryEntry[] {
+  return queue.filter((e) => e.attempts < maxAttempts && e.nextRetryAt <= now);
+}
+
+/** Entries that failed `maxAttempts` times and are no longer retried automatically. */
+export function givenUpRetries(queue: RetryEntry[], maxAttempts: number): RetryEntry[] {
+  return queue.filter((e) => e.attempts >= maxAttempts);
+}
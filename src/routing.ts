@@ -0,0 +1,83 @@
+// INPUT: vault.ts (normalizePath), RawNote from types.ts, markdown.ts (sanitizeFilename),
+//        template.ts (renderTemplate, noteTemplateContext, validateFilenameTemplate, formatDate)
+// OUTPUT: FolderRule, FolderRuleField, FOLDER_RULE_FIELDS, expandFolderPattern, ruleMatches, resolveFolder, validateFolderRule
+// POS: Folder routing — picks the vault folder for a new note from an ordered rule list
+
+import { normalizePath } from "./vault";
+import type { RawNote } from "./types";
+import { sanitizeFilename } from "./markdown";
+import { formatDate, noteTemplateContext, renderTemplate, validateFilenameTemplate } from "./template";
+
+export type FolderRuleField = "noteType" | "origin" | "entryType" | "tag" | "created";
+
+/**
+ * Route notes matching `field`/`value` into `folder`.
+ * `folder` is a vault path pattern such as "Get笔记/{{YYYY}}/{{MM}}" and may use
+ * any single-line template field. An empty `value` matches every note.
+ */
+export interface FolderRule {
+  field: FolderRuleField;
+  value: string;
+  folder: string;
+}
+
+/** Rule fields with labels for the settings UI. */
+export const FOLDER_RULE_FIELDS: Record<FolderRuleField, string> = {
+  noteType: "Note type is",
+  origin: "Origin is",
+  entryType: "Entry type is",
+  tag: "Has tag",
+  created: "Created in (YYYY, YYYY-MM or YYYY-MM-DD)",
+};
+
+/** Shorthand date tokens: {{YYYY}} → {{created:YYYY}}, etc. */
+export function expandFolderPattern(pattern: string): string {
+  return pattern.replace(/\{\{\s*(YYYY|YY|MM|M|DD|D)\s*\}\}/g, "{{created:$1}}");
+}
+
+/** Whether a rule applies to a note. Text comparisons ignore case. */
+export function ruleMatches(rule: FolderRule, note: RawNote): boolean {
+  const value = rule.value.trim().toLowerCase();
+  if (!value) return true;
+
+  switch (rule.field) {
+    case "noteType":
+      return (note.noteType ?? "").toLowerCase() === value;
+    case "origin":
+      return (note.origin ?? "").toLowerCase() === value;
+    case "entryType":
+      return (note.entryType ?? "").toLowerCase() === value;
+    case "tag": {
+      const tag = value.replace(/^#/, "");
+      return note.tags.some((t) => t.toLowerCase() === tag);
+    }
+    case "created":
+      // Prefix match on the local creation date: "2024" matches all of 2024
+      return formatDate(note.createdAt, "YYYY-MM-DD").startsWith(value);
+  }
+}
+
+/**
+ * Folder for a new note: the pattern of the first matching rule, rendered and
+ * sanitized segment by segment, or `fallback` when no rule matches.
+ * Throws TemplateError if the matching rule's pattern is malformed.
+ */
+export function resolveFolder(note: RawNote, rules: FolderRule[], fallback: string): string {
+  const rule = rules.find((r) => ruleMatches(r, note));
+  if (!rule) return normalizePath(fallback);
+
+  const rendered = renderTemplate(expandFolderPattern(rule.folder), noteTemplateContext(note));
+  const segments = rendered
+    .split("/")
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0)
+    .map((segment) => sanitizeFilename(segment));
+  return segments.length > 0 ? normalizePath(segments.join("/")) : normalizePath(fallback);
+}
+
+/** Returns the error message for an unusable rule, or null if it is valid. */
+export function validateFolderRule(rule: FolderRule): string | null {
+  if (!(rule.field in FOLDER_RULE_FIELDS)) return `Unknown rule field "${rule.field}"`;
+  if (!rule.folder.trim()) return "Folder is empty";
+  return validateFilenameTemplate(expandFolderPattern(rule.folder));
+}
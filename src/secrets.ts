@@ -0,0 +1,243 @@
+// INPUT: vault.ts (FileAdapter), Web Crypto (crypto.subtle)
+// OUTPUT: ProfileSecrets, EMPTY_SECRETS, SecretsFile, SecretStore, WrongPassphraseError, MIN_PASSPHRASE_LENGTH
+// POS: Secret storage — refresh and access tokens per account, kept out of data.json and optionally encrypted
+
+import type { FileAdapter } from "./vault";
+
+/** The secrets of one account profile, keyed by profile id in the store. */
+export interface ProfileSecrets {
+  refreshToken: string;
+  accessToken: string; // Cached JWT obtained with refreshToken, see JwtCache
+}
+
+export const EMPTY_SECRETS: ProfileSecrets = { refreshToken: "", accessToken: "" };
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// PBKDF2-SHA-256 rounds for new passphrases; stored with the file so it can be raised later
+const PBKDF2_ITERATIONS = 310000;
+
+/**
+ * The secrets file. Plain: the secrets as JSON. Encrypted: AES-GCM over the
+ * same JSON, with a key derived from the passphrase by PBKDF2; salt, IV and
+ * ciphertext are base64.
+ */
+export type SecretsFile =
+  | { version: 1; encrypted: false; secrets: Record<string, ProfileSecrets> }
+  | { version: 1; encrypted: true; iterations: number; salt: string; iv: string; data: string };
+
+/** Thrown by unlock when the passphrase does not decrypt the file. */
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("Wrong passphrase");
+    this.name = "WrongPassphraseError";
+  }
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  let binary = "";
+  new Uint8Array(buffer).forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+function fromBase64(text: string): ArrayBuffer {
+  const binary = atob(text);
+  const buffer = new ArrayBuffer(binary.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return buffer;
+}
+
+function randomBytes(length: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(length);
+  crypto.getRandomValues(new Uint8Array(buffer));
+  return buffer;
+}
+
+async function deriveKey(passphrase: string, salt: ArrayBuffer, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/**
+ * Tokens of every account profile, stored in their own file next to the
+ * plugin instead of data.json, so settings exports, copies of data.json and
+ * vault backups of it never contain them.
+ *
+ * With a passphrase set, the file is encrypted and the store starts locked:
+ * nothing can be read or saved until unlock() succeeds. The derived key stays
+ * in memory for the session, so later saves do not ask again.
+ * Tokens handed to adopt() while locked are merged in on unlock.
+ */
+export class SecretStore {
+  private secrets: Record<string, ProfileSecrets> = {};
+  private encrypted = false;
+  private key: CryptoKey | null = null; // Set while an encrypted store is unlocked
+  private salt: ArrayBuffer | null = null;
+  private iterations = PBKDF2_ITERATIONS;
+  private locked = false;
+  private pending: Record<string, ProfileSecrets> = {}; // Adopted while locked
+  private loaded = false;
+  private dirty = false;
+
+  constructor(
+    private adapter: FileAdapter,
+    private path: string,
+  ) {}
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+    if (!(await this.adapter.exists(this.path))) return;
+    let file: SecretsFile;
+    try {
+      file = JSON.parse(await this.adapter.read(this.path));
+    } catch (err) {
+      // A corrupt file only costs logging in again
+      console.error("Failed to read secrets, starting without tokens:", err);
+      return;
+    }
+    if (file.encrypted) {
+      this.encrypted = true;
+      this.locked = true;
+      this.iterations = file.iterations;
+      this.salt = fromBase64(file.salt);
+    } else {
+      this.secrets = file.secrets ?? {};
+    }
+  }
+
+  /** True when a passphrase is set. */
+  get isEncrypted(): boolean {
+    return this.encrypted;
+  }
+
+  /** True until an encrypted store is unlocked; tokens read as empty meanwhile. */
+  get isLocked(): boolean {
+    return this.locked;
+  }
+
+  get(profileId: string): ProfileSecrets {
+    return this.secrets[profileId] ?? EMPTY_SECRETS;
+  }
+
+  /** Update the secrets of a profile. Ignored while locked, which the UI prevents. */
+  set(profileId: string, update: Partial<ProfileSecrets>): void {
+    if (this.locked) return;
+    this.secrets[profileId] = { ...this.get(profileId), ...update };
+    this.dirty = true;
+  }
+
+  delete(profileId: string): void {
+    if (this.locked || !(profileId in this.secrets)) return;
+    delete this.secrets[profileId];
+    this.dirty = true;
+  }
+
+  /**
+   * Take over tokens found elsewhere (e.g. in data.json of older versions).
+   * Only fills profiles without a refresh token; applied on unlock when locked.
+   */
+  adopt(found: Record<string, ProfileSecrets>): void {
+    if (this.locked) {
+      this.pending = { ...this.pending, ...found };
+      return;
+    }
+    for (const [profileId, secrets] of Object.entries(found)) {
+      if (!this.get(profileId).refreshToken) this.set(profileId, secrets);
+    }
+  }
+
+  /** Decrypt the file with `passphrase`. Throws WrongPassphraseError. */
+  async unlock(passphrase: string): Promise<void> {
+    if (!this.locked || !this.encrypted || !this.salt) return;
+    const file: SecretsFile = JSON.parse(await this.adapter.read(this.path));
+    if (!file.encrypted) return;
+    const key = await deriveKey(passphrase, this.salt, this.iterations);
+    let plain: ArrayBuffer;
+    try {
+      plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(file.iv) }, key, fromBase64(file.data));
+    } catch {
+      throw new WrongPassphraseError();
+    }
+    this.secrets = JSON.parse(new TextDecoder().decode(plain));
+    this.key = key;
+    this.locked = false;
+    this.adopt(this.pending);
+    this.pending = {};
+    await this.save();
+  }
+
+  /** Encrypt the store with a new passphrase (also to change it). Must be unlocked. */
+  async setPassphrase(passphrase: string): Promise<void> {
+    if (this.locked) throw new Error("Unlock the tokens first");
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must have at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    this.salt = randomBytes(16);
+    this.iterations = PBKDF2_ITERATIONS;
+    this.key = await deriveKey(passphrase, this.salt, this.iterations);
+    this.encrypted = true;
+    this.dirty = true;
+    await this.save();
+  }
+
+  /** Store the secrets unencrypted again. Must be unlocked. */
+  async removePassphrase(): Promise<void> {
+    if (this.locked) throw new Error("Unlock the tokens first");
+    this.encrypted = false;
+    this.key = null;
+    this.salt = null;
+    this.dirty = true;
+    await this.save();
+  }
+
+  /** Drop every token and the encryption, e.g. after the passphrase was forgotten. */
+  async reset(): Promise<void> {
+    this.secrets = {};
+    this.pending = {};
+    this.encrypted = false;
+    this.locked = false;
+    this.key = null;
+    this.salt = null;
+    this.dirty = true;
+    await this.save();
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty || this.locked) return;
+    let file: SecretsFile;
+    if (this.encrypted && this.key && this.salt) {
+      const iv = randomBytes(12);
+      const data = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        this.key,
+        new TextEncoder().encode(JSON.stringify(this.secrets)),
+      );
+      file = {
+        version: 1,
+        encrypted: true,
+        iterations: this.iterations,
+        salt: toBase64(this.salt),
+        iv: toBase64(iv),
+        data: toBase64(data),
+      };
+    } else {
+      file = { version: 1, encrypted: false, secrets: this.secrets };
+    }
+    await this.adapter.write(this.path, JSON.stringify(file));
+    this.dirty = false;
+  }
+}
@@ -0,0 +1,57 @@
+// INPUT: template.ts (default templates), conflict.ts (ConflictPolicy),
+//        deletions.ts (DeletionPolicy), history.ts (SyncRunRecord), retry-queue.ts (DEFAULT_MAX_RETRY_ATTEMPTS),
+//        profiles.ts (AccountProfile, createProfile, DEFAULT_PROFILE_ID)
+// OUTPUT: BijiSyncSettings, SyncCheckpoint interfaces, DEFAULT_SETTINGS
+// POS: Settings schema — what data.json holds, shared by the plugin and the command line
+
+import type { ConflictPolicy } from "./conflict";
+import type { DeletionPolicy } from "./deletions";
+import { DEFAULT_FILENAME_TEMPLATE, DEFAULT_NOTE_TEMPLATE } from "./template";
+import type { SyncRunRecord } from "./history";
+import { DEFAULT_MAX_RETRY_ATTEMPTS } from "./retry-queue";
+import { DEFAULT_PROFILE_ID, createProfile } from "./profiles";
+import type { AccountProfile } from "./profiles";
+
+/**
+ * Progress of a sync run that has not closed the gap to lastSyncId yet.
+ * Persisted after every page so a cancelled or crashed run can resume.
+ */
+export interface SyncCheckpoint {
+  targetId: string; // newest note of the interrupted run; promoted to lastSyncId once done
+  sinceId: string; // oldest note processed so far; next run resumes paging from here
+  stopId: string | null; // lastSyncId the run was walking toward (null = walk to the end)
+}
+
+export interface BijiSyncSettings {
+  profiles: AccountProfile[]; // One per Get笔记 account, synced one after another
+  filenameTemplate: string;
+  conflictPolicy: ConflictPolicy;
+  deletionPolicy: DeletionPolicy;
+  archiveFolder: string;
+  reconcileDeletionsOnAutoSync: boolean;
+  checkEditsOnAutoSync: boolean;
+  backfillOriginalsOnAutoSync: boolean;
+  downloadAttachments: boolean;
+  attachmentFolder: string;
+  maxAttachmentSizeMB: number;
+  noteTemplate: string;
+  syncHistory: SyncRunRecord[];
+  maxRetryAttempts: number;
+}
+
+export const DEFAULT_SETTINGS: BijiSyncSettings = {
+  profiles: [createProfile(DEFAULT_PROFILE_ID, "Default")],
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  conflictPolicy: "conflict-file",
+  deletionPolicy: "off",
+  archiveFolder: "Get笔记/Archive",
+  reconcileDeletionsOnAutoSync: false,
+  checkEditsOnAutoSync: true,
+  backfillOriginalsOnAutoSync: false,
+  downloadAttachments: true,
+  attachmentFolder: "Get笔记/attachments",
+  maxAttachmentSizeMB: 20,
+  noteTemplate: DEFAULT_NOTE_TEMPLATE,
+  syncHistory: [],
+  maxRetryAttempts: DEFAULT_MAX_RETRY_ATTEMPTS,
+};
@@ -1,30 +1,57 @@
-// INPUT: obsidian (PluginSettingTab, Setting, Notice, App), main.ts (BijiSyncPlugin)
-// OUTPUT: BijiSyncSettings interface, DEFAULT_SETTINGS, BijiSyncSettingTab
-// POS: Configuration layer — defines plugin settings schema and settings UI
+// INPUT: obsidian (PluginSettingTab, Setting, Notice, App), main.ts (BijiSyncPlugin), markdown.ts (buildMarkdown, noteFilename),
+//        auth.ts (refreshTokenExpiry, describeTokenLifetime),
+//        template.ts (default templates, TEMPLATE_FIELDS, validateTemplate, validateFilenameTemplate),
+//        routing.ts (FolderRule, FOLDER_RULE_FIELDS, validateFolderRule), filters.ts (SyncFilter, previewSyncFilter, sameSyncFilter),
+//        history.ts (SyncRunRecord), retry-queue.ts (retry defaults and helpers),
+//        profiles.ts (AccountProfile, createProfile, profileId, DEFAULT_PROFILE_ID), diagnostics.ts (testConnection),
+//        passphrase-modal.ts (PassphraseModal)
+// OUTPUT: BijiSyncSettingTab
+// POS: Configuration layer — settings UI (the schema is in settings-schema.ts)
 
 import { App, Notice, PluginSettingTab, Setting } from "obsidian";
 import type BijiSyncPlugin from "./main";
+import type { ConflictPolicy } from "./conflict";
+import type { DeletionPolicy } from "./deletions";
+import { buildMarkdown, noteFilename } from "./markdown";
+import { describeTokenLifetime, refreshTokenExpiry } from "./auth";
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  DEFAULT_NOTE_TEMPLATE,
+  TEMPLATE_FIELDS,
+  validateFilenameTemplate,
+  validateTemplate,
+} from "./template";
+import { FOLDER_RULE_FIELDS, validateFolderRule } from "./routing";
+import type { FolderRule, FolderRuleField } from "./routing";
+import { previewSyncFilter, sameSyncFilter } from "./filters";
+import type { SyncFilter } from "./filters";
+import type { SyncRunRecord } from "./history";
+import { DEFAULT_MAX_RETRY_ATTEMPTS, dequeueRetry, givenUpRetries } from "./retry-queue";
+import { DEFAULT_PROFILE_ID, createProfile, profileId } from "./profiles";
+import type { AccountProfile } from "./profiles";
+import type { RawNote } from "./types";
+import { testConnection } from "./diagnostics";
+import { PassphraseModal } from "./passphrase-modal";
 
-export interface BijiSyncSettings {
-  refreshToken: string;
-  targetFolder: string;
-  lastSyncId: string | null;
-  lastSyncTime: number | null;
-  autoSyncEnabled: boolean;
-  autoSyncInterval: number;
-}
-
-export const DEFAULT_SETTINGS: BijiSyncSettings = {
-  refreshToken: "",
-  targetFolder: "Get笔记",
-  lastSyncId: null,
-  lastSyncTime: null,
-  autoSyncEnabled: false,
-  autoSyncInterval: 30,
+// Sample note rendered by the template preview in settings
+const PREVIEW_NOTE: RawNote = {
+  id: "preview-note",
+  title: "示例笔记",
+  content: "这是笔记的 **正文**。\n\n- 要点一\n- 要点二",
+  tags: ["读书", "AI"],
+  createdAt: "2024-05-01T09:30:00Z",
+  updatedAt: "2024-05-02T18:00:00Z",
+  sourceUrl: "https://example.com/article",
+  noteType: "link",
+  entryType: "ai",
+  origin: "web",
+  originalContent: "原文第一段。\n\n原文第二段。",
+  embeds: ["Get笔记/attachments/photo-1a2b3c4d5e6f7a8b.jpg"],
 };
 
 export class BijiSyncSettingTab extends PluginSettingTab {
   plugin: BijiSyncPlugin;
+  private profileId: string | null = null; // Account whose settings are shown
 
   constructor(app: App, plugin: BijiSyncPlugin) {
     super(app, plugin);
@@ -37,23 +64,61 @@ export class BijiSyncSettingTab extends PluginSettingTab {
 
     new Setting(containerEl).setName("Get笔记 sync settings").setHeading();
 
-    // Refresh token input (password field)
-    new Setting(containerEl)
-      .setName("Refresh token")
-      .setDesc(
-        "浏览器打开 biji.com → F12 → Application → Local Storage → www.biji.com → refresh_token"
-      )
-      .addText((text) => {
-        text.inputEl.type = "password";
-        text.inputEl.addClass("getbiji-token-input");
-        text
-          .setPlaceholder("Enter refresh token")
-          .setValue(this.plugin.settings.refreshToken)
-          .onChange(async (value) => {
-            this.plugin.settings.refreshToken = value.trim();
-            await this.plugin.saveSettings();
-          });
-      });
+    const profile = this.displayAccounts(containerEl);
+
+    // Refresh token input (password field); encrypted tokens must be unlocked first
+    const { secrets } = this.plugin;
+    if (secrets.isLocked) {
+      new Setting(containerEl)
+        .setName("Refresh token")
+        .setDesc("Encrypted with your passphrase and locked until you unlock it for this session")
+        .addButton((button) =>
+          button.setButtonText("Unlock").onClick(async () => {
+            if (await this.plugin.unlockSecrets()) this.display();
+          })
+        );
+    } else {
+      new Setting(containerEl)
+        .setName("Refresh token")
+        .setDesc(
+          "Log in with your phone number, or paste it from biji.com: F12 → Application → Local Storage → www.biji.com → refresh_token"
+        )
+        .addText((text) => {
+          text.inputEl.type = "password";
+          text.inputEl.addClass("getbiji-token-input");
+          text
+            .setPlaceholder("Enter refresh token")
+            .setValue(secrets.get(profile.id).refreshToken)
+            .onChange(async (value) => {
+              secrets.set(profile.id, { refreshToken: value.trim() });
+              profile.refreshTokenExpiresAt = null;
+              // The cached JWT belongs to the previous token
+              this.plugin.tokenCache(profile).clear();
+              await this.plugin.saveSettings();
+            });
+        })
+        .addButton((button) =>
+          button.setButtonText("Log in").onClick(() => {
+            void this.plugin.openLogin(profile, () => this.display());
+          })
+        );
+    }
+
+    // Remaining lifetime of the refresh token, when the server reported it or the token is a JWT
+    const tokenExpiresAt = refreshTokenExpiry(
+      secrets.get(profile.id).refreshToken,
+      profile.refreshTokenExpiresAt
+    );
+    if (tokenExpiresAt !== null) {
+      new Setting(containerEl)
+        .setName("Refresh token lifetime")
+        .setDesc(
+          `${describeTokenLifetime(tokenExpiresAt)} (${new Date(tokenExpiresAt).toLocaleString()}). ` +
+            "Rotated tokens issued by Get笔记 are saved automatically."
+        );
+    }
+
+    this.displayConnectionTest(containerEl, profile);
 
     // Target folder input
     new Setting(containerEl)
@@ -62,22 +127,25 @@ export class BijiSyncSettingTab extends PluginSettingTab {
       .addText((text) =>
         text
           .setPlaceholder("Get笔记")
-          .setValue(this.plugin.settings.targetFolder)
+          .setValue(profile.targetFolder)
           .onChange(async (value) => {
-            this.plugin.settings.targetFolder = value;
+            profile.targetFolder = value;
             await this.plugin.saveSettings();
           })
       );
 
+    this.displayFolderRules(containerEl, profile);
+    this.displaySyncFilter(containerEl, profile);
+
     // Auto sync toggle
     new Setting(containerEl)
       .setName("Auto sync")
       .setDesc("Automatically sync at regular intervals")
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.autoSyncEnabled)
+          .setValue(profile.autoSyncEnabled)
           .onChange(async (value) => {
-            this.plugin.settings.autoSyncEnabled = value;
+            profile.autoSyncEnabled = value;
             await this.plugin.saveSettings();
             this.plugin.onAutoSyncSettingsChanged();
             this.display(); // Re-render to update dropdown disabled state
@@ -97,17 +165,19 @@ export class BijiSyncSettingTab extends PluginSettingTab {
             "60": "1 hour",
             "120": "2 hours",
           })
-          .setValue(String(this.plugin.settings.autoSyncInterval))
-          .setDisabled(!this.plugin.settings.autoSyncEnabled)
+          .setValue(String(profile.autoSyncInterval))
+          .setDisabled(!profile.autoSyncEnabled)
           .onChange(async (value) => {
-            this.plugin.settings.autoSyncInterval = Number(value);
+            profile.autoSyncInterval = Number(value);
             await this.plugin.saveSettings();
             this.plugin.onAutoSyncSettingsChanged();
           });
       });
 
+    this.displayRetryQueue(containerEl, profile);
+
     // Last sync time (read-only display)
-    const lastSyncTime = this.plugin.settings.lastSyncTime;
+    const lastSyncTime = profile.lastSyncTime;
     const formattedTime = lastSyncTime
       ? new Date(lastSyncTime).toLocaleString()
       : "从未同步";
@@ -122,7 +192,8 @@ export class BijiSyncSettingTab extends PluginSettingTab {
       .setDesc("Clear sync cursor so next sync fetches all notes")
       .addButton((button) =>
         button.setButtonText("Reset").onClick(async () => {
-          this.plugin.settings.lastSyncId = null;
+          profile.lastSyncId = null;
+          profile.syncCheckpoint = null;
           await this.plugin.saveSettings();
           new Notice(
             "Sync state reset, next sync will fetch all notes"
@@ -130,5 +201,647 @@ export class BijiSyncSettingTab extends PluginSettingTab {
           this.display(); // Refresh the settings pane
         })
       );
+
+    new Setting(containerEl).setName("All accounts").setHeading();
+
+    this.displayEncryption(containerEl);
+
+    // File name template input, validated on every change
+    const describeFilename = (template: string): string => {
+      const error = validateFilenameTemplate(template);
+      return error
+        ? `⚠ ${error}`
+        : `e.g. {{created:YYYY-MM-DD}} {{title}}, {{id}}, {{note_type}}. Preview: ${noteFilename(PREVIEW_NOTE, template)}.md`;
+    };
+    const filenameSetting = new Setting(containerEl)
+      .setName("File name template")
+      .setDesc(describeFilename(this.plugin.settings.filenameTemplate))
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_FILENAME_TEMPLATE)
+          .setValue(this.plugin.settings.filenameTemplate)
+          .onChange(async (value) => {
+            filenameSetting.setDesc(describeFilename(value));
+            // Only valid templates are saved; sync keeps using the last valid one
+            if (validateFilenameTemplate(value)) return;
+            this.plugin.settings.filenameTemplate = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Attachment download toggle
+    new Setting(containerEl)
+      .setName("Download attachments")
+      .setDesc("Save images, audio and files into the vault and embed them in notes")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.downloadAttachments)
+          .onChange(async (value) => {
+            this.plugin.settings.downloadAttachments = value;
+            await this.plugin.saveSettings();
+            this.display(); // Re-render to show/hide dependent settings
+          })
+      );
+
+    if (this.plugin.settings.downloadAttachments) {
+      new Setting(containerEl)
+        .setName("Attachment folder")
+        .setDesc("Folder where downloaded attachments are saved")
+        .addText((text) =>
+          text
+            .setPlaceholder("Get笔记/attachments")
+            .setValue(this.plugin.settings.attachmentFolder)
+            .onChange(async (value) => {
+              this.plugin.settings.attachmentFolder = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName("Max attachment size (MB)")
+        .setDesc("Larger attachments are skipped")
+        .addText((text) =>
+          text
+            .setPlaceholder("20")
+            .setValue(String(this.plugin.settings.maxAttachmentSizeMB))
+            .onChange(async (value) => {
+              const size = Number(value);
+              if (!Number.isFinite(size) || size <= 0) return;
+              this.plugin.settings.maxAttachmentSizeMB = size;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // Daily full scan so auto sync also picks up notes edited after their import
+    new Setting(containerEl)
+      .setName("Check for Get笔记 edits during auto sync")
+      .setDesc(
+        "Once a day, auto sync scans all notes, not just new ones, and rewrites notes edited in Get笔记 since they were synced"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.checkEditsOnAutoSync)
+          .onChange(async (value) => {
+            this.plugin.settings.checkEditsOnAutoSync = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Conflict policy dropdown
+    new Setting(containerEl)
+      .setName("When both copies changed")
+      .setDesc(
+        "What to do when a note was edited in the vault and also changed in Get笔记"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            "conflict-file": "Write a (conflict) copy next to it",
+            "keep-local": "Keep the vault copy",
+            "take-remote": "Take the Get笔记 version",
+            merge: "Merge line by line (conflict copy if overlapping)",
+          })
+          .setValue(this.plugin.settings.conflictPolicy)
+          .onChange(async (value) => {
+            this.plugin.settings.conflictPolicy = value as ConflictPolicy;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Deletion policy dropdown
+    new Setting(containerEl)
+      .setName("Notes deleted in Get笔记")
+      .setDesc(
+        "Checked on full scans (\"Full scan Get笔记\" command)"
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            off: "Do nothing",
+            archive: "Move to archive folder",
+            trash: "Move to Obsidian trash",
+            tag: "Mark with biji_deleted: true",
+          })
+          .setValue(this.plugin.settings.deletionPolicy)
+          .onChange(async (value) => {
+            this.plugin.settings.deletionPolicy = value as DeletionPolicy;
+            await this.plugin.saveSettings();
+            this.display(); // Re-render to show/hide dependent settings
+          })
+      );
+
+    if (this.plugin.settings.deletionPolicy === "archive") {
+      new Setting(containerEl)
+        .setName("Archive folder")
+        .setDesc("Where notes deleted in Get笔记 are moved")
+        .addText((text) =>
+          text
+            .setPlaceholder("Get笔记/Archive")
+            .setValue(this.plugin.settings.archiveFolder)
+            .onChange(async (value) => {
+              this.plugin.settings.archiveFolder = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    if (this.plugin.settings.deletionPolicy !== "off") {
+      new Setting(containerEl)
+        .setName("Apply deletions during auto sync")
+        .setDesc(
+          "Once a day, auto sync scans all notes and applies deletions without asking"
+        )
+        .addToggle((toggle) =>
+          toggle
+            .setValue(this.plugin.settings.reconcileDeletionsOnAutoSync)
+            .onChange(async (value) => {
+              this.plugin.settings.reconcileDeletionsOnAutoSync = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // Link originals that were not ready at import time
+    new Setting(containerEl)
+      .setName("Fill in link originals during auto sync")
+      .setDesc(
+        "Link notes imported before their original article was available get it added later; " +
+          "also available as the \"Fill in missing Get笔记 link originals\" command"
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.backfillOriginalsOnAutoSync)
+          .onChange(async (value) => {
+            this.plugin.settings.backfillOriginalsOnAutoSync = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Note template editor with live preview
+    new Setting(containerEl)
+      .setName("Note template")
+      .setDesc(
+        `Layout of the note below the frontmatter. Fields: ${Object.keys(TEMPLATE_FIELDS)
+          .map((name) => `{{${name}}}`)
+          .join(" ")}. Blocks: {{#if field}}…{{else}}…{{/if}}, {{#each tags}}…{{this}}…{{/each}}.`
+      )
+      .addButton((button) =>
+        button.setButtonText("Restore default").onClick(async () => {
+          this.plugin.settings.noteTemplate = DEFAULT_NOTE_TEMPLATE;
+          await this.plugin.saveSettings();
+          this.display(); // Re-render the editor and preview
+        })
+      );
+
+    const templateInput = containerEl.createEl("textarea", {
+      cls: "getbiji-template-input",
+    });
+    templateInput.value = this.plugin.settings.noteTemplate;
+    templateInput.rows = 12;
+    const preview = containerEl.createEl("pre", { cls: "getbiji-template-preview" });
+
+    const updatePreview = (template: string): boolean => {
+      const error = validateTemplate(template);
+      preview.toggleClass("getbiji-template-error", error !== null);
+      preview.setText(error ? `Template error: ${error}` : buildMarkdown(PREVIEW_NOTE, template));
+      return error === null;
+    };
+    updatePreview(this.plugin.settings.noteTemplate);
+
+    templateInput.addEventListener("input", async () => {
+      // Only valid templates are saved; sync keeps using the last valid one
+      if (!updatePreview(templateInput.value)) return;
+      this.plugin.settings.noteTemplate = templateInput.value;
+      await this.plugin.saveSettings();
+    });
+
+    // Shared retry limit
+    new Setting(containerEl)
+      .setName("Retry attempts")
+      .setDesc(
+        "Notes that fail to sync are retried by later syncs (after 5 min, 10 min, 20 min, ...) until this many attempts have failed"
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(String(DEFAULT_MAX_RETRY_ATTEMPTS))
+          .setValue(String(this.plugin.settings.maxRetryAttempts))
+          .onChange(async (value) => {
+            const attempts = Number(value);
+            if (!Number.isInteger(attempts) || attempts < 1) return;
+            this.plugin.settings.maxRetryAttempts = attempts;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  /** The profile being edited: the one picked in the account selector, else the first. */
+  private selectedProfile(): AccountProfile {
+    const { profiles } = this.plugin.settings;
+    return profiles.find((p) => p.id === this.profileId) ?? profiles[0];
+  }
+
+  /**
+   * Account selector with rename, add and remove; returns the profile whose
+   * settings are shown below it. The profile list is replaced (not mutated)
+   * so DEFAULT_SETTINGS stays intact.
+   */
+  private displayAccounts(containerEl: HTMLElement): AccountProfile {
+    const profile = this.selectedProfile();
+    const { profiles } = this.plugin.settings;
+
+    new Setting(containerEl)
+      .setName("Account")
+      .setDesc(
+        `Each Get笔记 account has its own token, folder, filters and schedule. ` +
+          `Its notes are marked with biji_account: "${profile.id}" in their frontmatter.`
+      )
+      .addDropdown((dropdown) => {
+        for (const p of profiles) dropdown.addOption(p.id, p.name);
+        dropdown.setValue(profile.id).onChange((value) => {
+          this.profileId = value;
+          this.display();
+        });
+      })
+      .addText((text) =>
+        text
+          .setPlaceholder("Account name")
+          .setValue(profile.name)
+          .onChange(async (value) => {
+            if (!value.trim()) return;
+            profile.name = value.trim();
+            await this.plugin.saveSettings();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip("Remove account (its notes stay in the vault)")
+          .setDisabled(profiles.length === 1)
+          .onClick(async () => {
+            if (profiles.length === 1) return;
+            this.plugin.settings.profiles = profiles.filter((p) => p !== profile);
+            this.plugin.secrets.delete(profile.id);
+            this.profileId = null;
+            await this.plugin.saveSettings();
+            this.plugin.onAutoSyncSettingsChanged();
+            this.display();
+          })
+      );
+
+    let newName = "";
+    new Setting(containerEl)
+      .setName("Add account")
+      .setDesc("Sync another Get笔记 account into its own folder")
+      .addText((text) =>
+        text.setPlaceholder("e.g. Work").onChange((value) => {
+          newName = value.trim();
+        })
+      )
+      .addButton((button) =>
+        button.setButtonText("Add").onClick(async () => {
+          if (!newName) {
+            new Notice("Enter a name for the account");
+            return;
+          }
+          const id = profileId(newName, profiles.map((p) => p.id));
+          const added = createProfile(id, newName, { targetFolder: `Get笔记/${newName}` });
+          this.plugin.settings.profiles = [...profiles, added];
+          this.profileId = id;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    return profile;
+  }
+
+  /**
+   * Notes of the account given up on after the retry limit, each with a manual retry.
+   * The queue is replaced (not mutated) so DEFAULT_SETTINGS stays intact.
+   */
+  private displayRetryQueue(containerEl: HTMLElement, profile: AccountProfile): void {
+    const { maxRetryAttempts } = this.plugin.settings;
+    const givenUp = givenUpRetries(profile.retryQueue, maxRetryAttempts);
+    const waiting = profile.retryQueue.length - givenUp.length;
+    if (waiting > 0) {
+      new Setting(containerEl)
+        .setName("Waiting for a retry")
+        .setDesc(`${waiting} notes failed to sync and will be retried by later syncs`);
+    }
+
+    for (const entry of givenUp) {
+      new Setting(containerEl)
+        .setName(`Failed: ${entry.title || entry.noteId}`)
+        .setDesc(`${entry.attempts} attempts, last error: ${entry.lastError}`)
+        .addButton((button) =>
+          button.setButtonText("Retry").onClick(async () => {
+            await this.plugin.triggerSync({ profileId: profile.id, noteIds: [entry.noteId] });
+            this.display();
+          })
+        )
+        .addButton((button) =>
+          button.setButtonText("Forget").onClick(async () => {
+            profile.retryQueue = dequeueRetry(profile.retryQueue, entry.noteId);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+        );
+    }
+  }
+
+  /**
+   * Ordered folder routing rules of an account: the first rule matching a new
+   * note decides its folder. Rules are replaced (not mutated) so profile defaults stay intact.
+   */
+  private displayFolderRules(containerEl: HTMLElement, profile: AccountProfile): void {
+    const rules = profile.folderRules;
+    const current = () => profile.folderRules;
+    const saveRules = async (next: FolderRule[], rerender: boolean) => {
+      profile.folderRules = next;
+      await this.plugin.saveSettings();
+      if (rerender) this.display();
+    };
+
+    new Setting(containerEl)
+      .setName("Folder rules")
+      .setDesc(
+        "New notes go to the folder of the first matching rule, or the target folder if none matches. " +
+          "Folders are vault paths and may use {{YYYY}}, {{MM}}, {{DD}} and template fields, e.g. Get笔记/{{YYYY}}/{{MM}}. " +
+          "An empty value matches every note."
+      )
+      .addButton((button) =>
+        button.setButtonText("Add rule").onClick(async () => {
+          const rule: FolderRule = { field: "noteType", value: "", folder: profile.targetFolder };
+          await saveRules([...current(), rule], true);
+        })
+      );
+
+    rules.forEach((rule, index) => {
+      const update = async (patch: Partial<FolderRule>) => {
+        const next = current().slice();
+        next[index] = { ...next[index], ...patch };
+        await saveRules(next, false);
+      };
+      const move = async (offset: number) => {
+        const next = current().slice();
+        const [moved] = next.splice(index, 1);
+        next.splice(index + offset, 0, moved);
+        await saveRules(next, true);
+      };
+
+      const error = validateFolderRule(rule);
+      const setting = new Setting(containerEl)
+        .setName(`Rule ${index + 1}`)
+        .setDesc(error ? `⚠ ${error}` : "")
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(FOLDER_RULE_FIELDS)
+            .setValue(rule.field)
+            .onChange(async (value) => {
+              await update({ field: value as FolderRuleField });
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("value (empty = any)")
+            .setValue(rule.value)
+            .onChange(async (value) => {
+              await update({ value });
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Get笔记/{{YYYY}}")
+            .setValue(rule.folder)
+            .onChange(async (value) => {
+              await update({ folder: value });
+              const folderError = validateFolderRule(current()[index]);
+              setting.setDesc(folderError ? `⚠ ${folderError}` : "");
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-up")
+            .setTooltip("Move up")
+            .setDisabled(index === 0)
+            .onClick(() => move(-1))
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-down")
+            .setTooltip("Move down")
+            .setDisabled(index === rules.length - 1)
+            .onClick(() => move(1))
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete rule")
+            .onClick(() => saveRules(current().filter((_, i) => i !== index), true))
+        );
+    });
+  }
+
+  /** Passphrase encryption of the token file: set, change, remove or forget. */
+  private displayEncryption(containerEl: HTMLElement): void {
+    const { secrets } = this.plugin;
+    const setting = new Setting(containerEl).setName("Encrypt tokens");
+    const setPassphrase = () =>
+      new PassphraseModal(
+        this.app,
+        "set",
+        (passphrase) => secrets.setPassphrase(passphrase),
+        (submitted) => {
+          if (submitted) this.display();
+        }
+      ).open();
+
+    if (!secrets.isEncrypted) {
+      setting
+        .setDesc(
+          "Tokens are kept in secrets.json next to the plugin, never in data.json. " +
+            "Set a passphrase to also encrypt them there (AES-GCM); it is asked once per session."
+        )
+        .addButton((button) => button.setButtonText("Set passphrase").onClick(setPassphrase));
+    } else if (secrets.isLocked) {
+      setting
+        .setDesc(
+          "Tokens are encrypted and locked. Unlock them to sync or change the encryption. " +
+            "Forgot the passphrase? Forget the tokens and log in again."
+        )
+        .addButton((button) =>
+          button.setButtonText("Unlock").onClick(async () => {
+            if (await this.plugin.unlockSecrets()) this.display();
+          })
+        )
+        .addButton((button) =>
+          button
+            .setButtonText("Forget tokens")
+            .setWarning()
+            .onClick(async () => {
+              await secrets.reset();
+              this.display();
+            })
+        );
+    } else {
+      setting
+        .setDesc("Tokens are encrypted with your passphrase and unlocked for this session.")
+        .addButton((button) => button.setButtonText("Change passphrase").onClick(setPassphrase))
+        .addButton((button) =>
+          button
+            .setButtonText("Remove encryption")
+            .setWarning()
+            .onClick(async () => {
+              await secrets.removePassphrase();
+              this.display();
+            })
+        );
+    }
+  }
+
+  private displayConnectionTest(containerEl: HTMLElement, profile: AccountProfile): void {
+    let resultEl: HTMLElement | null = null;
+    new Setting(containerEl)
+      .setName("Test connection")
+      .setDesc("Check the refresh token, the access token it yields and one page of notes")
+      .addButton((button) =>
+        button.setButtonText("Test").onClick(async () => {
+          if (!resultEl) return;
+          button.setDisabled(true);
+          resultEl.empty();
+          resultEl.createEl("p", { text: "Testing…" });
+          try {
+            const report = await testConnection(
+              this.plugin.transport,
+              this.plugin.secrets.get(profile.id).refreshToken,
+              this.plugin.tokenCache(profile)
+            );
+            resultEl.empty();
+            const list = resultEl.createEl("ul");
+            for (const step of report.steps) {
+              list.createEl("li", {
+                text: `${step.status === "ok" ? "✓" : "✗"} ${step.name}: ${step.detail}`,
+                cls: step.status === "ok" ? undefined : "getbiji-diagnostics-error",
+              });
+            }
+          } catch (err) {
+            // Shown as a failed step instead of leaving "Testing…" behind
+            resultEl.empty();
+            resultEl.createEl("ul").createEl("li", {
+              text: `✗ Connection test: ${err instanceof Error ? err.message : String(err)}`,
+              cls: "getbiji-diagnostics-error",
+            });
+          } finally {
+            button.setDisabled(false);
+          }
+        })
+      );
+    resultEl = containerEl.createDiv({ cls: "getbiji-diagnostics" });
+  }
+
+  /**
+   * Include/exclude lists per note field plus a creation date range.
+   * The filter object is replaced on change so DEFAULT_SYNC_FILTER stays intact.
+   */
+  private displaySyncFilter(containerEl: HTMLElement, profile: AccountProfile): void {
+    const saveFilter = async (patch: Partial<SyncFilter>) => {
+      const syncFilter = { ...profile.syncFilter, ...patch };
+      // Notes the old filter left out are behind the cursor: the next sync walks all notes
+      if (!sameSyncFilter(syncFilter, profile.syncFilter)) {
+        profile.lastSyncId = null;
+        profile.syncCheckpoint = null;
+      }
+      profile.syncFilter = syncFilter;
+      await this.plugin.saveSettings();
+    };
+    const parseList = (value: string) =>
+      value.split(/[,，]/).map((v) => v.trim()).filter((v) => v.length > 0);
+
+    new Setting(containerEl)
+      .setName("Sync filters")
+      .setDesc(
+        "Only sync matching notes. Lists are comma-separated; empty include lists allow everything, excludes always win. " +
+          "After a change the next sync looks at all notes again, so notes the old filter left out are imported."
+      )
+      .addButton((button) =>
+        button.setButtonText("Preview").onClick(async () => {
+          button.setDisabled(true);
+          try {
+            const { matched, filtered } = await previewSyncFilter(
+              this.plugin.transport,
+              this.plugin.secrets.get(profile.id).refreshToken,
+              profile.syncFilter,
+              this.plugin.tokenCache(profile)
+            );
+            const examples = filtered
+              .slice(0, 5)
+              .map(({ note, reason }) => `${note.title} (${reason})`)
+              .join("\n");
+            new Notice(
+              `Of the ${matched.length + filtered.length} most recent notes, ${matched.length} would be synced and ${filtered.length} filtered out` +
+                (examples ? `:\n${examples}` : ""),
+              10000
+            );
+          } catch (err) {
+            new Notice(`Filter preview failed: ${err instanceof Error ? err.message : String(err)}`);
+          } finally {
+            button.setDisabled(false);
+          }
+        })
+      );
+
+    const listFields: Array<[string, keyof SyncFilter, keyof SyncFilter, string]> = [
+      ["Tags", "includeTags", "excludeTags", "读书, 工作"],
+      ["Note types", "includeNoteTypes", "excludeNoteTypes", "plain_text, link"],
+      ["Entry types", "includeEntryTypes", "excludeEntryTypes", "ai, manual"],
+      ["Origins", "includeOrigins", "excludeOrigins", "app, wechat, web"],
+    ];
+    for (const [name, includeKey, excludeKey, example] of listFields) {
+      const filter = profile.syncFilter;
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(`Include / exclude, e.g. ${example}`)
+        .addText((text) =>
+          text
+            .setPlaceholder("include: any")
+            .setValue((filter[includeKey] as string[]).join(", "))
+            .onChange(async (value) => {
+              await saveFilter({ [includeKey]: parseList(value) });
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("exclude: none")
+            .setValue((filter[excludeKey] as string[]).join(", "))
+            .onChange(async (value) => {
+              await saveFilter({ [excludeKey]: parseList(value) });
+            })
+        );
+    }
+
+    // Only complete dates are saved: partial ones would compare wrongly as strings
+    const isDate = (value: string) => value === "" || /^\d{4}-\d{2}-\d{2}$/.test(value);
+    new Setting(containerEl)
+      .setName("Created between")
+      .setDesc("Inclusive YYYY-MM-DD bounds; leave empty for no limit")
+      .addText((text) =>
+        text
+          .setPlaceholder("from")
+          .setValue(profile.syncFilter.createdFrom)
+          .onChange(async (value) => {
+            if (!isDate(value.trim())) return;
+            await saveFilter({ createdFrom: value.trim() });
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("until")
+          .setValue(profile.syncFilter.createdUntil)
+          .onChange(async (value) => {
+            if (!isDate(value.trim())) return;
+            await saveFilter({ createdUntil: value.trim() });
+          })
+      );
   }
 }
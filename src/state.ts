@@ -0,0 +1,70 @@
+// INPUT: vault.ts (FileAdapter)
+// OUTPUT: NoteState, NoteStateStore
+// POS: Per-note sync state persisted next to the plugin (not in data.json)
+
+import type { FileAdapter } from "./vault";
+
+export interface NoteState {
+  hash: string; // hashContent of the generated part last written to the vault
+  base?: string; // last remote render, kept only for the "merge" conflict policy
+  missingOriginal?: boolean; // link note written without its 原文 original (see originals.ts)
+  handledRemote?: string; // remote updated_at of a conflict already resolved without rewriting the note
+}
+
+/**
+ * Per-note sync state, keyed by biji_id.
+ *
+ * Stored in its own JSON file rather than plugin settings: it grows with the
+ * number of synced notes and (for the merge policy) holds note bodies, which
+ * would otherwise be rewritten on every saveSettings call.
+ */
+export class NoteStateStore {
+  private states: Record<string, NoteState> = {};
+  private loaded = false;
+  private dirty = false;
+
+  constructor(
+    private adapter: FileAdapter,
+    private path: string,
+  ) {}
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    if (await this.adapter.exists(this.path)) {
+      try {
+        this.states = JSON.parse(await this.adapter.read(this.path)) ?? {};
+      } catch (err) {
+        // A corrupt state file only costs conflict detection, never notes
+        console.error("Failed to read sync state, starting fresh:", err);
+        this.states = {};
+      }
+    }
+    this.loaded = true;
+  }
+
+  get(bijiId: string): NoteState | null {
+    return this.states[bijiId] ?? null;
+  }
+
+  set(bijiId: string, state: NoteState): void {
+    this.states[bijiId] = state;
+    this.dirty = true;
+  }
+
+  /** Ids of the notes whose state matches `predicate`. */
+  idsWhere(predicate: (state: NoteState) => boolean): string[] {
+    return Object.keys(this.states).filter((id) => predicate(this.states[id]));
+  }
+
+  delete(bijiId: string): void {
+    if (!(bijiId in this.states)) return;
+    delete this.states[bijiId];
+    this.dirty = true;
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+    await this.adapter.write(this.path, JSON.stringify(this.states));
+    this.dirty = false;
+  }
+}
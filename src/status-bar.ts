@@ -0,0 +1,103 @@
+// INPUT: sync.ts (SyncProgress)
+// OUTPUT: SyncStatusBar, estimateRemaining, formatProgress
+// POS: Status bar item — idle / syncing / error state of the plugin, click to cancel or open the history
+
+import type { SyncProgress } from "./sync";
+
+/**
+ * Milliseconds left for the notes known to remain, at the average pace so far.
+ * Null until at least one note has been processed.
+ */
+export function estimateRemaining(progress: SyncProgress, elapsedMs: number): number | null {
+  if (progress.processed === 0) return null;
+  return (elapsedMs / progress.processed) * progress.remaining;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+}
+
+/**
+ * Status bar text for a running sync, e.g.
+ * "Get笔记: 120 notes · page 3 · 4 links pending · ~1m+ left".
+ * "+" marks estimates that only cover the current page.
+ */
+export function formatProgress(progress: SyncProgress, elapsedMs: number): string {
+  const parts: string[] = [];
+  switch (progress.phase) {
+    case "retry":
+      parts.push(`retrying ${progress.remaining} failed notes`);
+      break;
+    case "originals":
+      parts.push(`filling in ${progress.remaining} link originals`);
+      break;
+    case "pages":
+      parts.push(`${progress.processed} notes`, `page ${progress.pages}`);
+      if (progress.linkDetailsPending > 0) {
+        parts.push(`${progress.linkDetailsPending} links pending`);
+      }
+      break;
+  }
+  const eta = estimateRemaining(progress, elapsedMs);
+  if (eta !== null && progress.phase !== "originals") {
+    parts.push(`~${formatDuration(eta)}${progress.morePages ? "+" : ""} left`);
+  }
+  return `Get笔记: ${parts.join(" · ")}`;
+}
+
+/**
+ * The plugin's status bar item. Clicking it cancels a running sync, otherwise
+ * it opens the sync details (history view).
+ */
+export class SyncStatusBar {
+  private startedAt = 0;
+  private syncing = false;
+
+  constructor(
+    private el: HTMLElement,
+    actions: { cancel: () => void; openDetails: () => void },
+  ) {
+    el.addClass("getbiji-status-bar");
+    el.addEventListener("click", () => {
+      if (this.syncing) actions.cancel();
+      else actions.openDetails();
+    });
+  }
+
+  setIdle(lastSyncTime: number | null): void {
+    this.syncing = false;
+    this.el.removeClass("getbiji-status-error");
+    if (lastSyncTime === null) {
+      this.el.setText("Get笔记: never synced");
+      this.el.setAttr("aria-label", "Click for sync history");
+      return;
+    }
+    const time = new Date(lastSyncTime);
+    const sameDay = time.toDateString() === new Date().toDateString();
+    this.el.setText(
+      `Get笔记: synced ${sameDay ? time.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : time.toLocaleDateString()}`,
+    );
+    this.el.setAttr("aria-label", `Last sync ${time.toLocaleString()}. Click for sync history`);
+  }
+
+  start(): void {
+    this.syncing = true;
+    this.startedAt = Date.now();
+    this.el.removeClass("getbiji-status-error");
+    this.el.setText("Get笔记: syncing…");
+    this.el.setAttr("aria-label", "Click to cancel");
+  }
+
+  setProgress(progress: SyncProgress): void {
+    if (!this.syncing) return;
+    this.el.setText(formatProgress(progress, Date.now() - this.startedAt));
+  }
+
+  setError(message: string): void {
+    this.syncing = false;
+    this.el.addClass("getbiji-status-error");
+    this.el.setText("Get笔记: sync failed");
+    this.el.setAttr("aria-label", `${message}. Click for sync history`);
+  }
+}
@@ -1,17 +1,180 @@
-// INPUT: obsidian (Notice, TFile, TFolder, normalizePath), main.ts (BijiSyncPlugin), api.ts, auth.ts, markdown.ts
-// OUTPUT: syncBiji
+// INPUT: host.ts (SyncHost), vault.ts (VaultFile, normalizePath), api.ts, auth.ts, markdown.ts, conflict.ts,
+//        attachments.ts, deletions.ts, template.ts, routing.ts, filters.ts, writer.ts, history.ts, retry-queue.ts,
+//        originals.ts, profiles.ts,
+//        note-index.ts / state.ts / jwt-cache.ts / secrets.ts / transport.ts
+//        (via plugin.noteIndex / plugin.noteState / plugin.tokenCache / plugin.secrets / plugin.transport)
+// OUTPUT: syncBiji, SyncProgress
 // POS: Sync engine — orchestrates fetching notes from API and writing to vault
 
-import { Notice, TFile, TFolder, normalizePath } from "obsidian";
-import type BijiSyncPlugin from "./main";
-import { AuthFatalError, fetchNotes, fetchLinkDetail, DETAIL_DELAY } from "./api";
-import { refreshJwt, validateRefreshToken } from "./auth";
+import type { SyncHost } from "./host";
+import { normalizePath } from "./vault";
+import type { VaultFile } from "./vault";
+import type { BijiNote, RawNote } from "./types";
+import { AuthFatalError, fetchNotes, fetchNote, fetchLinkDetail, DETAIL_DELAY } from "./api";
+import { validateRefreshToken } from "./auth";
 import {
   bijiNoteToRawNote,
   buildMarkdown,
+  noteFilename,
   resolveFilename,
+  sanitizeFilename,
   cleanHtml,
+  isRemoteNewer,
+  mergeUserEdits,
+  stripUserEdits,
 } from "./markdown";
+import { conflictFilePath, hashContent, mergeLines } from "./conflict";
+import { DELETION_CHECK_INTERVAL, reconcileDeletions } from "./deletions";
+import { saveAttachments } from "./attachments";
+import { templateUsesField, validateFilenameTemplate, validateTemplate } from "./template";
+import { resolveFolder, validateFolderRule } from "./routing";
+import { filterNote } from "./filters";
+import { VaultWriter } from "./writer";
+import type { SyncRunRecord } from "./history";
+import { dequeueRetry, dueRetries, queueRetry } from "./retry-queue";
+import { backfillOriginals } from "./originals";
+import type { RenderNote } from "./originals";
+import type { AccountProfile } from "./profiles";
+
+const MAX_LISTED_PATHS = 5;
+
+// How often auto sync walks past the cursor to pick up notes edited in Get笔记
+const EDIT_CHECK_INTERVAL = 24 * 60 * 60 * 1000;
+
+/** "a, b, c and 2 more" for summary notices. */
+function listPaths(paths: string[]): string {
+  const listed = paths.slice(0, MAX_LISTED_PATHS).join(", ");
+  const more = paths.length - MAX_LISTED_PATHS;
+  return more > 0 ? `${listed} and ${more} more` : listed;
+}
+
+async function ensureFolder(
+  plugin: SyncHost,
+  writer: VaultWriter,
+  path: string,
+): Promise<void> {
+  if (!plugin.vault.isFolder(path)) {
+    await writer.createFolder(path);
+  }
+}
+
+/**
+ * Progress of a running sync, reported after every note (options.onProgress).
+ * The total number of remote notes is unknown, so `remaining` only counts the
+ * notes known to be left in the current phase (retries, page, originals).
+ */
+export interface SyncProgress {
+  phase: "retry" | "pages" | "originals";
+  processed: number; // Notes handled so far: new, updated, skipped, filtered or failed
+  pages: number; // Pages fetched so far
+  remaining: number;
+  linkDetailsPending: number; // Link notes left on the current page (each needs a detail request)
+  morePages: boolean; // Pages may follow the current one
+}
+
+type UpdateOutcome = "updated" | "overwritten" | "merged" | "kept-local" | "conflict-file";
+
+/**
+ * Remember what was generated for a note, for local-edit detection next time,
+ * and whether its link original is still missing (for backfillOriginals).
+ * Dry runs leave the state untouched: nothing was actually written.
+ */
+function recordNoteState(
+  plugin: SyncHost,
+  writer: VaultWriter,
+  bijiId: string,
+  written: string,
+  remoteRender: string,
+  missingOriginal: boolean,
+): void {
+  if (writer.dryRun) return;
+  plugin.noteState.set(bijiId, {
+    hash: hashContent(written),
+    base: plugin.settings.conflictPolicy === "merge" ? remoteRender : undefined,
+    missingOriginal: missingOriginal || undefined,
+  });
+}
+
+/**
+ * Rewrite an existing synced note with a newer remote render.
+ *
+ * Three-way check: the stored hash of the last generated content vs. the
+ * generated part of the current file tells whether the vault copy was edited.
+ * Unedited notes are overwritten; edited ones are resolved per
+ * settings.conflictPolicy. Notes with no stored state (synced by earlier
+ * versions or into a fresh CLI state folder) count as unedited, like notes
+ * whose state is seeded when a sync first sees them. The user section and
+ * user-added frontmatter keys are carried over whenever the note itself is
+ * rewritten. Keeping the vault copy or writing a conflict file records
+ * `remoteUpdatedAt` as handled, so the same remote revision is not raised again.
+ */
+async function applyRemoteUpdate(
+  plugin: SyncHost,
+  writer: VaultWriter,
+  file: VaultFile,
+  bijiId: string,
+  markdown: string,
+  remoteUpdatedAt: string,
+  missingOriginal: boolean,
+): Promise<UpdateOutcome> {
+  const vault = plugin.vault;
+  const current = await vault.read(file);
+  const localGenerated = stripUserEdits(current);
+  const state = plugin.noteState.get(bijiId);
+  const localChanged = state !== null && hashContent(localGenerated) !== state.hash;
+  const policy = plugin.settings.conflictPolicy;
+
+  // The vault copy stays as it is: remember which remote revision was dealt with
+  const markHandled = (): void => {
+    if (writer.dryRun || !state) return;
+    plugin.noteState.set(bijiId, { ...state, handledRemote: remoteUpdatedAt });
+  };
+
+  if (!localChanged || policy === "take-remote") {
+    await writer.modify(
+      file,
+      mergeUserEdits(markdown, current),
+      bijiId,
+      localChanged ? "changed in Get笔记, vault edits overwritten" : "changed in Get笔记",
+    );
+    recordNoteState(plugin, writer, bijiId, markdown, markdown, missingOriginal);
+    return localChanged ? "overwritten" : "updated";
+  }
+
+  if (policy === "keep-local") {
+    writer.plan("skip", file.path, bijiId, "changed in both places, keeping the vault copy");
+    markHandled();
+    return "kept-local";
+  }
+
+  if (policy === "merge" && state?.base) {
+    const merged = mergeLines(state.base, localGenerated, markdown);
+    if (merged !== null) {
+      await writer.modify(
+        file,
+        mergeUserEdits(merged, current),
+        bijiId,
+        "changed in both places, merged",
+      );
+      recordNoteState(plugin, writer, bijiId, merged, markdown, missingOriginal);
+      return "merged";
+    }
+  }
+
+  // conflict-file (also the fallback when a merge is impossible).
+  // The sibling must not carry biji_id, or the index could pick it over the original.
+  const sibling = markdown.replace(/^---\nbiji_id:/, "---\nbiji_conflict_of:");
+  const siblingPath = conflictFilePath(file.path);
+  const existingSibling = vault.getFile(siblingPath);
+  const reason = `changed in both places, Get笔记 version written next to ${file.path}`;
+  if (existingSibling) {
+    await writer.modify(existingSibling, sibling, bijiId, reason, "conflict-file");
+  } else {
+    await writer.create(siblingPath, sibling, bijiId, reason, "conflict-file");
+  }
+  markHandled();
+  return "conflict-file";
+}
 
 /**
  * Main sync loop: fetches notes from Get笔记 API and writes them to the vault.
@@ -20,34 +183,177 @@ import {
  * - API returns notes newest-first (create_desc)
  * - newestNoteId = first note of first page (captured once per sync)
  * - Incremental stop: note.id === lastSyncId means we reached previously-synced territory
- * - lastSyncId is saved ONCE after sync completes
+ * - fullScan ignores the incremental stop so edits to older notes are picked up
+ * - lastSyncId is promoted ONLY when the run closes the gap (stop id or last page reached)
+ *
+ * Checkpoint semantics:
+ * - After each page (and on cancel/failure) { targetId, sinceId, stopId } is persisted
+ * - The next run resumes paging from sinceId toward stopId instead of starting over
+ * - The checkpoint is cleared when lastSyncId is promoted
+ *
+ * Dedup:
+ * - "Already synced?" and "where does it live?" are answered by plugin.noteIndex,
+ *   so synced files may be renamed or moved anywhere in the vault
+ *
+ * Remote edits:
+ * - A note already in the vault is rewritten in place when its remote
+ *   updated_at/edit_time is newer than the frontmatter updated_at
+ * - The rewrite keeps the user section and user-added frontmatter (mergeUserEdits)
+ * - If the vault copy was also edited, settings.conflictPolicy decides (applyRemoteUpdate)
+ *   and the file is listed in the summary
+ * - Edited notes below the cursor are only reached by a full scan; with
+ *   checkEditsOnAutoSync, auto sync runs one at most once per EDIT_CHECK_INTERVAL
+ *
+ * Remote deletions:
+ * - A full scan that reaches the last page knows every remote id; orphaned vault
+ *   notes are handled per settings.deletionPolicy (reconcileDeletions)
+ * - Silent (auto) syncs only do this when reconcileDeletionsOnAutoSync is on,
+ *   and then upgrade themselves to a full scan at most once per DELETION_CHECK_INTERVAL
+ *
+ * Dry run:
+ * - All vault writes go through options.writer (a VaultWriter); a dry-run writer
+ *   only records them, and settings, cursor and note state are left untouched
+ * - Attachments are planned but not downloaded
+ *
+ * Progress:
+ * - options.onProgress receives a SyncProgress before every note (status bar)
+ *
+ * Run record:
+ * - options.run (a SyncRunRecord) receives the counts, per-note errors and the
+ *   final status; a run that stops before fetching is marked failed with the reason
+ *
+ * Retry queue:
+ * - A note that fails is queued in settings.retryQueue with its error and a
+ *   backoff; later runs fetch due entries one by one (fetchNote) before paging
+ * - fetchNote's endpoint is unverified, so a note it cannot return is looked for
+ *   in the page walk (past the cursor, or from the top in a retry-only run);
+ *   it is dropped only when a complete walk does not find it either
+ * - After settings.maxRetryAttempts failures a note is given up on and announced;
+ *   it stays queued (and visible in settings) until retried by hand
+ * - options.noteIds retries just those notes and skips the page walk, leaving
+ *   cursor, checkpoint and deletions alone
+ *
+ * Link originals:
+ * - Link notes written without their 原文 original are marked in the note state;
+ *   backfillOriginals re-fetches the note once its link detail is ready and
+ *   merges just the part the note template adds for the original into the vault copy
+ * - Runs after the page walk of silent syncs when backfillOriginalsOnAutoSync
+ *   is on; options.originalsOnly does only this (cursor untouched, like a retry)
+ *
+ * Accounts:
+ * - One call syncs one AccountProfile: its token, target folder, folder rules, filters, cursor,
+ *   checkpoint and retry queue; everything else is shared by all profiles
+ * - New and rewritten notes record the profile id as `biji_account`, and
+ *   deletions and originals only touch notes the profile owns (ownsNote)
  *
  * Error isolation:
  * - Single-note errors: catch, count, continue
  * - AuthFatalError: re-throw immediately
  */
 export async function syncBiji(
-  plugin: BijiSyncPlugin,
+  plugin: SyncHost,
+  profile: AccountProfile,
   signal: AbortSignal,
-  options?: { silent?: boolean },
+  options?: {
+    silent?: boolean;
+    fullScan?: boolean;
+    writer?: VaultWriter;
+    run?: SyncRunRecord;
+    noteIds?: string[];
+    originalsOnly?: boolean;
+    onProgress?: (progress: SyncProgress) => void;
+  },
 ): Promise<void> {
   // 1. Snapshot settings
-  const targetFolder = plugin.settings.targetFolder;
-  const lastSyncId = plugin.settings.lastSyncId;
+  const targetFolder = profile.targetFolder;
+  const noteTemplate = plugin.settings.noteTemplate;
+  const filenameTemplate = plugin.settings.filenameTemplate;
+  const folderRules = profile.folderRules;
+  const syncFilter = profile.syncFilter;
+  const maxRetryAttempts = plugin.settings.maxRetryAttempts;
+  const lastSyncId = profile.lastSyncId;
+  const pendingCheckpoint = profile.syncCheckpoint;
 
   const silent = options?.silent ?? false;
+  const writer = options?.writer ?? new VaultWriter(plugin.vault);
+  const dryRun = writer.dryRun;
+  const run = options?.run;
+  const retryIds = options?.noteIds ?? null;
+  const originalsOnly = options?.originalsOnly ?? false;
+  // Partial runs handle a few known notes: no page walk, cursor and deletions untouched
+  const partialRun = retryIds !== null || originalsOnly;
+
+  // Messages name the account once there is more than one
+  const label = plugin.settings.profiles.length > 1 ? `${profile.name}: ` : "";
+
+  // The run never started: say why, to the user and in the run record
+  const abortRun = (message: string, notify: boolean): void => {
+    if (notify) plugin.notify(label + message);
+    if (run) {
+      run.status = "failed";
+      run.message = message;
+    }
+  };
 
-  // 2. Validate refreshToken
-  const tokenError = validateRefreshToken(plugin.settings.refreshToken);
+  // Deletions are never applied silently without the explicit opt-in
+  const deletionsEnabled =
+    !partialRun &&
+    plugin.settings.deletionPolicy !== "off" &&
+    (!silent || plugin.settings.reconcileDeletionsOnAutoSync);
+  const lastDeletionCheck = profile.lastDeletionCheck;
+  const deletionCheckDue =
+    silent &&
+    deletionsEnabled &&
+    (lastDeletionCheck === null ||
+      Date.now() - lastDeletionCheck >= DELETION_CHECK_INTERVAL);
+  const lastFullScan = profile.lastFullScan;
+  const editCheckDue =
+    silent &&
+    !partialRun &&
+    plugin.settings.checkEditsOnAutoSync &&
+    (lastFullScan === null || Date.now() - lastFullScan >= EDIT_CHECK_INTERVAL);
+  const fullScan = (options?.fullScan ?? false) || deletionCheckDue || editCheckDue;
+  if (run) run.fullScan = fullScan;
+
+  // A full scan walks everything from the top; otherwise resume any interrupted run
+  const resumeFrom = fullScan ? null : pendingCheckpoint;
+  const stopId = pendingCheckpoint ? pendingCheckpoint.stopId : lastSyncId;
+
+  // 2. Validate refreshToken (kept in the secret store, which may still be locked)
+  if (plugin.secrets.isLocked) {
+    abortRun("Get笔记 tokens are encrypted, unlock them with your passphrase first", !silent);
+    return;
+  }
+  const tokenError = validateRefreshToken(plugin.secrets.get(profile.id).refreshToken);
   if (tokenError) {
-    if (!silent) new Notice(tokenError);
+    abortRun(tokenError, !silent);
     return;
   }
 
-  // 3. Get/refresh JWT
+  // A malformed template would fail every note; stop before fetching anything
+  const templateError = validateTemplate(noteTemplate);
+  if (templateError) {
+    abortRun(`Note template is invalid: ${templateError}`, true);
+    return;
+  }
+  const filenameError = validateFilenameTemplate(filenameTemplate);
+  if (filenameError) {
+    abortRun(`File name template is invalid: ${filenameError}`, true);
+    return;
+  }
+  for (const [index, rule] of folderRules.entries()) {
+    const ruleError = validateFolderRule(rule);
+    if (ruleError) {
+      abortRun(`Folder rule ${index + 1} is invalid: ${ruleError}`, true);
+      return;
+    }
+  }
+
+  // 3. Get/refresh JWT (cached per profile)
+  const tokens = plugin.tokenCache(profile);
   let jwt: string;
   try {
-    jwt = await refreshJwt(plugin.settings.refreshToken);
+    jwt = await tokens.get();
   } catch (err) {
     throw new AuthFatalError(
       "Failed to obtain JWT",
@@ -56,147 +362,471 @@ export async function syncBiji(
   }
 
   // JWT refresh callback — updates local jwt variable
-  const refreshJwtCallback = async (): Promise<string> => {
-    jwt = await refreshJwt(plugin.settings.refreshToken);
+  const refreshJwtCallback = async (rejectedJwt?: string): Promise<string> => {
+    jwt = await tokens.refresh(rejectedJwt);
     return jwt;
   };
 
-  // 4. Ensure target folder exists
-  const folder = plugin.app.vault.getAbstractFileByPath(
-    normalizePath(targetFolder),
-  );
-  if (!(folder instanceof TFolder)) {
-    await plugin.app.vault.createFolder(normalizePath(targetFolder));
-  }
+  // 4. Ensure target folder exists and the biji_id index / note state are ready
+  plugin.noteIndex.ensureBuilt();
+  await plugin.noteState.load();
+
+  await ensureFolder(plugin, writer, normalizePath(targetFolder));
 
   // Counters
   let syncCount = 0;
+  let updateCount = 0;
   let skipCount = 0;
+  let filteredCount = 0;
   let errorCount = 0;
-  let newestNoteId: string | null = null;
+  const conflictPaths: string[] = [];
+  const givenUp: string[] = [];
+  const remoteIds = new Set<string>();
+  let newestNoteId: string | null = resumeFrom?.targetId ?? null;
+  let lastProcessedId: string | null = resumeFrom?.sinceId ?? null;
   let shouldStop = false;
   let isFirstPage = true;
+  let deletedPaths: string[] = [];
+  let backfilledPaths: string[] = [];
 
-  // 5. Fetch pages of notes
-  for await (const { notes } of fetchNotes(jwt, refreshJwtCallback, signal)) {
-    if (signal.aborted) break;
+  // Copy the counters into the run record (also on the way out of a failure)
+  const report = (): void => {
+    if (!run) return;
+    run.created = syncCount;
+    run.updated = updateCount + backfilledPaths.length;
+    run.skipped = skipCount;
+    run.filtered = filteredCount;
+    run.conflicts = conflictPaths.length;
+    run.deleted = deletedPaths.length;
+  };
 
-    // 6. Process each note on the page
-    for (const note of notes) {
-      // 6a. Check abort
-      if (signal.aborted) break;
+  // Record progress so an interrupted run resumes where it stopped
+  const recordCheckpoint = (): void => {
+    if (dryRun || partialRun || !newestNoteId || !lastProcessedId) return;
+    profile.syncCheckpoint = {
+      targetId: newestNoteId,
+      sinceId: lastProcessedId,
+      stopId,
+    };
+  };
+
+  /**
+   * Steps 6c–6l for one note. Throws when the note cannot be synced; callers
+   * isolate the failure with noteFailed unless it is an AuthFatalError.
+   */
+  const processNote = async (note: BijiNote): Promise<void> => {
+    // 6d. Convert BijiNote -> RawNote
+    const rawNote = bijiNoteToRawNote(note);
+    if (!rawNote) {
+      skipCount++;
+      return;
+    }
+    rawNote.account = profile.id;
+
+    // Sync filters: filtered notes are counted apart from skips
+    const filterReason = filterNote(rawNote, syncFilter);
+    if (filterReason) {
+      filteredCount++;
+      writer.plan("skip", "", note.id, `"${rawNote.title}" filtered: ${filterReason}`);
+      return;
+    }
 
-      // Capture newestNoteId from first note of first page
-      if (isFirstPage && newestNoteId === null && note.id) {
-        newestNoteId = note.id;
+    // 6c. Dedup via the vault-wide biji_id index — skip unless the remote copy is newer
+    const existingFile = plugin.noteIndex.get(note.id);
+    if (existingFile) {
+      const frontmatter = plugin.vault.frontmatter(existingFile);
+      const state = plugin.noteState.get(note.id);
+      if (!isRemoteNewer(rawNote.updatedAt, frontmatter?.updated_at)) {
+        skipCount++;
+        writer.plan("skip", existingFile.path, note.id, "unchanged since last sync");
+        // First sight of a note synced without state: its current copy is the unedited one
+        if (!state && !dryRun) {
+          const current = await plugin.vault.read(existingFile);
+          plugin.noteState.set(note.id, { hash: hashContent(stripUserEdits(current)) });
+        }
+        return; // Already synced and unchanged
+      }
+      if (state?.handledRemote && !isRemoteNewer(rawNote.updatedAt, state.handledRemote)) {
+        skipCount++;
+        writer.plan("skip", existingFile.path, note.id, "conflict with this Get笔记 version already handled");
+        return;
       }
+    }
 
-      // 6b. Incremental stop condition
-      if (lastSyncId && note.id === lastSyncId) {
-        shouldStop = true;
-        break;
+    // 6e. For link notes: fetch original content
+    if (rawNote.noteType === "link") {
+      const linkContent = await fetchLinkDetail(
+        plugin.transport,
+        jwt,
+        note.id,
+        refreshJwtCallback,
+      );
+      if (linkContent) {
+        // 6f. Apply cleanHtml to originalContent
+        rawNote.originalContent = cleanHtml(linkContent);
       }
+      // Rate-limit between consecutive link detail requests
+      await new Promise((r) => setTimeout(r, DETAIL_DELAY));
+    }
 
-      // Process single note with error isolation
-      try {
-        // 6d. Convert BijiNote -> RawNote
-        const rawNote = bijiNoteToRawNote(note);
-        if (!rawNote) {
-          skipCount++;
-          continue;
-        }
+    // Link notes imported without their original are revisited by backfillOriginals
+    const missingOriginal =
+      rawNote.noteType === "link" &&
+      !rawNote.originalContent &&
+      templateUsesField(noteTemplate, "original_content");
 
-        // 6c. Dedup via MetadataCache
-        const baseName = resolveFilename(rawNote.title, rawNote.id);
-        const targetPath = normalizePath(
-          `${targetFolder}/${baseName}.md`,
-        );
-        const existingFile =
-          plugin.app.vault.getAbstractFileByPath(targetPath);
-
-        if (existingFile instanceof TFile) {
-          const cachedMeta =
-            plugin.app.metadataCache.getFileCache(existingFile);
-          const existingBijiId = cachedMeta?.frontmatter?.biji_id;
-          if (existingBijiId === note.id) {
-            skipCount++;
-            continue; // Already synced
-          }
-        }
+    // 6g. Download media attachments (each one may fail on its own)
+    if (plugin.settings.downloadAttachments && rawNote.attachments) {
+      rawNote.embeds = await saveAttachments(
+        plugin,
+        writer,
+        note.id,
+        rawNote.attachments,
+      );
+    }
 
-        // 6e. For link notes: fetch original content
-        if (rawNote.noteType === "link") {
-          const linkContent = await fetchLinkDetail(
-            jwt,
-            note.id,
-            refreshJwtCallback,
-          );
-          if (linkContent) {
-            // 6f. Apply cleanHtml to originalContent
-            rawNote.originalContent = cleanHtml(linkContent);
-          }
-          // Rate-limit between consecutive link detail requests
-          await new Promise((r) => setTimeout(r, DETAIL_DELAY));
-        }
+    // 6h. Build markdown
+    const markdown = buildMarkdown(rawNote, noteTemplate);
+
+    // 6i. Remote edit: rewrite in place, wherever the file lives now
+    if (existingFile) {
+      const outcome = await applyRemoteUpdate(
+        plugin,
+        writer,
+        existingFile,
+        note.id,
+        markdown,
+        rawNote.updatedAt,
+        missingOriginal,
+      );
+      if (outcome === "kept-local" || outcome === "conflict-file") {
+        skipCount++;
+      } else {
+        updateCount++;
+      }
+      if (outcome !== "updated") conflictPaths.push(existingFile.path);
+      return;
+    }
+
+    // 6j. Route to a folder (first matching rule, else the target folder)
+    const noteFolder = resolveFolder(rawNote, folderRules, targetFolder);
+    if (noteFolder !== normalizePath(targetFolder)) {
+      await ensureFolder(plugin, writer, noteFolder);
+    }
 
-        // 6g. Build markdown
-        const markdown = buildMarkdown(rawNote);
-
-        // 6h. Resolve filename conflicts
-        let finalName: string;
-        if (existingFile instanceof TFile) {
-          const cachedMeta =
-            plugin.app.metadataCache.getFileCache(existingFile);
-          const existingBijiId = cachedMeta?.frontmatter?.biji_id;
-          finalName = resolveFilename(
-            rawNote.title,
+    // 6k. Resolve filename conflicts with another file at that path
+    const name = noteFilename(rawNote, filenameTemplate);
+    const baseName = resolveFilename(name, rawNote.id);
+    const occupant = plugin.vault.getFile(
+      normalizePath(`${noteFolder}/${baseName}.md`),
+    );
+    let finalName =
+      occupant
+        ? resolveFilename(
+            name,
             rawNote.id,
-            existingBijiId,
-          );
-        } else {
-          finalName = baseName;
-        }
+            plugin.noteIndex.idForPath(occupant.path),
+          )
+        : baseName;
+    // The short id suffix may be taken as well (ids sharing a prefix): full id, then a counter
+    const pathOf = (fileName: string) => normalizePath(`${noteFolder}/${fileName}.md`);
+    for (let n = 1; finalName !== baseName && plugin.vault.getFile(pathOf(finalName)); n++) {
+      finalName = sanitizeFilename(n === 1 ? `${baseName}-${rawNote.id}` : `${baseName}-${rawNote.id} ${n}`);
+    }
 
-        const finalPath = normalizePath(
-          `${targetFolder}/${finalName}.md`,
-        );
+    const finalPath = pathOf(finalName);
 
-        // 6i. Create file in vault
-        await plugin.app.vault.create(finalPath, markdown);
-        syncCount++;
+    // 6l. Create file in vault (null in a dry run)
+    const created = await writer.create(
+      finalPath,
+      markdown,
+      note.id,
+      finalName === baseName ? "new note" : "new note, name taken so the id was appended",
+    );
+    if (created) {
+      plugin.noteIndex.set(note.id, created);
+      recordNoteState(plugin, writer, note.id, markdown, markdown, missingOriginal);
+    }
+    syncCount++;
+  };
+
+  // Backfilled originals are rendered like any other note: same attachments and template
+  const renderNote: RenderNote = async (rawNote: RawNote) => {
+    // Rendered twice (without and with the original): attachments are saved once
+    if (plugin.settings.downloadAttachments && rawNote.attachments && !rawNote.embeds) {
+      rawNote.embeds = await saveAttachments(plugin, writer, rawNote.id, rawNote.attachments);
+    }
+    return buildMarkdown(rawNote, noteTemplate);
+  };
+
+  // A note that went through (or was deliberately skipped) needs no retry
+  const noteDone = (noteId: string): void => {
+    if (dryRun) return;
+    profile.retryQueue = dequeueRetry(profile.retryQueue, noteId);
+  };
+
+  // Count a failed note, list it in the run record and queue it for a later retry
+  const noteFailed = (noteId: string, title: string, err: unknown): void => {
+    errorCount++;
+    console.error(`Failed to sync note ${noteId}:`, err);
+    const failure = {
+      noteId,
+      title,
+      message: err instanceof Error ? err.message : String(err),
+    };
+    run?.errors.push(failure);
+    if (dryRun) return;
+    profile.retryQueue = queueRetry(profile.retryQueue, failure, Date.now());
+    const entry = profile.retryQueue.find((e) => e.noteId === noteId);
+    if (entry?.attempts === maxRetryAttempts) givenUp.push(title || noteId);
+  };
+
+  // Retry targets: the requested notes, or the queued failures that are due
+  const retryTargets = originalsOnly
+    ? []
+    : retryIds ??
+      dueRetries(profile.retryQueue, maxRetryAttempts, Date.now()).map((e) => e.noteId);
+  const retried = new Set<string>();
+  // Retry targets fetchNote could not return, with why: the page walk looks for them
+  const unresolved = new Map<string, unknown>();
+
+  let pages = 0;
+  const reportProgress = (
+    phase: SyncProgress["phase"],
+    remaining: number,
+    linkDetailsPending = 0,
+    morePages = false,
+  ): void => {
+    options?.onProgress?.({
+      phase,
+      processed: syncCount + updateCount + skipCount + filteredCount + errorCount,
+      pages,
+      remaining,
+      linkDetailsPending,
+      morePages,
+    });
+  };
+
+  try {
+    // 5. Notes that failed in earlier runs are fetched one by one before the page walk
+    for (const [index, noteId] of retryTargets.entries()) {
+      if (signal.aborted) break;
+      reportProgress("retry", retryTargets.length - index);
+      const queued = profile.retryQueue.find((e) => e.noteId === noteId);
+      // fetchNote's endpoint is unverified: a note it cannot return may still
+      // be in Get笔记, so it is left to the page walk instead of being dropped
+      let note: BijiNote | null;
+      try {
+        note = await fetchNote(plugin.transport, jwt, noteId, refreshJwtCallback);
       } catch (err) {
-        // AuthFatalError must propagate
         if (err instanceof AuthFatalError) throw err;
-        errorCount++;
-        console.error(`Failed to sync note ${note.id}:`, err);
+        unresolved.set(noteId, err);
         continue;
       }
+      if (!note) {
+        unresolved.set(noteId, new Error("Not found by id in Get笔记"));
+        continue;
+      }
+      retried.add(noteId);
+      try {
+        await processNote(note);
+        noteDone(noteId);
+      } catch (err) {
+        if (err instanceof AuthFatalError) throw err;
+        noteFailed(noteId, queued?.title ?? "", err);
+      }
+    }
+
+    // 6. Fetch pages of notes. Partial runs only handle their own notes, and
+    // walk the pages (from the top, for those notes alone) only to find unresolved retries.
+    let searchedAll = false; // Every page was walked, from the newest note on
+    let pastStop = false;
+    if (!partialRun || unresolved.size > 0) {
+      for await (const { notes, isLastPage } of fetchNotes(
+        plugin.transport,
+        jwt,
+        refreshJwtCallback,
+        signal,
+        partialRun ? undefined : resumeFrom?.sinceId,
+      )) {
+        if (signal.aborted) break;
+        pages++;
+
+        // Process each note on the page
+        for (const [index, note] of notes.entries()) {
+          // 6a. Check abort
+          if (signal.aborted) break;
+
+          const rest = notes.slice(index);
+          reportProgress(
+            "pages",
+            rest.length,
+            rest.filter((n) => n.note_type === "link").length,
+            !isLastPage,
+          );
+
+          // Capture newestNoteId from first note of first page
+          if (isFirstPage && newestNoteId === null && note.id) {
+            newestNoteId = note.id;
+          }
+          if (note.id) remoteIds.add(note.id);
+
+          // 6b. Incremental stop condition, postponed while unresolved retries are still to be found
+          if (!fullScan && stopId && note.id === stopId) pastStop = true;
+          if ((pastStop || partialRun) && unresolved.size === 0) {
+            shouldStop = true;
+            break;
+          }
+          if (partialRun && !unresolved.has(note.id)) continue;
+          unresolved.delete(note.id);
+
+          // Process single note with error isolation (retried notes are already done)
+          let fatal = false;
+          try {
+            if (!retried.has(note.id)) {
+              await processNote(note);
+              noteDone(note.id);
+            }
+          } catch (err) {
+            // AuthFatalError must propagate
+            if (err instanceof AuthFatalError) {
+              fatal = true;
+              throw err;
+            }
+            noteFailed(note.id, note.title, err);
+          } finally {
+            // Unprocessed notes must stay ahead of the checkpoint
+            if (!fatal && note.id) lastProcessedId = note.id;
+          }
+        }
+
+        isFirstPage = false;
+
+        if (shouldStop || signal.aborted) break;
+        if (isLastPage) searchedAll = partialRun || !resumeFrom;
+
+        recordCheckpoint();
+        if (!dryRun) await plugin.saveSettings();
+
+        // Per-page progress notice
+        if (!silent && !dryRun) plugin.notify(`${label}Synced ${syncCount} notes...`);
+      }
     }
 
-    isFirstPage = false;
+    // Unresolved retries the walk did not find either: deleted after a complete
+    // walk, otherwise counted as a failed attempt (cancelled runs leave them queued)
+    for (const [noteId, cause] of unresolved) {
+      if (searchedAll) {
+        skipCount++;
+        writer.plan("skip", "", noteId, "no longer in Get笔记");
+        noteDone(noteId);
+      } else if (!signal.aborted) {
+        const queued = profile.retryQueue.find((e) => e.noteId === noteId);
+        noteFailed(noteId, queued?.title ?? "", cause);
+      }
+    }
 
-    if (shouldStop || signal.aborted) break;
+    // 6m. Fill in link originals that were missing at import
+    const backfillDue =
+      originalsOnly || (silent && !partialRun && plugin.settings.backfillOriginalsOnAutoSync);
+    if (backfillDue && !signal.aborted) {
+      reportProgress(
+        "originals",
+        plugin.noteState.idsWhere((state) => state.missingOriginal === true).length,
+      );
+      backfilledPaths = await backfillOriginals(
+        plugin,
+        profile,
+        writer,
+        jwt,
+        refreshJwtCallback,
+        signal,
+        renderNote,
+      );
+    }
+  } catch (err) {
+    report();
+    if (!dryRun) {
+      recordCheckpoint();
+      await plugin.saveSettings();
+      await plugin.noteState.save();
+    }
+    throw err;
+  }
 
-    // Per-page progress notice
-    if (!silent) new Notice(`Synced ${syncCount} notes...`);
+  // A dry run ends here: the caller reads the planned actions from the writer
+  if (dryRun) {
+    if (fullScan && deletionsEnabled && !signal.aborted) {
+      await reconcileDeletions(plugin, profile, writer, remoteIds);
+    }
+    return;
   }
 
-  // 7. Save lastSyncId + lastSyncTime
-  if (newestNoteId) {
-    plugin.settings.lastSyncId = newestNoteId;
+  // 7. Promote lastSyncId once the gap is closed, otherwise keep the checkpoint
+  // (the page loop only ends without abort at the stop id or after the last page).
+  // A partial run only looked at a few notes, so it leaves the cursor where it was.
+  if (!signal.aborted && !partialRun) {
+    if (newestNoteId) {
+      profile.lastSyncId = newestNoteId;
+    }
+    profile.syncCheckpoint = null;
+  } else {
+    recordCheckpoint();
+  }
+  // 7b. Reconcile remote deletions after a complete full walk
+  if (fullScan && !signal.aborted) profile.lastFullScan = Date.now();
+  if (fullScan && deletionsEnabled && !signal.aborted) {
+    deletedPaths = await reconcileDeletions(plugin, profile, writer, remoteIds);
+    profile.lastDeletionCheck = Date.now();
   }
-  plugin.settings.lastSyncTime = Date.now();
+
+  profile.lastSyncTime = Date.now();
   await plugin.saveSettings();
+  await plugin.noteState.save();
+
+  report();
+  if (run) run.status = signal.aborted ? "cancelled" : "complete";
 
   // 8. Show summary
-  if (!silent) {
+  if (!silent && originalsOnly) {
+    const stillMissing = plugin.noteState.idsWhere((state) => state.missingOriginal === true).length;
+    plugin.notify(
+      `${label}Link originals: ${backfilledPaths.length} filled in, ${stillMissing} still missing` +
+        (backfilledPaths.length > 0 ? `\n${listPaths(backfilledPaths)}` : ""),
+    );
+  } else if (!silent) {
+    let details = "";
+    if (conflictPaths.length > 0) {
+      details = `\nConflicts: ${listPaths(conflictPaths)}`;
+    }
+    if (deletedPaths.length > 0) {
+      details += `\nDeleted in Get笔记 (${plugin.settings.deletionPolicy}): ${listPaths(deletedPaths)}`;
+    }
+    if (backfilledPaths.length > 0) {
+      details += `\nOriginals filled in: ${listPaths(backfilledPaths)}`;
+    }
+    if (givenUp.length > 0) {
+      details += `\nGave up after ${maxRetryAttempts} attempts: ${listPaths(givenUp)}`;
+    }
     if (signal.aborted) {
-      new Notice(
-        `Sync cancelled: ${syncCount} new, ${skipCount} skipped`,
+      plugin.notify(
+        `${label}Sync cancelled: ${syncCount} new, ${updateCount} updated, ${skipCount} skipped, ${filteredCount} filtered — next sync resumes here${details}`,
       );
     } else {
-      new Notice(
-        `Sync complete: ${syncCount} new, ${skipCount} skipped, ${errorCount} errors`,
+      plugin.notify(
+        `${label}Sync complete: ${syncCount} new, ${updateCount} updated, ${skipCount} skipped, ${filteredCount} filtered, ${conflictPaths.length} conflicts, ${errorCount} errors${details}`,
+      );
+    }
+  } else {
+    // Opted-in auto-sync deletions and given-up notes are still announced
+    if (deletedPaths.length > 0) {
+      plugin.notify(
+        `${label}Deleted in Get笔记 (${plugin.settings.deletionPolicy}): ${listPaths(deletedPaths)}`,
+      );
+    }
+    if (givenUp.length > 0) {
+      plugin.notify(
+        `${label}Get笔记 sync gave up on ${givenUp.length} notes after ${maxRetryAttempts} attempts: ${listPaths(givenUp)}`,
       );
     }
   }
@@ -0,0 +1,289 @@
+// INPUT: RawNote from types.ts
+// OUTPUT: TemplateError, TemplateContext, TEMPLATE_FIELDS, DEFAULT_NOTE_TEMPLATE, DEFAULT_FILENAME_TEMPLATE,
+//         noteTemplateContext, renderTemplate, validateTemplate, validateFilenameTemplate, templateUsesField,
+//         formatDate, quoteLines
+// POS: Small template language for user-defined note bodies and file names
+
+import type { RawNote } from "./types";
+
+// ── TemplateError ───────────────────────────────────────────────────
+// Thrown for malformed templates: unknown fields, bad formats, unbalanced blocks.
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+/** Values a template can reference: text fields and lists (tags, embeds). */
+export type TemplateContext = Record<string, string | string[]>;
+
+/** Every field a note template can use, with a short description for the settings UI. */
+export const TEMPLATE_FIELDS: Record<string, string> = {
+  id: "Get笔记 note id",
+  title: "Note title (single line)",
+  content: "Note content as Markdown",
+  tags: "Tag list (comma-separated, or loop with #each)",
+  created: "Creation time (format with {{created:YYYY-MM-DD HH:mm}})",
+  updated: "Last update time (format like created)",
+  source_url: "Source link, if any",
+  original_content: "Original article of link notes ({{original_content:quote}} quotes it)",
+  origin: "Where the note came from (app, web, ...)",
+  note_type: "Note type (plain_text, link, audio, ...)",
+  entry_type: "Entry type (manual, ai, ...)",
+  embeds: "Downloaded attachment paths (loop with #each)",
+};
+
+const DATE_FIELDS = ["created", "updated"];
+
+// Multi-line fields that make no sense in a file name
+const MULTILINE_FIELDS = ["content", "original_content", "embeds"];
+
+/** File name (without .md) used when no template is configured: the note title. */
+export const DEFAULT_FILENAME_TEMPLATE = "{{title}}";
+
+/**
+ * Body layout used when no template is configured. Renders exactly what
+ * buildMarkdown produced before templates existed.
+ */
+export const DEFAULT_NOTE_TEMPLATE = [
+  "# {{title}}",
+  "",
+  "{{content}}",
+  "{{#if embeds}}",
+  "",
+  "{{#each embeds}}",
+  "![[{{this}}]]",
+  "{{/each}}",
+  "{{/if}}",
+  "{{#if original_content}}",
+  "",
+  "> [!quote]- 原文",
+  "{{original_content:quote}}",
+  "{{/if}}",
+  "",
+].join("\n");
+
+// ── Parsing ──
+
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "field"; name: string; format: string | null }
+  | { kind: "if"; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: "each"; name: string; body: TemplateNode[] };
+
+const TAG = /\{\{([\s\S]*?)\}\}/g;
+
+// A line holding nothing but a block tag disappears entirely, newline included
+const STANDALONE_BLOCK_TAG = /^[ \t]*(\{\{\s*(?:#if|#each|\/if|\/each|else)\b[^}]*\}\})[ \t]*(?:\n|$)/gm;
+
+function checkField(name: string, inLoop: boolean): void {
+  if (name === "this" && inLoop) return;
+  if (!(name in TEMPLATE_FIELDS)) {
+    throw new TemplateError(
+      name === "this" ? "{{this}} can only be used inside {{#each}}" : `Unknown field "${name}"`,
+    );
+  }
+}
+
+function checkFormat(name: string, format: string): void {
+  if (DATE_FIELDS.includes(name)) return; // Any date format is valid
+  if (format !== "quote") {
+    throw new TemplateError(`Unknown format "${format}" for "${name}" (text fields support :quote)`);
+  }
+}
+
+function parse(template: string): TemplateNode[] {
+  const source = template.replace(/\r\n?/g, "\n").replace(STANDALONE_BLOCK_TAG, "$1");
+
+  // Stack of open blocks; each collects nodes into its current branch
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: TemplateNode & { kind: "if" | "each" }; branch: TemplateNode[] }> = [];
+  const current = () => (stack.length ? stack[stack.length - 1].branch : root);
+  const inLoop = () => stack.some((open) => open.node.kind === "each");
+
+  const tag = new RegExp(TAG.source, "g");
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tag.exec(source)) !== null) {
+    if (match.index > last) current().push({ kind: "text", text: source.slice(last, match.index) });
+    last = tag.lastIndex;
+
+    const inner = match[1].trim();
+    const block = inner.match(/^#(if|each)\s+(\w+)$/);
+    if (block) {
+      const name = block[2];
+      checkField(name, inLoop());
+      const node: TemplateNode & { kind: "if" | "each" } =
+        block[1] === "if"
+          ? { kind: "if", name, then: [], otherwise: [] }
+          : { kind: "each", name, body: [] };
+      current().push(node);
+      stack.push({ node, branch: node.kind === "if" ? node.then : node.body });
+      continue;
+    }
+
+    if (inner === "else") {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.kind !== "if" || open.branch === open.node.otherwise) {
+        throw new TemplateError("{{else}} without a matching {{#if}}");
+      }
+      open.branch = open.node.otherwise;
+      continue;
+    }
+
+    const close = inner.match(/^\/(if|each)$/);
+    if (close) {
+      const open = stack.pop();
+      if (!open || open.node.kind !== close[1]) {
+        throw new TemplateError(`{{/${close[1]}}} without a matching {{#${close[1]}}}`);
+      }
+      continue;
+    }
+
+    const field = inner.match(/^(\w+)(?::([\s\S]+))?$/);
+    if (!field) throw new TemplateError(`Invalid placeholder "{{${inner}}}"`);
+    checkField(field[1], inLoop());
+    if (field[2] !== undefined) checkFormat(field[1], field[2]);
+    current().push({ kind: "field", name: field[1], format: field[2] ?? null });
+  }
+  if (last < source.length) current().push({ kind: "text", text: source.slice(last) });
+
+  if (stack.length > 0) {
+    throw new TemplateError(`{{#${stack[stack.length - 1].node.kind}}} is never closed`);
+  }
+  return root;
+}
+
+// ── Rendering ──
+
+/**
+ * Format a timestamp with YYYY, YY, MM, M, DD, D, HH, H, mm, ss tokens (local time).
+ * Unparseable timestamps are returned unchanged.
+ */
+export function formatDate(value: string, format: string): string {
+  const date = new Date(value);
+  if (!value || isNaN(date.getTime())) return value;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: String(date.getFullYear()).slice(-2),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    D: String(date.getDate()),
+    HH: pad(date.getHours()),
+    H: String(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+  return format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, (token) => tokens[token]);
+}
+
+function isTruthy(value: string | string[] | undefined): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+/** Prefix every line with "> " (empty lines become ">"), as in the default "原文" callout. */
+export function quoteLines(text: string): string {
+  return text
+    .replace(/\n$/, "")
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+function formatValue(name: string, value: string | string[] | undefined, format: string | null): string {
+  const text = Array.isArray(value) ? value.join(", ") : value ?? "";
+  if (format === null || !text) return text;
+  if (DATE_FIELDS.includes(name)) return formatDate(text, format);
+  return quoteLines(text);
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext, item: string | null): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.kind) {
+      case "text":
+        out += node.text;
+        break;
+      case "field":
+        out += node.name === "this" ? item ?? "" : formatValue(node.name, context[node.name], node.format);
+        break;
+      case "if": {
+        const value = node.name === "this" ? item ?? "" : context[node.name];
+        out += renderNodes(isTruthy(value) ? node.then : node.otherwise, context, item);
+        break;
+      }
+      case "each": {
+        const value = node.name === "this" ? item ?? "" : context[node.name];
+        const items = Array.isArray(value) ? value : value ? [value] : [];
+        for (const entry of items) out += renderNodes(node.body, context, entry);
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Render a template against a context.
+ *
+ * Syntax: {{field}}, {{created:YYYY-MM-DD}}, {{original_content:quote}},
+ * {{#if field}}...{{else}}...{{/if}}, {{#each tags}}...{{this}}...{{/each}}.
+ * A line containing only a block tag is removed along with its line break.
+ * Throws TemplateError for malformed templates.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return renderNodes(parse(template), context, null);
+}
+
+/** Returns the error message for a malformed template, or null if it is valid. */
+export function validateTemplate(template: string): string | null {
+  try {
+    parse(template);
+    return null;
+  } catch (err) {
+    if (err instanceof TemplateError) return err.message;
+    throw err;
+  }
+}
+
+/**
+ * Like validateTemplate, but also rejects empty templates and multi-line
+ * fields (content, original_content, embeds) that cannot form a file name.
+ */
+export function validateFilenameTemplate(template: string): string | null {
+  if (!template.trim()) return "File name template is empty";
+  const error = validateTemplate(template);
+  if (error) return error;
+  for (const name of MULTILINE_FIELDS) {
+    if (templateUsesField(template, name)) return `{{${name}}} cannot be used in file names`;
+  }
+  return null;
+}
+
+/** Whether a template references a field, as a placeholder or in a block tag. */
+export function templateUsesField(template: string, name: string): boolean {
+  return new RegExp(`\\{\\{\\s*(#\\w+\\s+)?${name}\\b`).test(template);
+}
+
+/** Template fields for a note. */
+export function noteTemplateContext(note: RawNote): TemplateContext {
+  return {
+    id: note.id,
+    title: note.title.replace(/[\r\n]+/g, " "),
+    content: note.content,
+    tags: note.tags,
+    created: note.createdAt,
+    updated: note.updatedAt,
+    source_url: note.sourceUrl ?? "",
+    original_content: note.originalContent ?? "",
+    origin: note.origin ?? "",
+    note_type: note.noteType ?? "",
+    entry_type: note.entryType ?? "",
+    embeds: note.embeds ?? [],
+  };
+}
@@ -0,0 +1,81 @@
+// INPUT: fetch (global, or passed in)
+// OUTPUT: HttpRequest, HttpResponse, HttpTransport, HttpStatusError, fetchTransport
+// POS: HTTP transport — the one seam between the API client and the network, so the client runs
+//      inside Obsidian (obsidian-transport.ts), from Node scripts and against local fake servers
+
+/** A request as the API client sends it; the body is already serialized. */
+export interface HttpRequest {
+  url: string;
+  method?: string; // Default GET
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+/** A 2xx response. Header names are lowercase; `json` throws when the body is not JSON. */
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  text: string;
+  json: unknown; // Payloads are checked where they are read
+  arrayBuffer: ArrayBuffer;
+}
+
+/**
+ * Sends one request, without retries. Resolves for 2xx responses only and
+ * throws HttpStatusError for every other status, so callers can tell HTTP
+ * failures (isHttpError) from network failures (anything else).
+ */
+export interface HttpTransport {
+  request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+/** A non-2xx response; matches isHttpError. Header names are lowercase. */
+export class HttpStatusError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly headers: Record<string, string> = {},
+  ) {
+    super(`Request failed, status ${status}`);
+    this.name = "HttpStatusError";
+  }
+}
+
+/** Response fields computed from the raw body on first use, like Obsidian's requestUrl. */
+export function createResponse(
+  status: number,
+  headers: Record<string, string>,
+  arrayBuffer: ArrayBuffer,
+): HttpResponse {
+  let text: string | undefined;
+  return {
+    status,
+    headers,
+    arrayBuffer,
+    get text() {
+      text ??= new TextDecoder().decode(arrayBuffer);
+      return text;
+    },
+    get json() {
+      return JSON.parse(this.text);
+    },
+  };
+}
+
+/**
+ * Transport over the Fetch API, for Node scripts and tests. Not for the
+ * plugin itself: Get笔记 does not allow cross-origin requests from Obsidian.
+ */
+export function fetchTransport(fetchImpl: typeof fetch = fetch): HttpTransport {
+  return {
+    async request({ url, method = "GET", headers, body }) {
+      const response = await fetchImpl(url, { method, headers, body });
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name.toLowerCase()] = value;
+      });
+      const data = await response.arrayBuffer();
+      if (!response.ok) throw new HttpStatusError(response.status, responseHeaders);
+      return createResponse(response.status, responseHeaders, data);
+    },
+  };
+}
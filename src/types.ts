@@ -1,5 +1,5 @@
 // INPUT: none
-// OUTPUT: RawNote, BijiTag, BijiNote interfaces
+// OUTPUT: RawNote, BijiTag, BijiAttachment, BijiNote interfaces
 // POS: Core data contracts for biji-sync note conversion
 
 export interface RawNote {
@@ -14,6 +14,9 @@ export interface RawNote {
   entryType?: string; // "ai", "manual", "initial"
   origin?: string; // "app", "wechat", "web", etc.
   originalContent?: string; // For link-type notes
+  attachments?: BijiAttachment[]; // Downloadable media (image/audio/file)
+  embeds?: string[]; // Vault paths of downloaded attachments, embedded as ![[...]]
+  account?: string; // Id of the account profile the note was synced with
 }
 
 export interface BijiTag {
@@ -23,6 +26,12 @@ export interface BijiTag {
   count?: number;
 }
 
+export interface BijiAttachment {
+  type: string; // "link", "image", "audio", "file", ...
+  url: string;
+  title: string;
+}
+
 export interface BijiNote {
   id: string;
   note_id: string;
@@ -33,7 +42,7 @@ export interface BijiNote {
   note_type: string;
   entry_type: string;
   tags: BijiTag[];
-  attachments: Array<{ type: string; url: string; title: string }>;
+  attachments: BijiAttachment[];
   created_at: string;
   updated_at: string;
   edit_time: string;
@@ -0,0 +1,53 @@
+// INPUT: obsidian (DataAdapter, types only)
+// OUTPUT: VaultFile, FrontMatter, SyncVault, FileAdapter, normalizePath
+// POS: Vault seam — the file operations the sync engine needs, implemented on Obsidian's vault
+//      (obsidian-vault.ts) and on a plain folder for the command line (fs-vault.ts)
+
+import type { DataAdapter } from "obsidian";
+
+/** A file in the vault; Obsidian's TFile satisfies it. Paths are vault-relative with "/" separators. */
+export interface VaultFile {
+  path: string;
+  name: string; // File name with extension
+  basename: string; // File name without extension
+  extension: string;
+}
+
+/** Parsed YAML frontmatter of a Markdown file, as in Obsidian's FrontMatterCache. */
+export type FrontMatter = Record<string, unknown>; // Values are whatever the YAML holds: narrow before use
+
+/**
+ * Everything the sync engine reads from and writes to the vault. Lookups are
+ * synchronous and answered from a cache (Obsidian's vault and MetadataCache,
+ * or the folder scan of FsVault); writes go through VaultWriter.
+ */
+export interface SyncVault {
+  getFile(path: string): VaultFile | null;
+  isFolder(path: string): boolean;
+  markdownFiles(): VaultFile[];
+  /** Cached frontmatter of a Markdown file, null when it has none. */
+  frontmatter(file: VaultFile): FrontMatter | null;
+  read(file: VaultFile): Promise<string>;
+  createFolder(path: string): Promise<void>;
+  /** Throws when a file already exists at `path`. */
+  create(path: string, data: string): Promise<VaultFile>;
+  modify(file: VaultFile, data: string): Promise<void>;
+  createBinary(path: string, data: ArrayBuffer): Promise<void>;
+  rename(file: VaultFile, newPath: string): Promise<void>;
+  /** Move to the vault's .trash folder. */
+  trash(file: VaultFile): Promise<void>;
+  processFrontMatter(file: VaultFile, fn: (frontmatter: FrontMatter) => void): Promise<void>;
+}
+
+/** The part of Obsidian's DataAdapter used by the JSON state files (note state, secrets). */
+export type FileAdapter = Pick<DataAdapter, "exists" | "read" | "write">;
+
+/**
+ * Obsidian's normalizePath, for code that also runs outside Obsidian:
+ * "/" separators only, no leading or trailing slash, NFC; "" becomes "/".
+ */
+export function normalizePath(path: string): string {
+  let result = path.replace(/[\\/]+/g, "/").replace(/^\/+|\/+$/g, "");
+  if (result === "") result = "/";
+  return result.replace(/\u00A0|\u202F/g, " ").normalize("NFC");
+}
@@ -0,0 +1,104 @@
+// INPUT: vault.ts (SyncVault, VaultFile, FrontMatter)
+// OUTPUT: PlannedAction, PlannedActionType, VaultWriter
+// POS: Write layer for the sync engine — performs vault writes or, in dry-run mode, only records them
+
+import type { FrontMatter, SyncVault, VaultFile } from "./vault";
+
+export type PlannedActionType =
+  | "create"
+  | "update"
+  | "conflict-file"
+  | "rename"
+  | "trash"
+  | "tag"
+  | "attachment"
+  | "attachment-skipped"
+  | "skip";
+
+/** One vault change (or skip) decided by a sync run. */
+export interface PlannedAction {
+  action: PlannedActionType;
+  path: string;
+  noteId: string;
+  reason: string;
+}
+
+/**
+ * Every vault write made by a sync run goes through this class.
+ *
+ * Each write is recorded in `actions` together with the note it belongs to
+ * and why it happens. With `dryRun` set, writes are only recorded: nothing is
+ * created, modified, moved or deleted, and `create` returns null.
+ * Reads stay on the SyncVault directly.
+ */
+export class VaultWriter {
+  readonly actions: PlannedAction[] = [];
+
+  constructor(
+    private vault: SyncVault,
+    readonly dryRun = false,
+  ) {}
+
+  /** Record a decision that involves no write of its own (skips, dry-run downloads). */
+  plan(action: PlannedActionType, path: string, noteId: string, reason: string): void {
+    this.actions.push({ action, path, noteId, reason });
+  }
+
+  async createFolder(path: string): Promise<void> {
+    if (this.dryRun) return; // Implied by the paths of the planned files
+    await this.vault.createFolder(path);
+  }
+
+  async create(
+    path: string,
+    data: string,
+    noteId: string,
+    reason: string,
+    action: PlannedActionType = "create",
+  ): Promise<VaultFile | null> {
+    this.plan(action, path, noteId, reason);
+    if (this.dryRun) return null;
+    return this.vault.create(path, data);
+  }
+
+  async modify(
+    file: VaultFile,
+    data: string,
+    noteId: string,
+    reason: string,
+    action: PlannedActionType = "update",
+  ): Promise<void> {
+    this.plan(action, file.path, noteId, reason);
+    if (this.dryRun) return;
+    await this.vault.modify(file, data);
+  }
+
+  async createBinary(path: string, data: ArrayBuffer, noteId: string, reason: string): Promise<void> {
+    this.plan("attachment", path, noteId, reason);
+    if (this.dryRun) return;
+    await this.vault.createBinary(path, data);
+  }
+
+  async rename(file: VaultFile, newPath: string, noteId: string, reason: string): Promise<void> {
+    this.plan("rename", file.path, noteId, `${reason} → ${newPath}`);
+    if (this.dryRun) return;
+    await this.vault.rename(file, newPath);
+  }
+
+  async trash(file: VaultFile, noteId: string, reason: string): Promise<void> {
+    this.plan("trash", file.path, noteId, reason);
+    if (this.dryRun) return;
+    await this.vault.trash(file);
+  }
+
+  async processFrontMatter(
+    file: VaultFile,
+    fn: (frontmatter: FrontMatter) => void,
+    noteId: string,
+    reason: string,
+  ): Promise<void> {
+    this.plan("tag", file.path, noteId, reason);
+    if (this.dryRun) return;
+    await this.vault.processFrontMatter(file, fn);
+  }
+}
@@ -47,6 +47,31 @@ export class Plugin {
   addSettingTab(_tab: any) {}
   addRibbonIcon(_icon: string, _title: string, _callback: () => void) {}
   addCommand(_command: any) {}
+  registerView(_type: string, _factory: (leaf: any) => any) {}
+  addStatusBarItem(): any {
+    return {};
+  }
+}
+
+export class WorkspaceLeaf {
+  view: any;
+}
+
+export class ItemView {
+  leaf: WorkspaceLeaf;
+  app: any;
+  constructor(leaf: WorkspaceLeaf) {
+    this.leaf = leaf;
+  }
+}
+
+export class Modal {
+  app: any;
+  constructor(app: any) {
+    this.app = app;
+  }
+  open() {}
+  close() {}
 }
 
 export class PluginSettingTab {
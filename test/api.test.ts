@@ -1,23 +1,25 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
-// vi.mock is hoisted — replaces the obsidian alias with a controlled mock
-vi.mock("obsidian", () => ({
-  requestUrl: vi.fn(),
-}));
-
-import { requestUrl } from "obsidian";
 import {
   requestWithRetry,
   AuthFatalError,
+  ApiSchemaError,
+  fetchNote,
+  fetchNotes,
   fetchLinkDetail,
+  downloadAttachment,
   apiHeaders,
   API_BASE,
 } from "../src/api";
 
-const mockRequestUrl = vi.mocked(requestUrl);
+import type { HttpTransport } from "../src/transport";
+
+// A controlled transport: each test scripts its responses and HTTP errors
+const mockRequest = vi.fn<Parameters<HttpTransport["request"]>, Promise<any>>();
+const transport: HttpTransport = { request: mockRequest };
 
 beforeEach(() => {
-  mockRequestUrl.mockReset();
+  mockRequest.mockReset();
 });
 
 // ── apiHeaders ──────────────────────────────────────────────────────
@@ -34,7 +36,7 @@ describe("apiHeaders", () => {
 // ── requestWithRetry ────────────────────────────────────────────────
 
 describe("requestWithRetry", () => {
-  const dummyRefresh = vi.fn<[], Promise<string>>();
+  const dummyRefresh = vi.fn<[string?], Promise<string>>();
   const params = {
     url: "https://example.com/api",
     headers: { Authorization: "Bearer old-jwt" },
@@ -47,11 +49,11 @@ describe("requestWithRetry", () => {
   // 1. Success on first try
   it("should return response on first successful call", async () => {
     const expected = { json: { ok: true }, status: 200 };
-    mockRequestUrl.mockResolvedValueOnce(expected);
+    mockRequest.mockResolvedValueOnce(expected);
 
-    const result = await requestWithRetry(params, dummyRefresh);
+    const result = await requestWithRetry(transport, params, dummyRefresh);
     expect(result).toBe(expected);
-    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+    expect(mockRequest).toHaveBeenCalledTimes(1);
   });
 
   // 2. 500 retry — fails twice, succeeds third time
@@ -61,12 +63,12 @@ describe("requestWithRetry", () => {
     const err500 = { status: 500, message: "Internal Server Error" };
     const expected = { json: { ok: true }, status: 200 };
 
-    mockRequestUrl
+    mockRequest
       .mockRejectedValueOnce(err500)
       .mockRejectedValueOnce(err500)
       .mockResolvedValueOnce(expected);
 
-    const promise = requestWithRetry(params, dummyRefresh);
+    const promise = requestWithRetry(transport, params, dummyRefresh);
 
     // Advance past first backoff (1000ms)
     await vi.advanceTimersByTimeAsync(1000);
@@ -75,7 +77,7 @@ describe("requestWithRetry", () => {
 
     const result = await promise;
     expect(result).toBe(expected);
-    expect(mockRequestUrl).toHaveBeenCalledTimes(3);
+    expect(mockRequest).toHaveBeenCalledTimes(3);
 
     vi.useRealTimers();
   });
@@ -85,12 +87,12 @@ describe("requestWithRetry", () => {
     vi.useFakeTimers();
 
     const err500 = { status: 500, message: "Internal Server Error" };
-    mockRequestUrl
+    mockRequest
       .mockRejectedValueOnce(err500)
       .mockRejectedValueOnce(err500)
       .mockRejectedValueOnce(err500);
 
-    const promise = requestWithRetry(params, dummyRefresh);
+    const promise = requestWithRetry(transport, params, dummyRefresh);
 
     // Attach rejection handler early to prevent unhandled rejection warning
     const resultPromise = promise.catch((e) => e);
@@ -100,7 +102,7 @@ describe("requestWithRetry", () => {
 
     const caught = await resultPromise;
     expect(caught).toEqual(err500);
-    expect(mockRequestUrl).toHaveBeenCalledTimes(3);
+    expect(mockRequest).toHaveBeenCalledTimes(3);
 
     vi.useRealTimers();
   });
@@ -116,11 +118,11 @@ describe("requestWithRetry", () => {
     };
     const expected = { json: { ok: true }, status: 200 };
 
-    mockRequestUrl
+    mockRequest
       .mockRejectedValueOnce(err429)
       .mockResolvedValueOnce(expected);
 
-    const promise = requestWithRetry(params, dummyRefresh);
+    const promise = requestWithRetry(transport, params, dummyRefresh);
 
     // Retry-After = 10s = 10000ms, backoff = 1000ms, max = 10000ms
     await vi.advanceTimersByTimeAsync(10000);
@@ -136,33 +138,43 @@ describe("requestWithRetry", () => {
     const err401 = { status: 401, message: "Unauthorized" };
     const expected = { json: { ok: true }, status: 200 };
 
-    mockRequestUrl
+    mockRequest
       .mockRejectedValueOnce(err401)
       .mockResolvedValueOnce(expected);
 
     dummyRefresh.mockResolvedValueOnce("new-jwt");
 
-    const result = await requestWithRetry(params, dummyRefresh);
+    const result = await requestWithRetry(transport, params, dummyRefresh);
     expect(result).toBe(expected);
     expect(dummyRefresh).toHaveBeenCalledTimes(1);
 
     // Verify the retry used the new JWT
-    const retryCall = mockRequestUrl.mock.calls[1][0];
+    const retryCall = mockRequest.mock.calls[1][0];
     expect(retryCall.headers.Authorization).toBe("Bearer new-jwt");
   });
 
+  it("should pass the rejected JWT to the refresh callback", async () => {
+    mockRequest
+      .mockRejectedValueOnce({ status: 401 })
+      .mockResolvedValueOnce({ json: {}, status: 200 });
+    dummyRefresh.mockResolvedValueOnce("new-jwt");
+
+    await requestWithRetry(transport, params, dummyRefresh);
+    expect(dummyRefresh).toHaveBeenCalledWith("old-jwt");
+  });
+
   // 6. 401 double fail — AuthFatalError
   it("should throw AuthFatalError on 401 double fail", async () => {
     const err401 = { status: 401, message: "Unauthorized" };
 
     // First call: 401 -> refresh succeeds -> retry still 401 -> AuthFatalError
-    mockRequestUrl
+    mockRequest
       .mockRejectedValueOnce(err401)
       .mockRejectedValueOnce(err401);
 
     dummyRefresh.mockResolvedValueOnce("new-jwt");
 
-    await expect(requestWithRetry(params, dummyRefresh)).rejects.toThrow(
+    await expect(requestWithRetry(transport, params, dummyRefresh)).rejects.toThrow(
       AuthFatalError,
     );
   });
@@ -171,10 +183,10 @@ describe("requestWithRetry", () => {
   it("should throw AuthFatalError when refresh callback fails", async () => {
     const err401 = { status: 401, message: "Unauthorized" };
 
-    mockRequestUrl.mockRejectedValueOnce(err401);
+    mockRequest.mockRejectedValueOnce(err401);
     dummyRefresh.mockRejectedValueOnce(new Error("Refresh failed"));
 
-    await expect(requestWithRetry(params, dummyRefresh)).rejects.toThrow(
+    await expect(requestWithRetry(transport, params, dummyRefresh)).rejects.toThrow(
       AuthFatalError,
     );
     expect(dummyRefresh).toHaveBeenCalledTimes(1);
@@ -183,12 +195,12 @@ describe("requestWithRetry", () => {
   // 8. 404 immediate fail — no retry
   it("should throw immediately on 404 without retrying", async () => {
     const err404 = { status: 404, message: "Not Found" };
-    mockRequestUrl.mockRejectedValueOnce(err404);
+    mockRequest.mockRejectedValueOnce(err404);
 
-    await expect(requestWithRetry(params, dummyRefresh)).rejects.toEqual(
+    await expect(requestWithRetry(transport, params, dummyRefresh)).rejects.toEqual(
       err404,
     );
-    expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+    expect(mockRequest).toHaveBeenCalledTimes(1);
     expect(dummyRefresh).not.toHaveBeenCalled();
   });
 
@@ -199,17 +211,17 @@ describe("requestWithRetry", () => {
     const networkErr = new Error("ECONNRESET");
     const expected = { json: { ok: true }, status: 200 };
 
-    mockRequestUrl
+    mockRequest
       .mockRejectedValueOnce(networkErr)
       .mockResolvedValueOnce(expected);
 
-    const promise = requestWithRetry(params, dummyRefresh);
+    const promise = requestWithRetry(transport, params, dummyRefresh);
 
     await vi.advanceTimersByTimeAsync(1000);
 
     const result = await promise;
     expect(result).toBe(expected);
-    expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
 
     vi.useRealTimers();
   });
@@ -218,7 +230,7 @@ describe("requestWithRetry", () => {
 // ── fetchLinkDetail ─────────────────────────────────────────────────
 
 describe("fetchLinkDetail", () => {
-  const dummyRefresh = vi.fn<[], Promise<string>>();
+  const dummyRefresh = vi.fn<[string?], Promise<string>>();
 
   beforeEach(() => {
     dummyRefresh.mockReset();
@@ -226,49 +238,49 @@ describe("fetchLinkDetail", () => {
 
   // 10. has_content true — returns content
   it("should return content when has_content is true", async () => {
-    mockRequestUrl.mockResolvedValueOnce({
+    mockRequest.mockResolvedValueOnce({
       json: { c: { has_content: true, content: "<p>Article text</p>" } },
       status: 200,
     });
 
-    const result = await fetchLinkDetail("jwt", "note-123", dummyRefresh);
+    const result = await fetchLinkDetail(transport, "jwt", "note-123", dummyRefresh);
     expect(result).toBe("<p>Article text</p>");
 
     // Verify correct URL was called
-    const callUrl = mockRequestUrl.mock.calls[0][0].url;
+    const callUrl = mockRequest.mock.calls[0][0].url;
     expect(callUrl).toBe(`${API_BASE}/notes/note-123/links/detail`);
   });
 
   // 11. has_content false — returns null
   it("should return null when has_content is false", async () => {
-    mockRequestUrl.mockResolvedValueOnce({
+    mockRequest.mockResolvedValueOnce({
       json: { c: { has_content: false } },
       status: 200,
     });
 
-    const result = await fetchLinkDetail("jwt", "note-456", dummyRefresh);
+    const result = await fetchLinkDetail(transport, "jwt", "note-456", dummyRefresh);
     expect(result).toBeNull();
   });
 
   // 12. Request fails (non-auth) — returns null (non-fatal)
   it("should return null on non-auth request failure", async () => {
-    mockRequestUrl.mockRejectedValueOnce({
+    mockRequest.mockRejectedValueOnce({
       status: 500,
       message: "Internal Server Error",
     });
     // Retry attempts also fail
-    mockRequestUrl.mockRejectedValueOnce({
+    mockRequest.mockRejectedValueOnce({
       status: 500,
       message: "Internal Server Error",
     });
-    mockRequestUrl.mockRejectedValueOnce({
+    mockRequest.mockRejectedValueOnce({
       status: 500,
       message: "Internal Server Error",
     });
 
     const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
 
-    const result = await fetchLinkDetail("jwt", "note-789", dummyRefresh);
+    const result = await fetchLinkDetail(transport, "jwt", "note-789", dummyRefresh);
     expect(result).toBeNull();
 
     consoleSpy.mockRestore();
@@ -277,14 +289,130 @@ describe("fetchLinkDetail", () => {
   // 13. AuthFatalError propagates
   it("should propagate AuthFatalError", async () => {
     // 401 -> refresh fails -> AuthFatalError
-    mockRequestUrl.mockRejectedValueOnce({
+    mockRequest.mockRejectedValueOnce({
       status: 401,
       message: "Unauthorized",
     });
     dummyRefresh.mockRejectedValueOnce(new Error("Refresh failed"));
 
     await expect(
-      fetchLinkDetail("jwt", "note-xxx", dummyRefresh),
+      fetchLinkDetail(transport, "jwt", "note-xxx", dummyRefresh),
     ).rejects.toThrow(AuthFatalError);
   });
 });
+
+// ── fetchNotes ──────────────────────────────────────────────────────
+
+describe("fetchNotes", () => {
+  const dummyRefresh = vi.fn<[string?], Promise<string>>();
+
+  it("should yield the page with the total reported by the server", async () => {
+    mockRequest.mockResolvedValueOnce({ json: { c: { list: [{ id: "note-1" }], total: 7 } }, status: 200 } as any);
+
+    const pages = [];
+    for await (const page of fetchNotes(transport, "jwt", dummyRefresh)) pages.push(page);
+
+    expect(pages).toEqual([{ notes: [{ id: "note-1" }], isLastPage: true, total: 7 }]);
+  });
+
+  it("should throw ApiSchemaError when the page has no list", async () => {
+    mockRequest.mockResolvedValueOnce({ json: { c: { notes: [] } }, status: 200 } as any);
+
+    const walk = async () => {
+      for await (const _page of fetchNotes(transport, "jwt", dummyRefresh)) {
+        // Never reached
+      }
+    };
+    await expect(walk()).rejects.toThrow(ApiSchemaError);
+  });
+});
+
+// ── fetchNote ───────────────────────────────────────────────────────
+
+describe("fetchNote", () => {
+  const dummyRefresh = vi.fn<[string?], Promise<string>>();
+
+  it("should return the note from the detail endpoint", async () => {
+    mockRequest.mockResolvedValueOnce({
+      json: { c: { id: "note-123", title: "Hello" } },
+      status: 200,
+    });
+
+    const result = await fetchNote(transport, "jwt", "note-123", dummyRefresh);
+    expect(result).toEqual({ id: "note-123", title: "Hello" });
+    expect(mockRequest.mock.calls[0][0].url).toBe(`${API_BASE}/notes/note-123`);
+  });
+
+  it("should return null when the note no longer exists", async () => {
+    mockRequest.mockRejectedValueOnce({ status: 404, message: "Not Found" });
+
+    await expect(fetchNote(transport, "jwt", "note-gone", dummyRefresh)).resolves.toBeNull();
+  });
+
+  it("should throw other failures so the attempt is counted", async () => {
+    mockRequest.mockRejectedValueOnce({ status: 400, message: "Bad Request" });
+
+    await expect(fetchNote(transport, "jwt", "note-bad", dummyRefresh)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("should throw ApiSchemaError for a body without a note", async () => {
+    mockRequest.mockResolvedValueOnce({ json: { c: { success: false } }, status: 200 });
+
+    await expect(fetchNote(transport, "jwt", "note-123", dummyRefresh)).rejects.toMatchObject({
+      name: "ApiSchemaError",
+      field: "c.id",
+    });
+  });
+});
+
+// ── downloadAttachment ──────────────────────────────────────────────
+
+describe("downloadAttachment", () => {
+  it("should probe the size, then return the downloaded bytes", async () => {
+    const data = new ArrayBuffer(16);
+    mockRequest
+      .mockResolvedValueOnce({ arrayBuffer: new ArrayBuffer(1), status: 206, headers: { "content-range": "bytes 0-0/16" } })
+      .mockResolvedValueOnce({ arrayBuffer: data, status: 200, headers: {} });
+
+    const result = await downloadAttachment(transport, "https://cdn.example.com/a.png", 1024);
+    expect(result).toEqual({ data });
+    expect(mockRequest.mock.calls[0][0].headers).toEqual({ Range: "bytes=0-0" });
+    // Pre-signed URLs: no Authorization header is sent
+    expect(mockRequest.mock.calls[1][0].headers).toBeUndefined();
+  });
+
+  it("should skip files over maxBytes without downloading them", async () => {
+    mockRequest.mockResolvedValueOnce({
+      arrayBuffer: new ArrayBuffer(1),
+      status: 206,
+      headers: { "content-range": "bytes 0-0/2048" },
+    });
+
+    const result = await downloadAttachment(transport, "https://cdn.example.com/big.mp3", 1024);
+    expect(result).toEqual({ skipped: "2048 bytes, over the 1024-byte limit" });
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("should use the body when the server ignores the range", async () => {
+    const data = new ArrayBuffer(16);
+    mockRequest.mockResolvedValueOnce({ arrayBuffer: data, status: 200, headers: {} });
+
+    expect(await downloadAttachment(transport, "https://cdn.example.com/a.png", 1024)).toEqual({ data });
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip a full body over maxBytes", async () => {
+    mockRequest.mockResolvedValueOnce({ arrayBuffer: new ArrayBuffer(2048), status: 200, headers: {} });
+
+    const result = await downloadAttachment(transport, "https://cdn.example.com/big.mp3", 1024);
+    expect(result).toEqual({ skipped: "2048 bytes, over the 1024-byte limit" });
+  });
+
+  it("should skip instead of throwing on 403 (expired link)", async () => {
+    mockRequest.mockRejectedValueOnce({ status: 403, message: "Forbidden" });
+
+    const result = await downloadAttachment(transport, "https://cdn.example.com/a.png", 1024);
+    expect(result).toEqual({ skipped: "download failed, status 403" });
+    expect(mockRequest).toHaveBeenCalledTimes(1);
+  });
+});
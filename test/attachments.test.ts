@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TFile, TFolder } from "obsidian";
+import { DEFAULT_SETTINGS } from "../src/settings-schema";
+import type BijiSyncPlugin from "../src/main";
+
+const { mockDownloadAttachment } = vi.hoisted(() => ({
+  mockDownloadAttachment: vi.fn(),
+}));
+
+vi.mock("../src/api", () => ({
+  downloadAttachment: (...args: any[]) => mockDownloadAttachment(...args),
+}));
+
+import { attachmentPath, saveAttachments } from "../src/attachments";
+import { VaultWriter } from "../src/writer";
+import { ObsidianVault } from "../src/obsidian-vault";
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function createMockPlugin(existing: string[] = []): BijiSyncPlugin {
+  const plugin = {
+    settings: { ...DEFAULT_SETTINGS, attachmentFolder: "Media", maxAttachmentSizeMB: 1 },
+    transport: { request: vi.fn() },
+    app: {
+      vault: {
+        getAbstractFileByPath: vi.fn((path: string) => {
+          if (path === "Media") return new TFolder(path);
+          return existing.includes(path) ? new TFile(path) : null;
+        }),
+        createFolder: vi.fn().mockResolvedValue(undefined),
+        createBinary: vi.fn().mockResolvedValue(new TFile()),
+      },
+    },
+  } as unknown as BijiSyncPlugin;
+  plugin.vault = new ObsidianVault(plugin.app);
+  return plugin;
+}
+
+const image = { type: "image", url: "https://cdn.example.com/x/photo.PNG?sig=1", title: "My photo" };
+
+// ── attachmentPath ──────────────────────────────────────────────────
+
+describe("attachmentPath", () => {
+  it("uses the URL extension and a URL hash", async () => {
+    expect(await attachmentPath("Media", image)).toMatch(/^Media\/My photo-[0-9a-f]{16}\.png$/);
+  });
+
+  it("falls back to the title extension, then the attachment type", async () => {
+    expect(
+      await attachmentPath("Media", { type: "file", url: "https://cdn/x", title: "report.pdf" }),
+    ).toMatch(/\/report-[0-9a-f]{16}\.pdf$/);
+    expect(
+      await attachmentPath("Media", { type: "audio", url: "https://cdn/x", title: "" }),
+    ).toMatch(/\/audio-[0-9a-f]{16}\.mp3$/);
+  });
+
+  it("is stable for the same URL and differs for different URLs", async () => {
+    const other = { ...image, url: "https://cdn.example.com/y/photo.png" };
+    expect(await attachmentPath("Media", image)).toBe(await attachmentPath("Media", image));
+    expect(await attachmentPath("Media", image)).not.toBe(await attachmentPath("Media", other));
+  });
+
+  it("ignores signing parameters and the fragment, so re-signed URLs map to the same file", async () => {
+    const resigned = { ...image, url: "https://cdn.example.com/x/photo.PNG?Expires=9&sig=2#top" };
+    expect(await attachmentPath("Media", resigned)).toBe(await attachmentPath("Media", image));
+  });
+
+  it("keeps the other query parameters, in any order", async () => {
+    const file = (query: string) => ({ type: "file", url: `https://cdn.example.com/download?${query}`, title: "a.pdf" });
+    expect(await attachmentPath("Media", file("id=1&sig=x"))).not.toBe(
+      await attachmentPath("Media", file("id=2&sig=x")),
+    );
+    expect(await attachmentPath("Media", file("id=1&v=2&sig=x"))).toBe(
+      await attachmentPath("Media", file("v=2&sig=y&id=1")),
+    );
+  });
+});
+
+// ── saveAttachments ─────────────────────────────────────────────────
+
+describe("saveAttachments", () => {
+  beforeEach(() => {
+    mockDownloadAttachment.mockReset();
+  });
+
+  it("downloads and writes new attachments", async () => {
+    const plugin = createMockPlugin();
+    const data = new ArrayBuffer(8);
+    mockDownloadAttachment.mockResolvedValueOnce({ data });
+
+    const paths = await saveAttachments(plugin, new VaultWriter(plugin.vault), "note-1", [image]);
+
+    expect(paths).toEqual([await attachmentPath("Media", image)]);
+    expect(mockDownloadAttachment).toHaveBeenCalledWith(plugin.transport, image.url, 1024 * 1024);
+    expect(plugin.app.vault.createBinary).toHaveBeenCalledWith(paths[0], data);
+  });
+
+  it("reuses attachments that were already downloaded", async () => {
+    const plugin = createMockPlugin([await attachmentPath("Media", image)]);
+
+    const paths = await saveAttachments(plugin, new VaultWriter(plugin.vault), "note-1", [image]);
+
+    expect(paths).toEqual([await attachmentPath("Media", image)]);
+    expect(mockDownloadAttachment).not.toHaveBeenCalled();
+  });
+
+  it("skips failed downloads, records why and keeps the rest", async () => {
+    const plugin = createMockPlugin();
+    const writer = new VaultWriter(plugin.vault);
+    const audio = { type: "audio", url: "https://cdn.example.com/v.m4a", title: "voice" };
+    mockDownloadAttachment
+      .mockResolvedValueOnce({ skipped: "download failed, status 403" })
+      .mockResolvedValueOnce({ data: new ArrayBuffer(1) });
+
+    const paths = await saveAttachments(plugin, writer, "note-1", [image, audio]);
+
+    expect(paths).toEqual([await attachmentPath("Media", audio)]);
+    expect(writer.actions[0]).toEqual({
+      action: "attachment-skipped",
+      path: await attachmentPath("Media", image),
+      noteId: "note-1",
+      reason: `${image.url}: download failed, status 403`,
+    });
+  });
+
+  it("skips attachments whose write fails", async () => {
+    const plugin = createMockPlugin();
+    mockDownloadAttachment.mockResolvedValue({ data: new ArrayBuffer(1) });
+    (plugin.app.vault.createBinary as any).mockRejectedValueOnce(new Error("EACCES"));
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await saveAttachments(plugin, new VaultWriter(plugin.vault), "note-1", [image])).toEqual([]);
+    consoleSpy.mockRestore();
+  });
+
+  it("creates the attachment folder on demand", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockReturnValue(null);
+    mockDownloadAttachment.mockResolvedValueOnce({ data: new ArrayBuffer(1) });
+
+    await saveAttachments(plugin, new VaultWriter(plugin.vault), "note-1", [image]);
+
+    expect(plugin.app.vault.createFolder).toHaveBeenCalledWith("Media");
+  });
+
+  it("plans downloads without fetching anything in a dry run", async () => {
+    const plugin = createMockPlugin();
+    const writer = new VaultWriter(plugin.vault, true);
+
+    const paths = await saveAttachments(plugin, writer, "note-1", [image]);
+
+    expect(paths).toEqual([await attachmentPath("Media", image)]);
+    expect(mockDownloadAttachment).not.toHaveBeenCalled();
+    expect(plugin.app.vault.createBinary).not.toHaveBeenCalled();
+    expect(writer.actions).toEqual([
+      { action: "attachment", path: paths[0], noteId: "note-1", reason: `download ${image.url}` },
+    ]);
+  });
+});
@@ -1,10 +1,25 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
 import {
   decodeJwt,
   isJwtExpired,
   checkTokenExpiration,
   validateRefreshToken,
+  parseRefreshResponse,
+  refreshTokenExpiry,
+  describeTokenLifetime,
+  refreshJwt,
+  normalizePhone,
+  validatePhone,
+  sendLoginCode,
+  loginWithCode,
 } from "../src/auth";
+import { ApiSchemaError } from "../src/api";
+import { fetchTransport } from "../src/transport";
+
+// Real HTTP, so the login and refresh steps run against a local fake server
+const transport = fetchTransport();
 
 /**
  * Helper to create a JWT string with a given payload.
@@ -131,6 +146,13 @@ describe("checkTokenExpiration", () => {
     expect(result).toBeNull();
   });
 
+  it("should prefer the expiry reported by the refresh endpoint", () => {
+    const reported = 1700000000000 + 2 * 86400 * 1000; // 2 days from now
+    expect(checkTokenExpiration("opaque-token", reported)).toBe(
+      "Get笔记 refresh token expires in 2 days, please update"
+    );
+  });
+
   it("should return null for empty token", () => {
     expect(checkTokenExpiration("")).toBeNull();
   });
@@ -173,3 +195,162 @@ describe("validateRefreshToken", () => {
     expect(validateRefreshToken("two.parts")).toBeNull();
   });
 });
+
+describe("parseRefreshResponse", () => {
+  it("should return the access JWT and no rotation for a plain response", () => {
+    const result = parseRefreshResponse({ c: { success: true, token: { token: "jwt" } } }, "old");
+    expect(result).toEqual({ jwt: "jwt", refreshToken: null, refreshTokenExpiresAt: null });
+  });
+
+  it("should capture a rotated refresh token and its expiry in seconds", () => {
+    const result = parseRefreshResponse(
+      { c: { success: true, token: { token: "jwt", refresh_token: "new", refresh_token_expire_at: 1800000000 } } },
+      "old",
+    );
+    expect(result).toEqual({ jwt: "jwt", refreshToken: "new", refreshTokenExpiresAt: 1800000000000 });
+  });
+
+  it("should accept expiries in milliseconds and as strings", () => {
+    const token = { token: "jwt", refresh_token: "old", refresh_token_expire_at: "1800000000000" };
+    expect(parseRefreshResponse({ c: { success: true, token } }, "old")).toEqual({
+      jwt: "jwt",
+      refreshToken: null, // Same token echoed back is not a rotation
+      refreshTokenExpiresAt: 1800000000000,
+    });
+  });
+
+  it("should fall back to the exp of a rotated JWT refresh token", () => {
+    const rotated = makeJwt({ exp: 1800000000 });
+    const result = parseRefreshResponse({ c: { success: true, token: { token: "jwt", refresh_token: rotated } } }, "old");
+    expect(result.refreshTokenExpiresAt).toBe(1800000000000);
+  });
+
+  it("should throw when the refresh failed or has no access JWT", () => {
+    expect(() => parseRefreshResponse({ c: { success: false } }, "old")).toThrow("Refresh token invalid or expired");
+    expect(() => parseRefreshResponse({ c: { success: true, token: {} } }, "old")).toThrow(ApiSchemaError);
+    expect(() => parseRefreshResponse(null, "old")).toThrow(ApiSchemaError);
+  });
+});
+
+describe("refreshTokenExpiry", () => {
+  it("should use the stored expiry, then the token's own exp", () => {
+    const jwt = makeJwt({ exp: 1800000000 });
+    expect(refreshTokenExpiry(jwt, 1900000000000)).toBe(1900000000000);
+    expect(refreshTokenExpiry(jwt, null)).toBe(1800000000000);
+  });
+
+  it("should return null for opaque or missing tokens without a stored expiry", () => {
+    expect(refreshTokenExpiry("opaque", null)).toBeNull();
+    expect(refreshTokenExpiry("", 1900000000000)).toBeNull();
+  });
+});
+
+describe("describeTokenLifetime", () => {
+  const now = 1700000000000;
+  const hour = 60 * 60 * 1000;
+
+  it("should describe days, hours and expiry", () => {
+    expect(describeTokenLifetime(now + 10 * 24 * hour, now)).toBe("expires in 10 days");
+    expect(describeTokenLifetime(now + 5 * hour, now)).toBe("expires in 5 hours");
+    expect(describeTokenLifetime(now + 60 * 1000, now)).toBe("expires in less than an hour");
+    expect(describeTokenLifetime(now - hour, now)).toBe("expired");
+  });
+});
+
+// ── Login and refresh against a fake account server ─────────────────
+
+describe("auth endpoints (fake server)", () => {
+  let server: Server;
+  let base: string;
+  const requests: Array<{ path: string; body: any }> = [];
+  const sentCodes = new Map<string, string>();
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const body = raw ? JSON.parse(raw) : {};
+        requests.push({ path: req.url ?? "", body });
+        const reply = (status: number, json: unknown) => {
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(json));
+        };
+
+        if (req.url === "/auth/sms/send") {
+          if (body.phone === "13900000000") return reply(200, { c: { success: false } });
+          sentCodes.set(body.phone, "246810");
+          return reply(200, { c: { success: true } });
+        }
+        if (req.url === "/auth/login/sms") {
+          if (sentCodes.get(body.phone) !== body.code) return reply(200, { c: { success: false } });
+          return reply(200, {
+            c: {
+              success: true,
+              token: { token: "jwt-1", refresh_token: "refresh-1", refresh_token_expire_at: 1800000000 },
+            },
+          });
+        }
+        if (req.url === "/auth/refresh") {
+          if (body.refresh_token === "refresh-1") {
+            return reply(200, { c: { success: true, token: { token: "jwt-2", refresh_token: "refresh-2" } } });
+          }
+          return reply(401, { c: { success: false } });
+        }
+        reply(404, {});
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/auth`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    sentCodes.clear();
+  });
+
+  it("should log in with a texted code and return the new session", async () => {
+    await sendLoginCode(transport, "138 0000-0000", base);
+    expect(requests[0]).toEqual({ path: "/auth/sms/send", body: { phone: "13800000000" } });
+
+    const result = await loginWithCode(transport, "13800000000", " 246810 ", base);
+    expect(result).toEqual({ jwt: "jwt-1", refreshToken: "refresh-1", refreshTokenExpiresAt: 1800000000000 });
+  });
+
+  it("should reject a wrong verification code", async () => {
+    await sendLoginCode(transport, "13800000000", base);
+    await expect(loginWithCode(transport, "13800000000", "000000", base)).rejects.toThrow(
+      "Verification code invalid or expired",
+    );
+  });
+
+  it("should throw when the server refuses to send a code", async () => {
+    await expect(sendLoginCode(transport, "13900000000", base)).rejects.toThrow("Could not send the verification code");
+  });
+
+  it("should capture a refresh token rotated by the refresh endpoint", async () => {
+    expect(await refreshJwt(transport, "refresh-1", base)).toEqual({
+      jwt: "jwt-2",
+      refreshToken: "refresh-2",
+      refreshTokenExpiresAt: null,
+    });
+    await expect(refreshJwt(transport, "revoked", base)).rejects.toMatchObject({ status: 401 });
+  });
+});
+
+describe("validatePhone", () => {
+  it("should accept digits with optional separators and country prefix", () => {
+    expect(validatePhone("138 0000 0000")).toBeNull();
+    expect(validatePhone("+8613800000000")).toBeNull();
+    expect(normalizePhone(" +86 138-0000-0000 ")).toBe("+8613800000000");
+  });
+
+  it("should reject empty and non-numeric input", () => {
+    expect(validatePhone("")).toBe("Enter your phone number");
+    expect(validatePhone("abc")).toBe("Phone number should contain digits only");
+  });
+});
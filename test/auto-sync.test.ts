@@ -3,7 +3,10 @@
 // POS: Test layer — validates auto-sync lifecycle, silent mode, MetadataCache gate
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { DEFAULT_SETTINGS, BijiSyncSettings } from "../src/settings";
+import { DEFAULT_SETTINGS, BijiSyncSettings } from "../src/settings-schema";
+import { DEFAULT_PROFILE_ID, PROFILE_KEYS, createProfile, extractSecrets } from "../src/profiles";
+import type { AccountProfile } from "../src/profiles";
+import { SecretStore } from "../src/secrets";
 
 // ── Provide global `window` for Node environment (Obsidian runs in Electron) ─
 
@@ -43,6 +46,7 @@ const {
 vi.mock("obsidian", () => ({
   Plugin: class {
     app: any = {};
+    manifest: any = { dir: ".obsidian/plugins/getbiji-sync" };
     loadData = vi.fn().mockResolvedValue({});
     saveData = vi.fn().mockResolvedValue(undefined);
     addSettingTab = vi.fn();
@@ -50,7 +54,16 @@ vi.mock("obsidian", () => ({
     addCommand = vi.fn();
     registerInterval = vi.fn();
     registerEvent = vi.fn();
+    registerView = vi.fn();
+    addStatusBarItem = vi.fn(() => ({
+      addClass: vi.fn(),
+      removeClass: vi.fn(),
+      setText: vi.fn(),
+      setAttr: vi.fn(),
+      addEventListener: vi.fn(),
+    }));
   },
+  ItemView: class {},
   Notice: class {
     message: string;
     constructor(message: string) {
@@ -59,6 +72,9 @@ vi.mock("obsidian", () => ({
     }
   },
   PluginSettingTab: class {},
+  Modal: class {
+    open = vi.fn();
+  },
   Setting: class {
     setName() { return this; }
     setDesc() { return this; }
@@ -93,22 +109,51 @@ import BijiSyncPlugin from "../src/main";
 
 // ── Helpers ─────────────────────────────────────────────────────────
 
+function createMemoryAdapter() {
+  const files = new Map<string, string>();
+  return {
+    files,
+    exists: vi.fn(async (path: string) => files.has(path)),
+    read: vi.fn(async (path: string) => files.get(path) ?? ""),
+    write: vi.fn(async (path: string, data: string) => {
+      files.set(path, data);
+    }),
+  };
+}
+
+/** Plugin with one account profile (with a token); per-account overrides go into that profile. */
 function createPlugin(
-  settingsOverrides: Partial<BijiSyncSettings> = {},
+  overrides: Partial<BijiSyncSettings> & Partial<AccountProfile> = {},
 ): BijiSyncPlugin {
+  const settings: Record<string, unknown> = {};
+  const profile: Partial<AccountProfile> = {};
+  for (const [key, value] of Object.entries(overrides)) {
+    if ((PROFILE_KEYS as readonly string[]).includes(key)) Object.assign(profile, { [key]: value });
+    else settings[key] = value;
+  }
   const plugin = new BijiSyncPlugin();
   plugin.settings = {
     ...DEFAULT_SETTINGS,
-    ...settingsOverrides,
+    profiles: [createProfile(DEFAULT_PROFILE_ID, "Default", profile)],
+    ...settings,
   };
   // Set up app.metadataCache for onload tests
   plugin.app = {
+    vault: {
+      on: vi.fn(),
+      adapter: createMemoryAdapter(),
+    },
     metadataCache: {
       resolved: true,
       on: vi.fn(),
       offref: vi.fn(),
     },
+    workspace: {
+      getLeavesOfType: vi.fn().mockReturnValue([]),
+    },
   } as any;
+  plugin.secrets = new SecretStore(plugin.app.vault.adapter, "secrets.json");
+  plugin.secrets.set(DEFAULT_PROFILE_ID, { refreshToken: "token" });
   return plugin;
 }
 
@@ -122,7 +167,7 @@ describe("startAutoSync / stopAutoSync lifecycle", () => {
 
   it("should call setInterval with correct milliseconds", () => {
     const plugin = createPlugin({ autoSyncInterval: 15 });
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
 
     expect(mockSetInterval).toHaveBeenCalledWith(
       expect.any(Function),
@@ -132,14 +177,14 @@ describe("startAutoSync / stopAutoSync lifecycle", () => {
 
   it("should register interval with Obsidian for cleanup", () => {
     const plugin = createPlugin({ autoSyncInterval: 30 });
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
 
     expect(plugin.registerInterval).toHaveBeenCalledWith(42);
   });
 
   it("should call clearInterval on stopAutoSync", () => {
     const plugin = createPlugin();
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
     (plugin as any).stopAutoSync();
 
     expect(mockClearInterval).toHaveBeenCalledWith(42);
@@ -154,7 +199,7 @@ describe("startAutoSync / stopAutoSync lifecycle", () => {
 
   it("should clamp interval to minimum 5 minutes", () => {
     const plugin = createPlugin({ autoSyncInterval: 1 });
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
 
     expect(mockSetInterval).toHaveBeenCalledWith(
       expect.any(Function),
@@ -166,13 +211,13 @@ describe("startAutoSync / stopAutoSync lifecycle", () => {
     const plugin = createPlugin({ autoSyncInterval: 30 });
     const triggerSpy = vi.spyOn(plugin, "triggerSync").mockResolvedValue(undefined);
 
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
 
     // Extract and invoke the callback passed to setInterval
     const callback = mockSetInterval.mock.calls[0][0];
     callback();
 
-    expect(triggerSpy).toHaveBeenCalledWith({ silent: true });
+    expect(triggerSpy).toHaveBeenCalledWith({ silent: true, profileId: DEFAULT_PROFILE_ID });
     triggerSpy.mockRestore();
   });
 
@@ -181,8 +226,8 @@ describe("startAutoSync / stopAutoSync lifecycle", () => {
 
     mockSetInterval.mockReturnValueOnce(100).mockReturnValueOnce(200);
 
-    (plugin as any).startAutoSync();
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
 
     expect(mockClearInterval).toHaveBeenCalledWith(100);
   });
@@ -206,9 +251,9 @@ describe("onAutoSyncSettingsChanged", () => {
 
   it("should stop timer when autoSyncEnabled is false", () => {
     const plugin = createPlugin({ autoSyncEnabled: true });
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
 
-    plugin.settings.autoSyncEnabled = false;
+    plugin.settings.profiles[0].autoSyncEnabled = false;
     plugin.onAutoSyncSettingsChanged();
 
     expect(mockClearInterval).toHaveBeenCalled();
@@ -275,7 +320,10 @@ describe("MetadataCache readiness gate on load", () => {
     await plugin.onload();
 
     expect(mockSetInterval).not.toHaveBeenCalled();
-    expect(plugin.app.metadataCache.on).not.toHaveBeenCalled();
+    expect(plugin.app.metadataCache.on).not.toHaveBeenCalledWith(
+      "resolved",
+      expect.any(Function),
+    );
   });
 });
 
@@ -301,7 +349,7 @@ describe("triggerSync silent mode", () => {
 
   it("should NOT stop auto-sync after 1 AuthFatalError in silent mode", async () => {
     const plugin = createPlugin({ autoSyncEnabled: true });
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
     mockClearInterval.mockClear();
 
     mockSyncBiji.mockRejectedValueOnce(
@@ -316,7 +364,7 @@ describe("triggerSync silent mode", () => {
 
   it("should stop auto-sync after 3 consecutive AuthFatalErrors in silent mode", async () => {
     const plugin = createPlugin({ autoSyncEnabled: true });
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
     mockClearInterval.mockClear();
 
     for (let i = 0; i < 3; i++) {
@@ -336,7 +384,7 @@ describe("triggerSync silent mode", () => {
 
   it("should reset auth failure counter on successful sync", async () => {
     const plugin = createPlugin({ autoSyncEnabled: true });
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
     mockClearInterval.mockClear();
 
     // 2 failures
@@ -419,6 +467,133 @@ describe("triggerSync silent mode", () => {
   });
 });
 
+describe("sync history", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSyncBiji.mockResolvedValue(undefined);
+  });
+
+  it("should record a manual run with the status reported by syncBiji", async () => {
+    const plugin = createPlugin();
+    mockSyncBiji.mockImplementationOnce(async (_plugin: any, _profile: any, _signal: any, options: any) => {
+      options.run.created = 2;
+      options.run.status = "complete";
+    });
+
+    await plugin.triggerSync();
+
+    expect(plugin.settings.syncHistory).toHaveLength(1);
+    const [run] = plugin.settings.syncHistory;
+    expect(run).toMatchObject({ trigger: "manual", status: "complete", created: 2 });
+    expect(run.endedAt).toBeGreaterThanOrEqual(run.startedAt);
+    expect(plugin.saveData).toHaveBeenCalled();
+  });
+
+  it("should record auto runs and failures with their message", async () => {
+    const plugin = createPlugin();
+    mockSyncBiji.mockRejectedValueOnce(new MockAuthFatalError("Token expired"));
+
+    await plugin.triggerSync({ silent: true });
+
+    expect(plugin.settings.syncHistory[0]).toMatchObject({
+      trigger: "auto",
+      status: "failed",
+      message: "Token expired",
+    });
+  });
+
+  it("should keep the newest run first", async () => {
+    const plugin = createPlugin();
+    await plugin.triggerSync();
+    await plugin.triggerSync({ silent: true });
+
+    expect(plugin.settings.syncHistory.map((r) => r.trigger)).toEqual(["auto", "manual"]);
+  });
+
+  it("should not record preview runs", async () => {
+    const plugin = createPlugin();
+
+    await plugin.triggerSync({ preview: true });
+
+    expect(mockSyncBiji.mock.calls[0][3].run).toBeUndefined();
+    expect(plugin.settings.syncHistory).toEqual([]);
+  });
+
+  it("should pass retry ids to syncBiji and record a retry run", async () => {
+    const plugin = createPlugin();
+
+    await plugin.triggerSync({ noteIds: ["note-1", "note-2"] });
+
+    expect(mockSyncBiji.mock.calls[0][3].noteIds).toEqual(["note-1", "note-2"]);
+    expect(plugin.settings.syncHistory[0].trigger).toBe("retry");
+  });
+});
+
+describe("status bar", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSyncBiji.mockResolvedValue(undefined);
+  });
+
+  async function loadedPlugin() {
+    const plugin = createPlugin();
+    (plugin.app as any).workspace.on = vi.fn();
+    await plugin.onload();
+    const el = (plugin.addStatusBarItem as any).mock.results[0].value;
+    return { plugin, el };
+  }
+
+  it("should start idle and show progress reported by syncBiji", async () => {
+    const { plugin, el } = await loadedPlugin();
+    expect(el.setText).toHaveBeenLastCalledWith("Get笔记: never synced");
+
+    mockSyncBiji.mockImplementationOnce(async (_plugin: any, _profile: any, _signal: any, options: any) => {
+      options.onProgress({
+        phase: "pages",
+        processed: 0,
+        pages: 1,
+        remaining: 50,
+        linkDetailsPending: 2,
+        morePages: true,
+      });
+    });
+    await plugin.triggerSync({ silent: true });
+
+    expect(el.setText).toHaveBeenCalledWith("Get笔记: 0 notes · page 1 · 2 links pending");
+    expect(el.setText).toHaveBeenLastCalledWith("Get笔记: never synced");
+  });
+
+  it("should show the error state when a sync fails", async () => {
+    const { plugin, el } = await loadedPlugin();
+    mockSyncBiji.mockRejectedValueOnce(new Error("Network error"));
+
+    await plugin.triggerSync({ silent: true });
+
+    expect(el.setText).toHaveBeenLastCalledWith("Get笔记: sync failed");
+    expect(el.setAttr).toHaveBeenLastCalledWith("aria-label", "Network error. Click for sync history");
+  });
+
+  it("should cancel a running sync when clicked", async () => {
+    const { plugin, el } = await loadedPlugin();
+    const click = el.addEventListener.mock.calls[0][1];
+    let signal: AbortSignal | undefined;
+    let finish: () => void = () => {};
+    mockSyncBiji.mockImplementationOnce(
+      (_plugin: any, _profile: any, s: AbortSignal) =>
+        new Promise<void>((resolve) => {
+          signal = s;
+          finish = resolve;
+        }),
+    );
+
+    const sync = plugin.triggerSync({ silent: true });
+    click();
+    expect(signal?.aborted).toBe(true);
+    finish();
+    await sync;
+  });
+});
+
 describe("onunload stops auto-sync", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -427,10 +602,163 @@ describe("onunload stops auto-sync", () => {
 
   it("should clear auto-sync interval on unload", () => {
     const plugin = createPlugin({ autoSyncEnabled: true });
-    (plugin as any).startAutoSync();
+    (plugin as any).startAutoSync(plugin.settings.profiles[0]);
 
     plugin.onunload();
 
     expect(mockClearInterval).toHaveBeenCalledWith(42);
   });
 });
+
+describe("multiple accounts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSyncBiji.mockResolvedValue(undefined);
+    mockSetInterval.mockReturnValue(42);
+  });
+
+  function twoAccounts(work: Partial<AccountProfile> = {}): BijiSyncPlugin {
+    const plugin = createPlugin();
+    plugin.settings.profiles.push(createProfile("work", "Work", work));
+    plugin.secrets.set("work", { refreshToken: "work-token" });
+    return plugin;
+  }
+
+  it("should sync every account with a token in turn and record a run for each", async () => {
+    const plugin = twoAccounts();
+    plugin.settings.profiles.push(createProfile("empty", "Empty"));
+
+    await plugin.triggerSync();
+
+    expect(mockSyncBiji.mock.calls.map((c: any[]) => c[1].id)).toEqual([DEFAULT_PROFILE_ID, "work"]);
+    expect(plugin.settings.syncHistory.map((r) => r.account)).toEqual(["work", DEFAULT_PROFILE_ID]);
+  });
+
+  it("should only sync the requested account", async () => {
+    const plugin = twoAccounts();
+
+    await plugin.triggerSync({ profileId: "work", noteIds: ["note-1"] });
+
+    expect(mockSyncBiji).toHaveBeenCalledTimes(1);
+    expect(mockSyncBiji.mock.calls[0][1].id).toBe("work");
+  });
+
+  it("should keep syncing the other accounts after one fails", async () => {
+    const plugin = twoAccounts();
+    mockSyncBiji.mockRejectedValueOnce(new MockAuthFatalError("Token expired"));
+
+    await plugin.triggerSync();
+
+    expect(mockSyncBiji).toHaveBeenCalledTimes(2);
+    const noticeCalls = MockNotice.mock.calls.map((c: any[]) => c[0]);
+    expect(noticeCalls).toContain("Default: Authentication failed, please update refresh token in settings");
+  });
+
+  it("should start one timer per account with auto-sync enabled", () => {
+    const plugin = twoAccounts({ autoSyncEnabled: true, autoSyncInterval: 60 });
+    plugin.settings.profiles[0].autoSyncEnabled = true;
+
+    plugin.onAutoSyncSettingsChanged();
+
+    expect(mockSetInterval).toHaveBeenCalledTimes(2);
+    expect(mockSetInterval).toHaveBeenCalledWith(expect.any(Function), 60 * 60 * 1000);
+  });
+
+  it("should only stop auto-sync of the account whose auth keeps failing", async () => {
+    const plugin = twoAccounts({ autoSyncEnabled: true });
+    mockSetInterval.mockReturnValueOnce(100).mockReturnValueOnce(200);
+    plugin.settings.profiles[0].autoSyncEnabled = true;
+    plugin.onAutoSyncSettingsChanged();
+
+    for (let i = 0; i < 3; i++) {
+      mockSyncBiji.mockRejectedValueOnce(new MockAuthFatalError("Token expired"));
+      await plugin.triggerSync({ silent: true, profileId: "work" });
+    }
+
+    expect(mockClearInterval).toHaveBeenCalledWith(200);
+    expect(mockClearInterval).not.toHaveBeenCalledWith(100);
+  });
+
+  it("should run an auto-sync that fired during another account's sync afterwards", async () => {
+    const plugin = twoAccounts();
+    let finish: () => void = () => {};
+    mockSyncBiji.mockImplementationOnce(
+      () => new Promise<void>((resolve) => { finish = resolve; }),
+    );
+
+    const first = plugin.triggerSync({ silent: true, profileId: DEFAULT_PROFILE_ID });
+    await plugin.triggerSync({ silent: true, profileId: "work" });
+    expect(mockSyncBiji).toHaveBeenCalledTimes(1);
+
+    finish();
+    await first;
+
+    expect(mockSyncBiji.mock.calls.map((c: any[]) => c[1].id)).toEqual([DEFAULT_PROFILE_ID, "work"]);
+  });
+
+  it("should move settings of single-account versions into the default profile", async () => {
+    const plugin = createPlugin();
+    (plugin.loadData as any).mockResolvedValue({
+      refreshToken: "legacy-token",
+      lastSyncId: "note-9",
+      targetFolder: "Notes",
+      conflictPolicy: "keep-local",
+    });
+
+    await plugin.loadSettings();
+
+    expect(plugin.settings.profiles).toHaveLength(1);
+    expect(plugin.settings.profiles[0]).toMatchObject({
+      id: DEFAULT_PROFILE_ID,
+      lastSyncId: "note-9",
+      targetFolder: "Notes",
+    });
+    expect(plugin.settings.conflictPolicy).toBe("keep-local");
+    expect(plugin.secrets.get(DEFAULT_PROFILE_ID).refreshToken).toBe("legacy-token");
+    // The token moved out of data.json into secrets.json
+    expect("refreshToken" in plugin.settings).toBe(false);
+    expect((plugin.saveData as any).mock.calls[0][0]).not.toHaveProperty("refreshToken");
+    expect((plugin.app.vault.adapter as any).files.get(".obsidian/plugins/getbiji-sync/secrets.json")).toContain(
+      "legacy-token",
+    );
+  });
+
+  it("should keep legacy tokens in data.json until the encrypted tokens are unlocked", async () => {
+    const plugin = createPlugin();
+    const encrypted = new SecretStore(plugin.app.vault.adapter as any, ".obsidian/plugins/getbiji-sync/secrets.json");
+    await encrypted.setPassphrase("correct horse");
+    (plugin.loadData as any).mockResolvedValue({ refreshToken: "legacy-token", lastSyncId: "note-9" });
+
+    await plugin.loadSettings();
+
+    expect(plugin.secrets.isLocked).toBe(true);
+    const whileLocked = (plugin.saveData as any).mock.calls.at(-1)[0];
+    expect(extractSecrets(whileLocked)[DEFAULT_PROFILE_ID].refreshToken).toBe("legacy-token");
+
+    await plugin.secrets.unlock("correct horse");
+    await plugin.saveSettings();
+
+    expect(plugin.secrets.get(DEFAULT_PROFILE_ID).refreshToken).toBe("legacy-token");
+    expect(extractSecrets((plugin.saveData as any).mock.calls.at(-1)[0])).toEqual({});
+  });
+});
+
+describe("encrypted tokens", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSyncBiji.mockResolvedValue(undefined);
+  });
+
+  it("should skip auto-sync while the tokens are locked", async () => {
+    const plugin = createPlugin();
+    const adapter = plugin.app.vault.adapter as any;
+    await plugin.secrets.setPassphrase("correct horse");
+    plugin.secrets = new SecretStore(adapter, "secrets.json");
+    await plugin.secrets.load();
+
+    await plugin.triggerSync({ silent: true });
+
+    expect(mockSyncBiji).not.toHaveBeenCalled();
+    expect(plugin.settings.syncHistory).toEqual([]);
+  });
+});
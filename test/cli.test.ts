@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { API_BASE } from "../src/api";
+import { AUTH_BASE } from "../src/auth";
+import { fetchTransport } from "../src/transport";
+import type { HttpTransport } from "../src/transport";
+import { CliError, STATE_FOLDER, parseCliConfig, runCli } from "../src/cli";
+
+// ── parseCliConfig ──────────────────────────────────────────────────
+
+describe("parseCliConfig", () => {
+  it("should accept the output folder with shared settings", () => {
+    const config = { output: "notes", refreshToken: "r", deletionPolicy: "tag", folderRules: [] };
+    expect(parseCliConfig(config)).toEqual(config);
+  });
+
+  it("should reject a missing output, unknown keys and wrong types", () => {
+    expect(() => parseCliConfig([])).toThrow(CliError);
+    expect(() => parseCliConfig({ refreshToken: "r" })).toThrow('Config needs "output"');
+    expect(() => parseCliConfig({ output: "notes", outptu: "x" })).toThrow("Unknown config keys: outptu");
+    expect(() => parseCliConfig({ output: "notes", downloadAttachments: "yes" })).toThrow(
+      'Config "downloadAttachments" must be a boolean',
+    );
+  });
+
+  it("should reject an unknown deletionPolicy", () => {
+    expect(() => parseCliConfig({ output: "notes", deletionPolicy: "delete" })).toThrow(
+      'Config "deletionPolicy" must be one of "off", "archive", "trash", "tag"',
+    );
+    expect(parseCliConfig({ output: "notes", deletionPolicy: "archive" })).toBeTruthy();
+  });
+
+  it("should reject an unknown conflictPolicy", () => {
+    expect(() => parseCliConfig({ output: "notes", conflictPolicy: "keep-remote" })).toThrow(
+      'Config "conflictPolicy" must be one of "conflict-file", "keep-local", "take-remote", "merge"',
+    );
+    expect(parseCliConfig({ output: "notes", conflictPolicy: "merge" })).toBeTruthy();
+  });
+
+  it("should reject an unknown folder rule field", () => {
+    const rule = { field: "tags", value: "work", folder: "Work" };
+    expect(() => parseCliConfig({ output: "notes", folderRules: [rule] })).toThrow(
+      'Config "folderRules[0].field" must be one of "noteType", "origin", "entryType", "tag", "created"',
+    );
+    expect(parseCliConfig({ output: "notes", folderRules: [{ ...rule, field: "tag" }] })).toBeTruthy();
+  });
+
+  it("should reject objects where lists are expected", () => {
+    expect(() => parseCliConfig({ output: "notes", folderRules: {} })).toThrow('Config "folderRules" must be a list');
+    expect(() => parseCliConfig({ output: "notes", folderRules: [{ field: "tag" }] })).toThrow(
+      'Config "folderRules" must be a list of',
+    );
+    expect(() => parseCliConfig({ output: "notes", syncFilter: [] })).toThrow('Config "syncFilter" must be an object');
+    expect(() => parseCliConfig({ output: "notes", syncFilter: { includeTags: {} } })).toThrow(
+      'Config "syncFilter.includeTags" must be a list',
+    );
+    expect(() => parseCliConfig({ output: "notes", syncFilter: { includeTag: ["a"] } })).toThrow(
+      "Unknown syncFilter keys: includeTag",
+    );
+    expect(parseCliConfig({ output: "notes", syncFilter: { includeTags: ["a"], createdFrom: "2024-01-01" } })).toBeTruthy();
+  });
+});
+
+// ── runCli against a fake Get笔记 server ────────────────────────────
+
+describe("runCli (fake Get笔记 server)", () => {
+  let server: Server;
+  let transport: HttpTransport;
+  let notes: Array<ReturnType<typeof note>>;
+  let refreshToken: string; // The one the server currently accepts
+  let dir: string;
+  let output: string[];
+
+  const note = (n: number) => ({
+    id: `note-${n}`,
+    title: `Note ${n}`,
+    content: `<p>Body ${n}</p>`,
+    note_type: "plain_text",
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  });
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const reply = (status: number, json: unknown) => {
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(json));
+        };
+        if (url.pathname === "/auth/refresh") {
+          // Every refresh rotates the refresh token
+          if (JSON.parse(raw).refresh_token !== refreshToken) return reply(401, { c: { success: false } });
+          refreshToken = `refresh-${Number(refreshToken.split("-")[1]) + 1}`;
+          return reply(200, { c: { success: true, token: { token: "jwt", refresh_token: refreshToken } } });
+        }
+        if (req.headers.authorization !== "Bearer jwt") return reply(401, {});
+        if (url.pathname === "/api/notes") {
+          const sinceId = url.searchParams.get("since_id");
+          const start = sinceId ? notes.findIndex((n) => n.id === sinceId) + 1 : 0;
+          const list = notes.slice(start, start + Number(url.searchParams.get("limit")));
+          return reply(200, { c: { list, total: notes.length } });
+        }
+        reply(404, {});
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const local = fetchTransport();
+    transport = {
+      request: (request) =>
+        local.request({
+          ...request,
+          url: request.url.replace(API_BASE, `${origin}/api`).replace(AUTH_BASE, `${origin}/auth`),
+        }),
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    notes = [note(2), note(1)]; // Newest first
+    refreshToken = "refresh-1";
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "getbiji-cli-"));
+    output = [];
+    await writeConfig({ output: "vault", refreshToken: "refresh-1" });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (config: unknown) => fs.writeFile(path.join(dir, "config.json"), JSON.stringify(config));
+  const run = (...args: string[]) =>
+    runCli(["--config", path.join(dir, "config.json"), ...args], {
+      env: {},
+      transport,
+      log: (line) => output.push(line),
+    });
+  const read = (file: string) => fs.readFile(path.join(dir, "vault", file), "utf8");
+  const state = async (file: string) => JSON.parse(await read(`${STATE_FOLDER}/${file}`));
+
+  it("should write every note as Markdown and keep cursor, history and the rotated token", async () => {
+    expect(await run()).toBe(0);
+
+    expect(await read("Get笔记/Note 1.md")).toContain('biji_id: "note-1"');
+    expect(await read("Get笔记/Note 2.md")).toContain("Body 2");
+    const settings = await state("settings.json");
+    expect(settings.profiles[0].lastSyncId).toBe("note-2");
+    expect(settings.syncHistory[0]).toMatchObject({ status: "complete", created: 2 });
+    expect((await state("secrets.json")).secrets.default.refreshToken).toBe("refresh-2");
+    expect(output).toContain("complete: 2 new, 0 updated, 0 skipped, 0 filtered, 0 conflicts, 0 errors");
+  });
+
+  it("should only fetch notes newer than the cursor on the next run", async () => {
+    await run();
+    notes.unshift(note(3));
+
+    expect(await run()).toBe(0);
+
+    expect(await read("Get笔记/Note 3.md")).toContain("Body 3");
+    expect((await state("settings.json")).syncHistory[0]).toMatchObject({ created: 1, skipped: 0 });
+  });
+
+  it("should look at all notes again after the sync filter changed", async () => {
+    notes = [note(2), { ...note(1), note_type: "link" }];
+    await writeConfig({ output: "vault", refreshToken: "refresh-1", syncFilter: { excludeNoteTypes: ["link"] } });
+    await run();
+    await writeConfig({ output: "vault", refreshToken: "refresh-1" });
+
+    expect(await run()).toBe(0);
+
+    expect(output).toContain("Sync filter changed: looking at all notes again");
+    expect(await read("Get笔记/Note 1.md")).toContain('biji_id: "note-1"');
+  });
+
+  it("should tag notes deleted in Get笔记 on a full scan", async () => {
+    await writeConfig({ output: "vault", refreshToken: "refresh-1", deletionPolicy: "tag" });
+    await run();
+    notes.pop();
+
+    expect(await run("--full")).toBe(0);
+
+    expect(await read("Get笔记/Note 1.md")).toContain("biji_deleted: true");
+    expect(await read("Get笔记/Note 2.md")).not.toContain("biji_deleted");
+  });
+
+  it("should only print the planned changes in a dry run", async () => {
+    expect(await run("--dry-run")).toBe(0);
+
+    expect(output.some((line) => line.startsWith("create") && line.includes("Get笔记/Note 1.md"))).toBe(true);
+    // Only the state folder: the refresh token was rotated and must not be lost
+    await expect(fs.readdir(path.join(dir, "vault"))).resolves.toEqual([STATE_FOLDER]);
+  });
+
+  it("should switch to a new refresh token put in the config", async () => {
+    await run();
+    refreshToken = "refresh-7"; // Logged in again elsewhere: the stored refresh-2 is revoked
+    await writeConfig({ output: "vault", refreshToken: "refresh-7" });
+
+    expect(await run()).toBe(0);
+
+    expect((await state("secrets.json")).secrets.default.refreshToken).toBe("refresh-8");
+  });
+
+  it("should keep an upgraded state folder on its rotated token", async () => {
+    await run();
+    const settings = await state("settings.json");
+    delete settings.configTokenHash; // As written before the seed was recorded
+    await fs.writeFile(path.join(dir, "vault", STATE_FOLDER, "settings.json"), JSON.stringify(settings));
+
+    expect(await run()).toBe(0);
+
+    expect((await state("secrets.json")).secrets.default.refreshToken).toBe("refresh-3");
+  });
+
+  it("should exit with 1 when the refresh token was revoked", async () => {
+    refreshToken = "refresh-9";
+
+    expect(await run()).toBe(1);
+
+    expect(output[0]).toMatch(/^Authentication failed/);
+    expect((await state("settings.json")).syncHistory[0].status).toBe("failed");
+  });
+
+  it("should exit with 2 for bad arguments and config", async () => {
+    expect(await run("--bogus")).toBe(2);
+    await writeConfig({ refreshToken: "refresh-1" });
+    expect(await run()).toBe(2);
+    expect(output.pop()).toBe('Config needs "output", the folder to sync into');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { conflictFilePath, hashContent, mergeLines } from "../src/conflict";
+
+// ---------------------------------------------------------------------------
+// hashContent
+// ---------------------------------------------------------------------------
+
+describe("hashContent", () => {
+  it("returns 8 hex characters", () => {
+    expect(hashContent("hello")).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it("is stable for equal input", () => {
+    expect(hashContent("同一段文字")).toBe(hashContent("同一段文字"));
+  });
+
+  it("differs for different input", () => {
+    expect(hashContent("a\nb")).not.toBe(hashContent("a\nc"));
+  });
+
+  it("hashes the empty string", () => {
+    expect(hashContent("")).toBe("811c9dc5");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// conflictFilePath
+// ---------------------------------------------------------------------------
+
+describe("conflictFilePath", () => {
+  it("inserts the conflict suffix before the extension", () => {
+    expect(conflictFilePath("Get笔记/Note.md")).toBe("Get笔记/Note (conflict).md");
+  });
+
+  it("appends an extension when the path has none", () => {
+    expect(conflictFilePath("Note")).toBe("Note (conflict).md");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mergeLines
+// ---------------------------------------------------------------------------
+
+describe("mergeLines", () => {
+  const base = "one\ntwo\nthree\nfour\nfive";
+
+  it("applies non-overlapping edits from both sides", () => {
+    const local = "ONE\ntwo\nthree\nfour\nfive";
+    const remote = "one\ntwo\nthree\nfour\nFIVE";
+    expect(mergeLines(base, local, remote)).toBe("ONE\ntwo\nthree\nfour\nFIVE");
+  });
+
+  it("keeps insertions and deletions from both sides", () => {
+    const local = "one\nlocal insert\ntwo\nthree\nfour\nfive";
+    const remote = "one\ntwo\nthree\nfive";
+    expect(mergeLines(base, local, remote)).toBe(
+      "one\nlocal insert\ntwo\nthree\nfive",
+    );
+  });
+
+  it("returns null when both sides change the same line differently", () => {
+    const local = "one\ntwo\nLOCAL\nfour\nfive";
+    const remote = "one\ntwo\nREMOTE\nfour\nfive";
+    expect(mergeLines(base, local, remote)).toBeNull();
+  });
+
+  it("returns null when edits touch adjacent lines", () => {
+    const local = "one\nTWO\nthree\nfour\nfive";
+    const remote = "one\ntwo\nTHREE\nfour\nfive";
+    expect(mergeLines(base, local, remote)).toBeNull();
+  });
+
+  it("accepts identical changes made on both sides", () => {
+    const both = "one\ntwo\nSAME\nfour\nfive";
+    expect(mergeLines(base, both, both)).toBe(both);
+  });
+
+  it("returns the changed side when only one side changed", () => {
+    const remote = "one\ntwo\nthree\nfour\nfive\nsix";
+    expect(mergeLines(base, base, remote)).toBe(remote);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi } from "vitest";
+import { TFile, TFolder } from "obsidian";
+import { DEFAULT_SETTINGS, BijiSyncSettings } from "../src/settings-schema";
+import type BijiSyncPlugin from "../src/main";
+import { reconcileDeletions } from "../src/deletions";
+import { VaultWriter } from "../src/writer";
+import { ObsidianVault } from "../src/obsidian-vault";
+import { DEFAULT_PROFILE_ID, createProfile } from "../src/profiles";
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function createMockPlugin(
+  entries: Array<[string, TFile]>,
+  settings: Partial<BijiSyncSettings> = {},
+  frontmatter: Record<string, unknown> = {},
+): BijiSyncPlugin {
+  const plugin = {
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+    noteIndex: { entries: () => entries },
+    noteState: { delete: vi.fn() },
+    app: {
+      vault: {
+        getAbstractFileByPath: vi.fn().mockReturnValue(null),
+        createFolder: vi.fn().mockResolvedValue(undefined),
+        trash: vi.fn().mockResolvedValue(undefined),
+      },
+      metadataCache: {
+        getFileCache: vi.fn().mockReturnValue({ frontmatter }),
+      },
+      fileManager: {
+        renameFile: vi.fn().mockResolvedValue(undefined),
+        processFrontMatter: vi.fn(async (_file: TFile, fn: (fm: any) => void) => {
+          fn(frontmatter);
+        }),
+      },
+    },
+  } as unknown as BijiSyncPlugin;
+  plugin.vault = new ObsidianVault(plugin.app);
+  return plugin;
+}
+
+const kept = new TFile("Get笔记/Kept.md");
+const gone = new TFile("Get笔记/Gone.md");
+const entries: Array<[string, TFile]> = [
+  ["note-kept", kept],
+  ["note-gone", gone],
+];
+const remoteIds = new Set(["note-kept"]);
+const profile = createProfile(DEFAULT_PROFILE_ID, "Default");
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe("reconcileDeletions", () => {
+  it("should do nothing when the policy is off", async () => {
+    const plugin = createMockPlugin(entries, { deletionPolicy: "off" });
+    expect(await reconcileDeletions(plugin, profile, new VaultWriter(plugin.vault), remoteIds)).toEqual([]);
+    expect(plugin.app.vault.trash).not.toHaveBeenCalled();
+  });
+
+  it("should never act on an empty remote listing", async () => {
+    const plugin = createMockPlugin(entries, { deletionPolicy: "trash" });
+    expect(await reconcileDeletions(plugin, profile, new VaultWriter(plugin.vault), new Set())).toEqual([]);
+    expect(plugin.app.vault.trash).not.toHaveBeenCalled();
+  });
+
+  it("should move orphans into the archive folder", async () => {
+    const plugin = createMockPlugin(entries, {
+      deletionPolicy: "archive",
+      archiveFolder: "Get笔记/Archive",
+    });
+    const affected = await reconcileDeletions(plugin, profile, new VaultWriter(plugin.vault), remoteIds);
+
+    expect(affected).toEqual(["Get笔记/Gone.md"]);
+    expect(plugin.app.vault.createFolder).toHaveBeenCalledWith("Get笔记/Archive");
+    expect(plugin.app.fileManager.renameFile).toHaveBeenCalledWith(
+      gone,
+      "Get笔记/Archive/Gone.md",
+    );
+  });
+
+  it("should add an id suffix when the archive already has that name", async () => {
+    const plugin = createMockPlugin(entries, { deletionPolicy: "archive" });
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记/Archive") return new TFolder(path);
+        if (path === "Get笔记/Archive/Gone.md") return new TFile(path);
+        return null;
+      },
+    );
+    await reconcileDeletions(plugin, profile, new VaultWriter(plugin.vault), remoteIds);
+
+    expect(plugin.app.vault.createFolder).not.toHaveBeenCalled();
+    expect(plugin.app.fileManager.renameFile).toHaveBeenCalledWith(
+      gone,
+      "Get笔记/Archive/Gone-note-g.md",
+    );
+  });
+
+  it("should skip files that are already archived", async () => {
+    const archived = new TFile("Get笔记/Archive/Gone.md");
+    const plugin = createMockPlugin([["note-gone", archived]], {
+      deletionPolicy: "archive",
+    });
+    expect(await reconcileDeletions(plugin, profile, new VaultWriter(plugin.vault), remoteIds)).toEqual([]);
+  });
+
+  it("should move orphans to Obsidian trash and drop their state", async () => {
+    const plugin = createMockPlugin(entries, { deletionPolicy: "trash" });
+    await reconcileDeletions(plugin, profile, new VaultWriter(plugin.vault), remoteIds);
+
+    expect(plugin.app.vault.trash).toHaveBeenCalledWith(gone, false);
+    expect(plugin.noteState.delete).toHaveBeenCalledWith("note-gone");
+  });
+
+  it("should tag orphans with biji_deleted", async () => {
+    const frontmatter: Record<string, unknown> = {};
+    const plugin = createMockPlugin(entries, { deletionPolicy: "tag" }, frontmatter);
+    await reconcileDeletions(plugin, profile, new VaultWriter(plugin.vault), remoteIds);
+
+    expect(frontmatter.biji_deleted).toBe(true);
+  });
+
+  it("should skip orphans that are already tagged", async () => {
+    const plugin = createMockPlugin(
+      entries,
+      { deletionPolicy: "tag" },
+      { biji_deleted: true },
+    );
+    expect(await reconcileDeletions(plugin, profile, new VaultWriter(plugin.vault), remoteIds)).toEqual([]);
+  });
+
+  it("should continue after a failure on one file", async () => {
+    const other = new TFile("Get笔记/Other.md");
+    const plugin = createMockPlugin(
+      [...entries, ["note-other", other]],
+      { deletionPolicy: "trash" },
+    );
+    (plugin.app.vault.trash as any).mockRejectedValueOnce(new Error("EBUSY"));
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const affected = await reconcileDeletions(plugin, profile, new VaultWriter(plugin.vault), remoteIds);
+    expect(affected).toEqual(["Get笔记/Other.md"]);
+    consoleSpy.mockRestore();
+  });
+
+  it("only records planned deletions in a dry run", async () => {
+    const plugin = createMockPlugin(entries, { deletionPolicy: "trash" });
+    const writer = new VaultWriter(plugin.vault, true);
+
+    const affected = await reconcileDeletions(plugin, profile, writer, remoteIds);
+
+    expect(affected).toEqual(["Get笔记/Gone.md"]);
+    expect(plugin.app.vault.trash).not.toHaveBeenCalled();
+    expect(plugin.noteState.delete).not.toHaveBeenCalled();
+    expect(writer.actions).toEqual([
+      { action: "trash", path: "Get笔记/Gone.md", noteId: "note-gone", reason: "deleted in Get笔记" },
+    ]);
+  });
+
+  it("should only act on notes of the syncing account", async () => {
+    const work = createProfile("work", "Work");
+    const other = createMockPlugin(entries, { deletionPolicy: "trash" }, { biji_account: "work" });
+    const legacy = createMockPlugin(entries, { deletionPolicy: "trash" });
+
+    expect(await reconcileDeletions(other, profile, new VaultWriter(other.vault), remoteIds)).toEqual([]);
+    expect(await reconcileDeletions(legacy, work, new VaultWriter(legacy.vault), remoteIds)).toEqual([]);
+    expect(await reconcileDeletions(other, work, new VaultWriter(other.vault), remoteIds)).toEqual([
+      "Get笔记/Gone.md",
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+import { API_BASE, ApiSchemaError } from "../src/api";
+import { describeFailure, testConnection } from "../src/diagnostics";
+import type { HttpTransport } from "../src/transport";
+
+const mockRequest = vi.fn<Parameters<HttpTransport["request"]>, Promise<any>>();
+const transport: HttpTransport = { request: mockRequest };
+
+const exp = Math.floor(Date.UTC(2030, 0, 1) / 1000);
+const jwt = `header.${btoa(JSON.stringify({ exp, uid: 4242 }))}.sig`;
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`Request failed, status ${status}`), { status });
+}
+
+function tokens(result: string | Error) {
+  return {
+    refresh: vi.fn(async () => {
+      if (result instanceof Error) throw result;
+      return result;
+    }),
+  };
+}
+
+beforeEach(() => {
+  mockRequest.mockReset();
+});
+
+describe("testConnection", () => {
+  it("should report the account and the first page of notes", async () => {
+    mockRequest.mockResolvedValueOnce({
+      json: { c: { list: [{ id: "note-2", title: "Latest" }, { id: "note-1", title: "Older" }], total: 120 } },
+    } as any);
+
+    const report = await testConnection(transport, "refresh", tokens(jwt));
+
+    expect(report.ok).toBe(true);
+    expect(report.steps.map((s) => s.name)).toEqual(["Refresh token", "Access token", "Notes"]);
+    expect(report.steps[1].detail).toContain("User 4242, valid until");
+    expect(report.steps[2].detail).toBe('Visible: 120. Latest: "Latest"');
+    expect(mockRequest.mock.calls[0][0]).toMatchObject({
+      headers: { Authorization: `Bearer ${jwt}`, "X-OAuth-Version": "1" },
+    });
+  });
+
+  it("should count the first page when the server does not report a total", async () => {
+    const list = Array.from({ length: 50 }, (_, i) => ({ id: `note-${i}`, title: `Note ${i}` }));
+    mockRequest.mockResolvedValueOnce({ json: { c: { list } } } as any);
+
+    const report = await testConnection(transport, "refresh", tokens(jwt));
+
+    expect(report.steps[2].detail).toBe('Visible: 50+. Latest: "Note 0"');
+  });
+
+  it("should stop when there is no refresh token", async () => {
+    const cache = tokens(jwt);
+    const report = await testConnection(transport, "", cache);
+
+    expect(report).toEqual({
+      ok: false,
+      steps: [{ name: "Refresh token", status: "error", detail: "No refresh token. Log in or paste one first." }],
+    });
+    expect(cache.refresh).not.toHaveBeenCalled();
+  });
+
+  it("should tell a rejected refresh token apart from a network failure", async () => {
+    const rejected = await testConnection(transport, "bad", tokens(new Error("Refresh token invalid or expired")));
+    expect(rejected.steps[0].detail).toContain("rejected the refresh token");
+
+    const offline = await testConnection(transport, "refresh", tokens(new Error("net::ERR_INTERNET_DISCONNECTED")));
+    expect(offline.steps[0].detail).toContain("Could not reach notes-api.biji.com");
+    expect(offline.steps[0].detail).toContain("ERR_INTERNET_DISCONNECTED");
+  });
+
+  it("should report an access token that is not a JWT", async () => {
+    const report = await testConnection(transport, "refresh", tokens("opaque"));
+
+    expect(report.ok).toBe(false);
+    expect(report.steps[1]).toMatchObject({ name: "Access token", status: "error" });
+    expect(mockRequest).not.toHaveBeenCalled();
+  });
+
+  it("should point at X-OAuth-Version when a fresh JWT is refused with 403", async () => {
+    mockRequest.mockRejectedValueOnce(httpError(403)).mockRejectedValueOnce(httpError(403));
+
+    const report = await testConnection(transport, "refresh", tokens(jwt));
+
+    expect(report.steps[2]).toMatchObject({ name: "Notes", status: "error" });
+    expect(report.steps[2].detail).toContain("X-OAuth-Version");
+  });
+
+  it("should report a changed notes response as a schema change", async () => {
+    mockRequest.mockResolvedValueOnce({ json: { c: { items: [] } } } as any);
+
+    const report = await testConnection(transport, "refresh", tokens(jwt));
+
+    expect(report.steps[2].detail).toContain("c.list missing");
+  });
+});
+
+describe("describeFailure", () => {
+  it("should describe each failure mode", () => {
+    expect(describeFailure(new ApiSchemaError("no list", "c.list"), API_BASE)).toContain("API may have changed");
+    expect(describeFailure(new Error("getaddrinfo ENOTFOUND"), API_BASE)).toBe(
+      "Could not reach get-notes.luojilab.com: getaddrinfo ENOTFOUND. Check your internet connection, proxy or firewall.",
+    );
+    expect(describeFailure(httpError(503), API_BASE)).toContain("busy or down");
+    expect(describeFailure(httpError(410), API_BASE)).toContain("HTTP 410");
+  });
+});
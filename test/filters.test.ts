@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { RawNote } from "../src/types";
+
+const { mockFetchNotes, mockGetJwt, mockValidateRefreshToken } = vi.hoisted(() => ({
+  mockFetchNotes: vi.fn(),
+  mockGetJwt: vi.fn(),
+  mockValidateRefreshToken: vi.fn(),
+}));
+
+vi.mock("../src/api", () => ({
+  fetchNotes: (...args: any[]) => mockFetchNotes(...args),
+}));
+
+vi.mock("../src/auth", () => ({
+  validateRefreshToken: (...args: any[]) => mockValidateRefreshToken(...args),
+}));
+
+import { DEFAULT_SYNC_FILTER, filterNote, previewSyncFilter, sameSyncFilter, type SyncFilter } from "../src/filters";
+import type { JwtCache } from "../src/jwt-cache";
+import type { HttpTransport } from "../src/transport";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeRawNote(overrides: Partial<RawNote> = {}): RawNote {
+  return {
+    id: "note-abc-123",
+    title: "Test Note",
+    content: "Hello world",
+    tags: ["Reading", "AI"],
+    // Local time, so date bounds are stable across time zones
+    createdAt: "2024-03-05T08:09:10",
+    updatedAt: "2024-03-05T08:09:10",
+    noteType: "link",
+    entryType: "ai",
+    origin: "web",
+    ...overrides,
+  };
+}
+
+function filter(overrides: Partial<SyncFilter>): SyncFilter {
+  return { ...DEFAULT_SYNC_FILTER, ...overrides };
+}
+
+// ---------------------------------------------------------------------------
+// filterNote
+// ---------------------------------------------------------------------------
+
+describe("filterNote", () => {
+  it("passes everything with the default filter", () => {
+    expect(filterNote(makeRawNote(), DEFAULT_SYNC_FILTER)).toBeNull();
+  });
+
+  it("requires one of the included tags", () => {
+    expect(filterNote(makeRawNote(), filter({ includeTags: ["#reading", "work"] }))).toBeNull();
+    expect(filterNote(makeRawNote(), filter({ includeTags: ["work"] }))).toBe("no included tag");
+  });
+
+  it("rejects excluded tags even when another tag is included", () => {
+    expect(
+      filterNote(makeRawNote(), filter({ includeTags: ["reading"], excludeTags: ["ai"] })),
+    ).toBe('tag "ai" is excluded');
+  });
+
+  it("filters note type, entry type and origin", () => {
+    expect(filterNote(makeRawNote(), filter({ excludeNoteTypes: ["LINK"] }))).toBe(
+      'note type "link" is excluded',
+    );
+    expect(filterNote(makeRawNote(), filter({ includeEntryTypes: ["manual"] }))).toBe(
+      'entry type "ai" is not included',
+    );
+    expect(filterNote(makeRawNote(), filter({ includeOrigins: ["app", "web"] }))).toBeNull();
+  });
+
+  it("ignores blank list entries", () => {
+    expect(filterNote(makeRawNote(), filter({ includeTags: [" "], excludeOrigins: [""] }))).toBeNull();
+  });
+
+  it("applies inclusive creation date bounds", () => {
+    expect(filterNote(makeRawNote(), filter({ createdFrom: "2024-03-05" }))).toBeNull();
+    expect(filterNote(makeRawNote(), filter({ createdUntil: "2024-03-05" }))).toBeNull();
+    expect(filterNote(makeRawNote(), filter({ createdFrom: "2024-03-06" }))).toBe(
+      "created before 2024-03-06",
+    );
+    expect(filterNote(makeRawNote(), filter({ createdUntil: "2024-03-04" }))).toBe(
+      "created after 2024-03-04",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// sameSyncFilter
+// ---------------------------------------------------------------------------
+
+describe("sameSyncFilter", () => {
+  it("should ignore order, case, # and blanks in lists", () => {
+    expect(
+      sameSyncFilter(filter({ includeTags: ["AI", "#读书"] }), filter({ includeTags: ["读书", " ai", ""] })),
+    ).toBe(true);
+  });
+
+  it("should tell apart filters that let other notes through", () => {
+    expect(sameSyncFilter(filter({}), filter({ excludeTags: ["AI"] }))).toBe(false);
+    expect(sameSyncFilter(filter({}), filter({ createdFrom: "2024-01-01" }))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// previewSyncFilter
+// ---------------------------------------------------------------------------
+
+describe("previewSyncFilter", () => {
+  beforeEach(() => {
+    mockFetchNotes.mockReset();
+    mockGetJwt.mockResolvedValue("jwt");
+    mockValidateRefreshToken.mockReturnValue(null);
+  });
+
+  const jwtCache = { get: mockGetJwt, refresh: mockGetJwt } as unknown as JwtCache;
+  const transport: HttpTransport = { request: vi.fn() };
+
+  function bijiNote(id: string, noteType: string) {
+    return { id, title: id, content: "", tags: [], note_type: noteType, created_at: "2024-01-01", updated_at: "2024-01-01" };
+  }
+
+  it("splits the most recent notes into matched and filtered", async () => {
+    mockFetchNotes.mockReturnValue(
+      (async function* () {
+        yield { notes: [bijiNote("a", "link"), bijiNote("b", "plain_text")], isLastPage: true };
+      })(),
+    );
+
+    const result = await previewSyncFilter(transport, "token", filter({ excludeNoteTypes: ["plain_text"] }), jwtCache);
+
+    expect(mockFetchNotes).toHaveBeenCalledWith(transport, "jwt", expect.any(Function));
+    expect(result.matched.map((n) => n.id)).toEqual(["a"]);
+    expect(result.filtered).toEqual([
+      { note: expect.objectContaining({ id: "b" }), reason: 'note type "plain_text" is excluded' },
+    ]);
+  });
+
+  it("throws when the refresh token is invalid", async () => {
+    mockValidateRefreshToken.mockReturnValue("Please configure refresh token in settings");
+
+    await expect(previewSyncFilter(transport, "", DEFAULT_SYNC_FILTER, jwtCache)).rejects.toThrow(/refresh token/);
+    expect(mockFetchNotes).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FsVault, fsAdapter } from "../src/fs-vault";
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+let root: string;
+
+async function write(file: string, data: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+  await fs.writeFile(path.join(root, file), data);
+}
+
+const read = (file: string) => fs.readFile(path.join(root, file), "utf8");
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "fs-vault-"));
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+// ── FsVault ─────────────────────────────────────────────────────────
+
+describe("FsVault", () => {
+  it("should load files, folders and frontmatter, skipping dot-folders", async () => {
+    await write("Get笔记/A.md", '---\nbiji_id: "note-a"\n---\n# A\n');
+    await write("Get笔记/attachments/a.png", "png");
+    await write(".trash/Old.md", '---\nbiji_id: "note-old"\n---\n');
+    const vault = new FsVault(root);
+    await vault.load();
+
+    expect(vault.markdownFiles().map((f) => f.path)).toEqual(["Get笔记/A.md"]);
+    expect(vault.getFile("Get笔记/attachments/a.png")).toMatchObject({ basename: "a", extension: "png" });
+    expect(vault.isFolder("Get笔记/attachments")).toBe(true);
+    expect(vault.isFolder(".trash")).toBe(false);
+    expect(vault.frontmatter(vault.getFile("Get笔记/A.md")!)).toEqual({ biji_id: "note-a" });
+  });
+
+  it("should create files with their folders and refuse to overwrite", async () => {
+    const vault = new FsVault(root);
+    await vault.load();
+
+    const file = await vault.create("Notes/Deep/B.md", '---\nbiji_id: "note-b"\n---\n');
+
+    expect(await read("Notes/Deep/B.md")).toContain("note-b");
+    expect(vault.isFolder("Notes")).toBe(true);
+    expect(vault.frontmatter(file)).toEqual({ biji_id: "note-b" });
+    await expect(vault.create("Notes/Deep/B.md", "")).rejects.toThrow("already exists");
+  });
+
+  it("should rename in place and move trashed files to .trash", async () => {
+    await write("A.md", "one");
+    await write(".trash/A.md", "older");
+    const vault = new FsVault(root);
+    await vault.load();
+    const file = vault.getFile("A.md")!;
+
+    await vault.rename(file, "Archive/A.md");
+    expect(file.path).toBe("Archive/A.md");
+    expect(vault.getFile("A.md")).toBeNull();
+
+    await vault.trash(file);
+    expect(vault.getFile("Archive/A.md")).toBeNull();
+    expect(await read(".trash/A 1.md")).toBe("one");
+  });
+
+  it("should update frontmatter on disk and in the cache", async () => {
+    await write("A.md", '---\nbiji_id: "note-a"\n---\n# A\n');
+    const vault = new FsVault(root);
+    await vault.load();
+    const file = vault.getFile("A.md")!;
+
+    await vault.processFrontMatter(file, (fm) => {
+      fm.biji_deleted = true;
+    });
+
+    expect(await read("A.md")).toBe('---\nbiji_id: "note-a"\nbiji_deleted: true\n---\n# A\n');
+    expect(vault.frontmatter(file)).toEqual({ biji_id: "note-a", biji_deleted: true });
+  });
+});
+
+describe("fsAdapter", () => {
+  it("should write into missing folders and read back", async () => {
+    const adapter = fsAdapter(path.join(root, "state"));
+
+    expect(await adapter.exists("a/b.json")).toBe(false);
+    await adapter.write("a/b.json", "{}");
+    expect(await adapter.exists("a/b.json")).toBe(true);
+    expect(await adapter.read("a/b.json")).toBe("{}");
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_SYNC_HISTORY,
+  addSyncRun,
+  describeSyncRun,
+  failedNoteIds,
+  finishSyncRun,
+  startSyncRun,
+} from "../src/history";
+
+describe("startSyncRun / finishSyncRun", () => {
+  it("should start a running run with zero counts", () => {
+    const run = startSyncRun("manual", "default");
+    expect(run).toMatchObject({ trigger: "manual", account: "default", status: "running", endedAt: null, created: 0 });
+    expect(run.errors).toEqual([]);
+  });
+
+  it("should keep the status reported during the run", () => {
+    const run = startSyncRun("auto", "default");
+    run.status = "failed";
+    finishSyncRun(run, [], "complete");
+    expect(run.status).toBe("failed");
+    expect(run.endedAt).not.toBeNull();
+  });
+
+  it("should use the fallback status for runs that never reported", () => {
+    const run = finishSyncRun(startSyncRun("auto", "default"), [], "cancelled");
+    expect(run.status).toBe("cancelled");
+  });
+
+  it("should keep written files but not skips", () => {
+    const run = finishSyncRun(
+      startSyncRun("manual", "default"),
+      [
+        { action: "create", path: "Get笔记/A.md", noteId: "a", reason: "new note" },
+        { action: "skip", path: "Get笔记/B.md", noteId: "b", reason: "unchanged since last sync" },
+        { action: "skip", path: "", noteId: "c", reason: "filtered" },
+        { action: "trash", path: "Get笔记/D.md", noteId: "d", reason: "deleted in Get笔记" },
+      ],
+      "complete",
+    );
+    expect(run.files).toEqual([
+      { action: "create", path: "Get笔记/A.md", noteId: "a" },
+      { action: "trash", path: "Get笔记/D.md", noteId: "d" },
+    ]);
+  });
+
+  it("should keep the reason of skipped attachments", () => {
+    const run = finishSyncRun(
+      startSyncRun("manual", "default"),
+      [{ action: "attachment-skipped", path: "Media/v.mp3", noteId: "a", reason: "v.mp3: download failed, status 403" }],
+      "complete",
+    );
+    expect(run.files).toEqual([
+      { action: "attachment-skipped", path: "Media/v.mp3", noteId: "a", reason: "v.mp3: download failed, status 403" },
+    ]);
+  });
+});
+
+describe("addSyncRun", () => {
+  it("should prepend and cap the history", () => {
+    let history = [] as ReturnType<typeof startSyncRun>[];
+    for (let i = 0; i < MAX_SYNC_HISTORY + 5; i++) {
+      const run = startSyncRun("auto", "default");
+      run.created = i;
+      history = addSyncRun(history, run);
+    }
+    expect(history).toHaveLength(MAX_SYNC_HISTORY);
+    expect(history[0].created).toBe(MAX_SYNC_HISTORY + 4);
+  });
+
+  it("should not mutate the previous history", () => {
+    const history = [startSyncRun("auto", "default")];
+    addSyncRun(history, startSyncRun("manual", "default"));
+    expect(history).toHaveLength(1);
+  });
+});
+
+describe("failedNoteIds / describeSyncRun", () => {
+  it("should list each failed note once", () => {
+    const run = startSyncRun("manual", "default");
+    run.errors = [
+      { noteId: "a", title: "A", message: "Disk full" },
+      { noteId: "b", title: "B", message: "Bad HTML" },
+      { noteId: "a", title: "A", message: "Disk full" },
+    ];
+    expect(failedNoteIds(run)).toEqual(["a", "b"]);
+  });
+
+  it("should summarize the counts", () => {
+    const run = startSyncRun("manual", "default");
+    run.created = 3;
+    run.updated = 1;
+    run.errors = [{ noteId: "a", title: "A", message: "Disk full" }];
+    expect(describeSyncRun(run)).toBe(
+      "3 new, 1 updated, 0 skipped, 0 filtered, 0 conflicts, 1 errors",
+    );
+    run.deleted = 2;
+    expect(describeSyncRun(run)).toContain("2 deleted in Get笔记");
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const { mockRefreshJwt } = vi.hoisted(() => ({ mockRefreshJwt: vi.fn() }));
+
+// mockRefreshJwt resolves to the new JWT, or to a full RefreshResult for rotation tests
+vi.mock("../src/auth", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/auth")>()),
+  refreshJwt: async (...args: any[]) => {
+    const result = await mockRefreshJwt(...args);
+    return typeof result === "string"
+      ? { jwt: result, refreshToken: null, refreshTokenExpiresAt: null }
+      : result;
+  },
+}));
+
+import { JwtCache, JWT_REFRESH_MARGIN } from "../src/jwt-cache";
+import type { HttpTransport } from "../src/transport";
+
+// Never used: refreshJwt is mocked
+const transport: HttpTransport = { request: vi.fn() };
+
+function makeJwt(expiresInSeconds: number, uid = 1): string {
+  const exp = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  return `${btoa(JSON.stringify({ alg: "HS256" }))}.${btoa(JSON.stringify({ exp, uid }))}.sig`;
+}
+
+describe("JwtCache", () => {
+  let refreshToken: string;
+  let persist: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockRefreshJwt.mockReset();
+    refreshToken = "refresh-a";
+    persist = vi.fn();
+  });
+
+  function cache(initial = ""): JwtCache {
+    return new JwtCache(transport, () => refreshToken, initial, persist);
+  }
+
+  it("refreshes when nothing is cached and persists the new JWT", async () => {
+    const jwt = makeJwt(3600);
+    mockRefreshJwt.mockResolvedValue(jwt);
+
+    const tokens = cache();
+    expect(await tokens.get()).toBe(jwt);
+    expect(mockRefreshJwt).toHaveBeenCalledWith(transport, "refresh-a");
+    expect(persist).toHaveBeenCalledWith({ accessToken: jwt });
+  });
+
+  it("reuses a JWT that is valid well beyond the margin", async () => {
+    const jwt = makeJwt(3600);
+    const tokens = cache(jwt);
+
+    expect(await tokens.get()).toBe(jwt);
+    expect(await tokens.get()).toBe(jwt);
+    expect(mockRefreshJwt).not.toHaveBeenCalled();
+  });
+
+  it("refreshes proactively when the JWT expires within the margin", async () => {
+    const fresh = makeJwt(3600, 2);
+    mockRefreshJwt.mockResolvedValue(fresh);
+
+    const tokens = cache(makeJwt(JWT_REFRESH_MARGIN - 10));
+    expect(tokens.isFresh()).toBe(false);
+    expect(await tokens.get()).toBe(fresh);
+    expect(mockRefreshJwt).toHaveBeenCalledTimes(1);
+  });
+
+  it("refreshes when the cached JWT is malformed", async () => {
+    mockRefreshJwt.mockResolvedValue(makeJwt(3600));
+    await cache("not-a-jwt").get();
+    expect(mockRefreshJwt).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not reuse a JWT obtained with another refresh token", async () => {
+    const first = makeJwt(3600, 1);
+    const second = makeJwt(3600, 2);
+    mockRefreshJwt.mockResolvedValueOnce(first).mockResolvedValueOnce(second);
+
+    const tokens = cache();
+    expect(await tokens.get()).toBe(first);
+    refreshToken = "refresh-b";
+    expect(await tokens.get()).toBe(second);
+    expect(mockRefreshJwt).toHaveBeenLastCalledWith(transport, "refresh-b");
+  });
+
+  it("shares one in-flight refresh between concurrent callers", async () => {
+    const jwt = makeJwt(3600);
+    let resolve!: (jwt: string) => void;
+    mockRefreshJwt.mockReturnValue(new Promise<string>((r) => (resolve = r)));
+
+    const tokens = cache();
+    const calls = [tokens.refresh("old"), tokens.refresh("old"), tokens.get()];
+    resolve(jwt);
+
+    expect(await Promise.all(calls)).toEqual([jwt, jwt, jwt]);
+    expect(mockRefreshJwt).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips the refresh when the rejected JWT was already replaced", async () => {
+    const current = makeJwt(3600);
+    const tokens = cache(current);
+
+    expect(await tokens.refresh("older-jwt")).toBe(current);
+    expect(mockRefreshJwt).not.toHaveBeenCalled();
+  });
+
+  it("refreshes when the rejected JWT is the cached one", async () => {
+    const rejected = makeJwt(3600, 1);
+    const fresh = makeJwt(3600, 2);
+    mockRefreshJwt.mockResolvedValue(fresh);
+
+    const tokens = cache(rejected);
+    expect(await tokens.refresh(rejected)).toBe(fresh);
+  });
+
+  it("allows a new refresh after a failed one", async () => {
+    const jwt = makeJwt(3600);
+    mockRefreshJwt.mockRejectedValueOnce(new Error("offline")).mockResolvedValueOnce(jwt);
+
+    const tokens = cache();
+    await expect(tokens.get()).rejects.toThrow("offline");
+    expect(await tokens.get()).toBe(jwt);
+  });
+
+  it("clear forgets and un-persists the cached JWT", async () => {
+    mockRefreshJwt.mockResolvedValue(makeJwt(3600, 2));
+    const tokens = cache(makeJwt(3600, 1));
+
+    tokens.clear();
+    expect(persist).toHaveBeenCalledWith({ accessToken: "" });
+    await tokens.get();
+    expect(mockRefreshJwt).toHaveBeenCalledTimes(1);
+  });
+
+  it("persists a rotated refresh token with its expiry and keeps using the JWT", async () => {
+    const jwt = makeJwt(3600);
+    mockRefreshJwt.mockResolvedValue({ jwt, refreshToken: "refresh-b", refreshTokenExpiresAt: 1900000000000 });
+    persist.mockImplementation((update) => {
+      if (update.refreshToken) refreshToken = update.refreshToken;
+    });
+
+    const tokens = cache();
+    await tokens.get();
+    expect(persist).toHaveBeenCalledWith({
+      accessToken: jwt,
+      refreshToken: "refresh-b",
+      refreshTokenExpiresAt: 1900000000000,
+    });
+    // The JWT belongs to the rotated token now, so it is still reused
+    expect(await tokens.get()).toBe(jwt);
+    expect(mockRefreshJwt).toHaveBeenCalledTimes(1);
+  });
+
+  it("clears a stale expiry when a rotated token comes without one", async () => {
+    mockRefreshJwt.mockResolvedValue({ jwt: makeJwt(3600), refreshToken: "refresh-b", refreshTokenExpiresAt: null });
+    await cache().get();
+    expect(persist).toHaveBeenCalledWith(expect.objectContaining({ refreshTokenExpiresAt: null }));
+  });
+
+  it("persists a reported expiry for an unchanged refresh token", async () => {
+    const jwt = makeJwt(3600);
+    mockRefreshJwt.mockResolvedValue({ jwt, refreshToken: null, refreshTokenExpiresAt: 1900000000000 });
+    await cache().get();
+    expect(persist).toHaveBeenCalledWith({ accessToken: jwt, refreshTokenExpiresAt: 1900000000000 });
+  });
+});
@@ -6,8 +6,17 @@ import {
   buildFrontmatter,
   buildMarkdown,
   bijiNoteToRawNote,
+  noteFilename,
   resolveFilename,
+  latestTimestamp,
+  isRemoteNewer,
+  mergeUserEdits,
+  stripUserEdits,
+  readFrontmatter,
+  updateFrontmatter,
+  USER_SECTION_MARKER,
 } from "../src/markdown";
+import { TemplateError } from "../src/template";
 import type { RawNote, BijiNote } from "../src/types";
 
 // ---------------------------------------------------------------------------
@@ -142,8 +151,8 @@ describe("cleanHtml", () => {
     expect(cleanHtml("hello<br />world")).toBe("hello\nworld");
   });
 
-  it("converts p tags to double newline", () => {
-    expect(cleanHtml("<p>para1</p><p>para2</p>")).toBe("para1\n\npara2\n\n");
+  it("converts p tags to paragraphs separated by a blank line", () => {
+    expect(cleanHtml("<p>para1</p><p>para2</p>")).toBe("para1\n\npara2");
   });
 
   it("converts a tags to markdown links", () => {
@@ -152,10 +161,15 @@ describe("cleanHtml", () => {
     );
   });
 
-  it("strips other HTML tags, keeping inner text", () => {
+  it("converts bold and italic", () => {
     expect(cleanHtml("<b>bold</b> and <i>italic</i>")).toBe(
-      "bold and italic",
+      "**bold** and *italic*",
     );
+    expect(cleanHtml("<strong>a</strong><em> b </em>c")).toBe("**a** *b* c");
+  });
+
+  it("strips unknown tags, keeping inner text", () => {
+    expect(cleanHtml("<span>x</span><font>y</font>")).toBe("xy");
   });
 
   it("collapses 3+ consecutive newlines to double newline", () => {
@@ -199,6 +213,156 @@ describe("cleanHtml", () => {
   it("preserves safe http links", () => {
     expect(cleanHtml('<a href="http://example.com">safe</a>')).toBe("[safe](http://example.com)");
   });
+
+  it("accepts single-quoted and entity-encoded hrefs", () => {
+    expect(cleanHtml("<a href='https://e.com/?a=1&amp;b=2'>q</a>")).toBe(
+      "[q](https://e.com/?a=1&b=2)",
+    );
+  });
+
+  it("decodes numeric and extended named entities", () => {
+    expect(cleanHtml("&#20013;&#x6587; &#X41; &hellip; &mdash; &copy;")).toBe("中文 A … — ©");
+  });
+
+  it("leaves unknown or invalid entities as-is", () => {
+    expect(cleanHtml("&bogus; &#0; &#x110000;")).toBe("&bogus; &#0; &#x110000;");
+  });
+
+  it("does not turn escaped markup into tags", () => {
+    expect(cleanHtml("<p>&lt;b&gt;not bold&lt;/b&gt;</p>")).toBe("<b>not bold</b>");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// cleanHtml fixtures (rich HTML from AI summaries and link originals)
+// ---------------------------------------------------------------------------
+
+describe("cleanHtml fixtures", () => {
+  it("converts headings", () => {
+    expect(cleanHtml("<h1>Title</h1><p>text</p><h3>Sub <em>part</em></h3>")).toBe(
+      "# Title\n\ntext\n\n### Sub *part*",
+    );
+  });
+
+  it("converts unordered and ordered lists", () => {
+    expect(cleanHtml("<ul><li>a</li><li>b</li></ul>")).toBe("- a\n- b");
+    expect(cleanHtml('<ol start="3"><li>c</li><li>d</li></ol>')).toBe("3. c\n4. d");
+  });
+
+  it("indents nested lists under their item", () => {
+    const html = `
+      <ul>
+        <li>fruit
+          <ol>
+            <li>apple</li>
+            <li><p>pear</p></li>
+          </ol>
+        </li>
+        <li>veg</li>
+      </ul>`;
+    expect(cleanHtml(html)).toBe("- fruit\n  1. apple\n  2. pear\n- veg");
+  });
+
+  it("handles unclosed li tags and lists placed directly inside lists", () => {
+    expect(cleanHtml("<ul><li>a<li>b<ul><li>c</ul></ul>")).toBe("- a\n- b\n  - c");
+    expect(cleanHtml("<ul><li>a</li><ul><li>b</li></ul></ul>")).toBe("- a\n  - b");
+  });
+
+  it("converts task list checkboxes", () => {
+    expect(
+      cleanHtml('<ul><li><input type="checkbox" checked>done</li><li><input type="checkbox">todo</li></ul>'),
+    ).toBe("- [x] done\n- [ ] todo");
+  });
+
+  it("converts blockquotes, including nested paragraphs", () => {
+    expect(cleanHtml("<blockquote><p>one</p><p>two</p></blockquote>")).toBe("> one\n>\n> two");
+    expect(cleanHtml("<blockquote>a<blockquote>b</blockquote></blockquote>")).toBe(
+      "> a\n>\n> > b",
+    );
+  });
+
+  it("converts code blocks, keeping whitespace and the language", () => {
+    const html = '<pre><code class="language-ts">if (a &lt; b) {\n  run();\n}\n</code></pre>';
+    expect(cleanHtml(html)).toBe("```ts\nif (a < b) {\n  run();\n}\n```");
+  });
+
+  it("keeps blank lines of code blocks", () => {
+    expect(cleanHtml("<p>a</p><pre>x\n\n\n  \ny</pre>")).toBe("a\n\n```\nx\n\n\n  \ny\n```");
+  });
+
+  it("keeps blank lines of code blocks in list items", () => {
+    const html = "<ul><li>setup<pre><code>a = 1\n\n\nb = 2</code></pre></li><li>next</li></ul>";
+    expect(cleanHtml(html)).toBe("- setup\n  ```\n  a = 1\n\n\n  b = 2\n  ```\n- next");
+    expect(cleanHtml("<ul><li>outer<ul><li>inner<pre><code>a = 1\n\nb = 2</code></pre></li></ul></li></ul>")).toBe(
+      "- outer\n  - inner\n    ```\n    a = 1\n\n    b = 2\n    ```",
+    );
+  });
+
+  it("uses a longer fence when the code contains one", () => {
+    expect(cleanHtml("<pre>```\nx\n```</pre>")).toBe("````\n```\nx\n```\n````");
+  });
+
+  it("converts inline code without formatting its contents", () => {
+    expect(cleanHtml("run <code>npm <b>i</b></code> now")).toBe("run `npm i` now");
+    expect(cleanHtml("<code>a`b</code>")).toBe("``a`b``");
+  });
+
+  it("converts tables with a header row", () => {
+    const html = `
+      <table>
+        <thead><tr><th>Name</th><th>Note</th></tr></thead>
+        <tbody>
+          <tr><td>a</td><td>x | y</td></tr>
+          <tr><td><p>b</p></td></tr>
+        </tbody>
+      </table>`;
+    expect(cleanHtml(html)).toBe(
+      "| Name | Note |\n| --- | --- |\n| a | x \\| y |\n| b |  |",
+    );
+  });
+
+  it("converts images and strips unsafe image sources", () => {
+    expect(cleanHtml('<img src="https://e.com/a b.png" alt="pic">')).toBe(
+      "![pic](https://e.com/a%20b.png)",
+    );
+    expect(cleanHtml('<img src="javascript:alert(1)" alt="pic">')).toBe("pic");
+  });
+
+  it("converts horizontal rules", () => {
+    expect(cleanHtml("<p>a</p><hr><p>b</p>")).toBe("a\n\n---\n\nb");
+  });
+
+  it("converts strikethrough and highlights", () => {
+    expect(cleanHtml("<del>old</del> <mark>key</mark>")).toBe("~~old~~ ==key==");
+  });
+
+  it("removes script and style contents instead of leaking their text", () => {
+    const html =
+      "<style>p { color: red; }</style><p>kept</p><script>alert('x')</script><SCRIPT>var y;</SCRIPT>";
+    expect(cleanHtml(html)).toBe("kept");
+    expect(cleanHtml("<p>a</p><script>never closed")).toBe("a");
+  });
+
+  it("drops comments and doctype", () => {
+    expect(cleanHtml("<!DOCTYPE html><!-- hidden --><p>shown</p>")).toBe("shown");
+  });
+
+  it("ignores source indentation in pretty-printed HTML", () => {
+    expect(cleanHtml("<div>\n    <p>\n      first line\n    </p>\n</div>")).toBe("first line");
+  });
+
+  it("keeps line breaks and indentation of plain-text content", () => {
+    expect(cleanHtml("- item\n  - sub\n\ncode:  a  b")).toBe("- item\n  - sub\n\ncode:  a  b");
+  });
+
+  it("converts a typical AI summary", () => {
+    const html =
+      "<h2>要点</h2><ol><li><strong>结论</strong>：可行</li><li>风险&nbsp;较低</li></ol>" +
+      "<p>详见<a href=\"https://biji.com/n/1\">原文</a>。</p>";
+    expect(cleanHtml(html)).toBe(
+      "## 要点\n\n1. **结论**：可行\n2. 风险 较低\n\n详见[原文](https://biji.com/n/1)。",
+    );
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -213,7 +377,7 @@ describe("bijiNoteToRawNote", () => {
     expect(raw!.id).toBe("note-abc-123");
     expect(raw!.title).toBe("Test Note");
     // Content is HTML-cleaned
-    expect(raw!.content).toBe("Hello world\n\n");
+    expect(raw!.content).toBe("Hello world");
     expect(raw!.tags).toEqual(["tag-a", "tag-b"]);
     expect(raw!.createdAt).toBe("2024-01-15T10:00:00Z");
     expect(raw!.updatedAt).toBe("2024-01-16T12:00:00Z");
@@ -248,6 +412,24 @@ describe("bijiNoteToRawNote", () => {
     expect(raw.tags).toEqual([]);
   });
 
+  it("keeps media attachments and excludes them from sourceUrl", () => {
+    const biji = makeBijiNote({
+      attachments: [
+        { type: "image", url: "https://cdn.example.com/a.png", title: "a.png" },
+        { type: "audio", url: "https://cdn.example.com/v.mp3", title: "voice" },
+        { type: "link", url: "https://example.com/article", title: "Article" },
+      ],
+    });
+    const raw = bijiNoteToRawNote(biji)!;
+    expect(raw.sourceUrl).toBe("https://example.com/article");
+    expect(raw.attachments!.map((a) => a.type)).toEqual(["image", "audio"]);
+  });
+
+  it("leaves attachments undefined when there is no media", () => {
+    const raw = bijiNoteToRawNote(makeBijiNote())!;
+    expect(raw.attachments).toBeUndefined();
+  });
+
   it("handles null attachments -> no sourceUrl", () => {
     const biji = makeBijiNote({
       attachments: null as unknown as BijiNote["attachments"],
@@ -302,7 +484,13 @@ describe("bijiNoteToRawNote", () => {
   it("cleans HTML from content", () => {
     const biji = makeBijiNote({ content: "<b>bold</b><br>line2" });
     const raw = bijiNoteToRawNote(biji)!;
-    expect(raw.content).toBe("bold\nline2");
+    expect(raw.content).toBe("**bold**\nline2");
+  });
+
+  it("uses edit_time as updatedAt when it is newer than updated_at", () => {
+    const biji = makeBijiNote({ edit_time: "2024-02-01T08:00:00Z" });
+    const raw = bijiNoteToRawNote(biji)!;
+    expect(raw.updatedAt).toBe("2024-02-01T08:00:00Z");
   });
 });
 
@@ -368,6 +556,13 @@ describe("buildFrontmatter", () => {
     expect(fm).toContain("tags: []");
   });
 
+  it("writes the account right after biji_id when set", () => {
+    const lines = buildFrontmatter(makeRawNote({ account: "work" })).split("\n");
+    expect(lines[1]).toContain("biji_id:");
+    expect(lines[2]).toBe('biji_account: "work"');
+    expect(buildFrontmatter(makeRawNote())).not.toContain("biji_account:");
+  });
+
   it("preserves field order: biji_id before title before tags", () => {
     const note = makeRawNote();
     const fm = buildFrontmatter(note);
@@ -449,6 +644,119 @@ describe("buildMarkdown", () => {
     const md = buildMarkdown(note);
     expect(md).toContain("# Title With Breaks");
   });
+
+  it("embeds downloaded attachments after the content", () => {
+    const md = buildMarkdown(
+      makeRawNote({
+        embeds: ["Get笔记/attachments/a-1234abcd.png"],
+        originalContent: "quoted",
+      }),
+    );
+    expect(md).toContain("Hello world\n\n![[Get笔记/attachments/a-1234abcd.png]]");
+    expect(md.indexOf("![[")).toBeLessThan(md.indexOf("> [!quote]"));
+  });
+
+  it("renders the body from a custom template, keeping frontmatter and marker", () => {
+    const md = buildMarkdown(
+      makeRawNote({ originalContent: "quoted" }),
+      "{{#if original_content}}> [!note] Original\n{{original_content:quote}}\n\n{{/if}}## {{title}}\n\n{{content}}",
+    );
+    expect(md.startsWith("---\nbiji_id:")).toBe(true);
+    expect(md).toContain("---\n\n> [!note] Original\n> quoted\n\n## Test Note\n\nHello world\n\n");
+    expect(md.endsWith(`${USER_SECTION_MARKER}\n`)).toBe(true);
+  });
+
+  it("throws on a malformed template", () => {
+    expect(() => buildMarkdown(makeRawNote(), "{{nope}}")).toThrow(TemplateError);
+  });
+
+  it("ends with the user section marker", () => {
+    const md = buildMarkdown(makeRawNote({ originalContent: "quoted" }));
+    expect(md.endsWith(`\n${USER_SECTION_MARKER}\n`)).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mergeUserEdits
+// ---------------------------------------------------------------------------
+
+describe("mergeUserEdits", () => {
+  const generated = buildMarkdown(makeRawNote({ content: "New content" }));
+
+  it("carries over text below the user section marker", () => {
+    const existing = `---\nbiji_id: "x"\n---\nOld\n\n${USER_SECTION_MARKER}\n\n## My notes\n- point\n`;
+    const merged = mergeUserEdits(generated, existing);
+    expect(merged).toContain("New content");
+    expect(merged).not.toContain("Old");
+    expect(merged.endsWith(`${USER_SECTION_MARKER}\n\n## My notes\n- point\n`)).toBe(true);
+  });
+
+  it("carries over user-added frontmatter keys, including list values", () => {
+    const existing = [
+      "---",
+      'biji_id: "note-abc-123"',
+      'title: "Old title"',
+      "rating: 5",
+      "aliases:",
+      "  - alt name",
+      "tags:",
+      '  - "old-tag"',
+      "---",
+      "body",
+    ].join("\n");
+    const merged = mergeUserEdits(generated, existing);
+    const fm = merged.slice(0, merged.indexOf("\n---\n", 4));
+    expect(fm).toContain("rating: 5");
+    expect(fm).toContain("aliases:\n  - alt name");
+    // Managed keys take the regenerated value
+    expect(fm).toContain('title: "Test Note"');
+    expect(fm).not.toContain("Old title");
+    expect(fm).not.toContain("old-tag");
+  });
+
+  it("returns the generated note unchanged when there is nothing to keep", () => {
+    const existing = buildMarkdown(makeRawNote({ content: "Old content" }));
+    expect(mergeUserEdits(generated, existing)).toBe(generated);
+  });
+
+  it("keeps the whole old body below the marker when the existing file has none", () => {
+    const existing = `---\nbiji_id: "x"\n---\n# Old\n\nOld content\n\nhand-written text\n`;
+    const merged = mergeUserEdits(generated, existing);
+    expect(merged.startsWith(generated)).toBe(true);
+    expect(merged.endsWith(`${USER_SECTION_MARKER}\n# Old\n\nOld content\n\nhand-written text\n`)).toBe(true);
+  });
+
+  it("handles an existing file without frontmatter", () => {
+    const existing = `text\n${USER_SECTION_MARKER}\nmine\n`;
+    const merged = mergeUserEdits(generated, existing);
+    expect(merged.startsWith("---\n")).toBe(true);
+    expect(merged).toContain(`${USER_SECTION_MARKER}\nmine\n`);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// noteFilename
+// ---------------------------------------------------------------------------
+
+describe("noteFilename", () => {
+  it("uses the title by default", () => {
+    expect(noteFilename(makeRawNote({ title: "My/Note?" }))).toBe("MyNote");
+  });
+
+  it("renders id and type tokens", () => {
+    expect(noteFilename(makeRawNote(), "{{note_type}}-{{id}}")).toBe("plain_text-note-abc-123");
+  });
+
+  it("renders date tokens and strips unsafe characters", () => {
+    const note = makeRawNote({ createdAt: "2024-03-05T08:09:10" });
+    expect(noteFilename(note, "{{created:YYYY-MM-DD HH:mm}} {{title}}")).toBe(
+      "2024-03-05 0809 Test Note",
+    );
+  });
+
+  it("falls back to the default title when the template renders empty", () => {
+    expect(noteFilename(makeRawNote({ sourceUrl: undefined }), "{{source_url}}")).toBe("无标题");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -488,3 +796,141 @@ describe("resolveFilename", () => {
     expect(resolveFilename("bad/name?yes", "abc123")).toBe("badnameyes");
   });
 });
+
+// ---------------------------------------------------------------------------
+// latestTimestamp / isRemoteNewer
+// ---------------------------------------------------------------------------
+
+describe("latestTimestamp", () => {
+  it("returns the most recent timestamp", () => {
+    expect(
+      latestTimestamp("2024-01-01T00:00:00Z", "2024-03-01T00:00:00Z"),
+    ).toBe("2024-03-01T00:00:00Z");
+  });
+
+  it("ignores empty values", () => {
+    expect(latestTimestamp("", "2024-01-01T00:00:00Z", undefined)).toBe(
+      "2024-01-01T00:00:00Z",
+    );
+  });
+
+  it("prefers parseable values over unparseable ones", () => {
+    expect(latestTimestamp("garbage", "2024-01-01T00:00:00Z")).toBe(
+      "2024-01-01T00:00:00Z",
+    );
+  });
+
+  it("returns empty string when all values are empty", () => {
+    expect(latestTimestamp(undefined, null, "")).toBe("");
+  });
+});
+
+describe("isRemoteNewer", () => {
+  it("returns true when remote is later than local", () => {
+    expect(
+      isRemoteNewer("2024-02-01T00:00:00Z", "2024-01-01T00:00:00Z"),
+    ).toBe(true);
+  });
+
+  it("returns false when timestamps are equal", () => {
+    expect(
+      isRemoteNewer("2024-01-01T00:00:00Z", "2024-01-01T00:00:00Z"),
+    ).toBe(false);
+  });
+
+  it("returns false when local is later than remote", () => {
+    expect(
+      isRemoteNewer("2024-01-01T00:00:00Z", "2024-02-01T00:00:00Z"),
+    ).toBe(false);
+  });
+
+  it("returns false when local timestamp is missing", () => {
+    expect(isRemoteNewer("2024-01-01T00:00:00Z", undefined)).toBe(false);
+  });
+
+  it("falls back to string inequality for unparseable values", () => {
+    expect(isRemoteNewer("v2", "v1")).toBe(true);
+    expect(isRemoteNewer("v1", "v1")).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// stripUserEdits
+// ---------------------------------------------------------------------------
+
+describe("stripUserEdits", () => {
+  it("returns a freshly generated note unchanged", () => {
+    const md = buildMarkdown(makeRawNote({ originalContent: "quoted" }));
+    expect(stripUserEdits(md)).toBe(md);
+  });
+
+  it("removes user frontmatter keys and the user section", () => {
+    const md = buildMarkdown(makeRawNote());
+    const edited = mergeUserEdits(
+      md,
+      `---\nrating: 5\n---\n${USER_SECTION_MARKER}\nmine\n`,
+    );
+    expect(edited).toContain("rating: 5");
+    expect(stripUserEdits(edited)).toBe(md);
+  });
+
+  it("keeps edits to the generated part", () => {
+    const md = buildMarkdown(makeRawNote());
+    const edited = md.replace("Hello world", "Hello vault");
+    expect(stripUserEdits(edited)).toContain("Hello vault");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// readFrontmatter / updateFrontmatter
+// ---------------------------------------------------------------------------
+describe("readFrontmatter", () => {
+  it("reads what buildFrontmatter writes", () => {
+    const md = buildMarkdown(makeRawNote({ account: "work", title: 'Say "hi"\nthere' }));
+    expect(readFrontmatter(md)).toEqual({
+      biji_id: "note-abc-123",
+      biji_account: "work",
+      title: 'Say "hi"\nthere',
+      note_type: "plain_text",
+      entry_type: "manual",
+      tags: ["tag-a", "tag-b"],
+      source_url: "https://example.com",
+      origin: "app",
+      created_at: "2024-01-15T10:00:00Z",
+      updated_at: "2024-01-16T12:00:00Z",
+    });
+  });
+
+  it("reads plain scalars and flow lists", () => {
+    const md = "---\nbiji_deleted: true\nrating: 5\nempty:\nnote: it's fine # comment\ntags: [a, 'b c', \"d,e\"]\n---\nBody\n";
+    expect(readFrontmatter(md)).toEqual({
+      biji_deleted: true,
+      rating: 5,
+      empty: null,
+      note: "it's fine",
+      tags: ["a", "b c", "d,e"],
+    });
+  });
+
+  it("returns null without frontmatter", () => {
+    expect(readFrontmatter("# Title\n")).toBeNull();
+  });
+});
+
+describe("updateFrontmatter", () => {
+  it("rewrites only the changed keys", () => {
+    const md = `---\nbiji_id: "n1"\ntags:\n  - "a"\nrating:   5\n---\n# Body\n`;
+    const result = updateFrontmatter(md, (fm) => {
+      fm.biji_deleted = true;
+      fm.tags = ["a", "b"];
+    });
+    expect(result).toBe(
+      `---\nbiji_id: "n1"\ntags:\n  - "a"\n  - "b"\nrating:   5\nbiji_deleted: true\n---\n# Body\n`,
+    );
+  });
+
+  it("removes deleted keys and adds frontmatter to a document without it", () => {
+    expect(updateFrontmatter("---\na: 1\nb: 2\n---\nx\n", (fm) => delete fm.a)).toBe("---\nb: 2\n---\nx\n");
+    expect(updateFrontmatter("x\n", (fm) => (fm.title = "T"))).toBe('---\ntitle: "T"\n---\nx\n');
+  });
+});
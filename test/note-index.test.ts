@@ -0,0 +1,132 @@
+// INPUT: note-index.ts (BijiNoteIndex), obsidian-vault.ts (ObsidianVault), obsidian mock (TFile)
+// OUTPUT: biji_id index tests
+// POS: Test layer — validates index build, event upkeep and lookups
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TFile } from "obsidian";
+import { BijiNoteIndex } from "../src/note-index";
+import { ObsidianVault } from "../src/obsidian-vault";
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+type Handler = (...args: any[]) => void;
+
+function createMockApp(files: Record<string, string | null>) {
+  const tfiles = Object.keys(files).map((path) => new TFile(path));
+  const handlers: Record<string, Handler> = {};
+  const app = {
+    vault: {
+      getMarkdownFiles: vi.fn(() => tfiles),
+      getAbstractFileByPath: vi.fn(
+        (path: string) => tfiles.find((f) => f.path === path) ?? null,
+      ),
+      on: vi.fn((event: string, cb: Handler) => {
+        handlers[`vault:${event}`] = cb;
+        return {};
+      }),
+    },
+    metadataCache: {
+      getFileCache: vi.fn((file: TFile) => {
+        const id = files[file.path];
+        return id === null ? {} : { frontmatter: { biji_id: id } };
+      }),
+      on: vi.fn((event: string, cb: Handler) => {
+        handlers[`metadata:${event}`] = cb;
+        return {};
+      }),
+    },
+  };
+  const plugin = { app, registerEvent: vi.fn() };
+  return { app, plugin, tfiles, handlers };
+}
+
+// ── Tests ───────────────────────────────────────────────────────────
+
+describe("BijiNoteIndex", () => {
+  let env: ReturnType<typeof createMockApp>;
+  let index: BijiNoteIndex;
+
+  beforeEach(() => {
+    env = createMockApp({
+      "Get笔记/A.md": "note-a",
+      "Elsewhere/B renamed.md": "note-b",
+      "Personal/Diary.md": null,
+    });
+    index = new BijiNoteIndex(new ObsidianVault(env.app as any));
+    index.registerEvents(env.plugin as any);
+    index.build();
+  });
+
+  it("should index every file with a biji_id, regardless of folder", () => {
+    expect(index.get("note-a")?.path).toBe("Get笔记/A.md");
+    expect(index.get("note-b")?.path).toBe("Elsewhere/B renamed.md");
+    expect(index.idForPath("Personal/Diary.md")).toBeNull();
+  });
+
+  it("should return null for unknown ids", () => {
+    expect(index.get("note-missing")).toBeNull();
+  });
+
+  it("should register its event handlers with the plugin", () => {
+    expect(env.plugin.registerEvent).toHaveBeenCalledTimes(3);
+  });
+
+  it("should build only once via ensureBuilt", () => {
+    index.ensureBuilt();
+    expect(env.app.vault.getMarkdownFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it("should follow renames", () => {
+    const file = env.tfiles[0];
+    file.path = "Archive/A moved.md";
+    env.handlers["vault:rename"](file, "Get笔记/A.md");
+
+    expect(index.get("note-a")?.path).toBe("Archive/A moved.md");
+    expect(index.idForPath("Get笔记/A.md")).toBeNull();
+    expect(index.idForPath("Archive/A moved.md")).toBe("note-a");
+  });
+
+  it("should drop deleted files", () => {
+    env.handlers["vault:delete"](env.tfiles[0]);
+    expect(index.get("note-a")).toBeNull();
+  });
+
+  it("should update on frontmatter changes", () => {
+    const diary = env.tfiles[2];
+    env.handlers["metadata:changed"](diary, "", {
+      frontmatter: { biji_id: "note-c" },
+    });
+    expect(index.get("note-c")).toBe(diary);
+
+    // biji_id removed from frontmatter
+    env.handlers["metadata:changed"](diary, "", { frontmatter: {} });
+    expect(index.get("note-c")).toBeNull();
+  });
+
+  it("should coerce numeric biji_id values to strings", () => {
+    const diary = env.tfiles[2];
+    env.handlers["metadata:changed"](diary, "", {
+      frontmatter: { biji_id: 12345 },
+    });
+    expect(index.get("12345")).toBe(diary);
+  });
+
+  it("should record files written by the sync engine immediately", () => {
+    const created = new TFile("Get笔记/New.md");
+    index.set("note-new", created);
+    expect(index.get("note-new")).toBe(created);
+    expect(index.idForPath("Get笔记/New.md")).toBe("note-new");
+  });
+
+  it("should fall back to a duplicate when the primary file is deleted", () => {
+    const copy = env.tfiles[2];
+    env.handlers["metadata:changed"](copy, "", {
+      frontmatter: { biji_id: "note-a" },
+    });
+    // First indexed file still wins
+    expect(index.get("note-a")?.path).toBe("Get笔记/A.md");
+
+    env.handlers["vault:delete"](env.tfiles[0]);
+    expect(index.get("note-a")).toBe(copy);
+  });
+});
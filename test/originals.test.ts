@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TFile } from "obsidian";
+import { DEFAULT_SETTINGS } from "../src/settings-schema";
+import type BijiSyncPlugin from "../src/main";
+import type { BijiNote, RawNote } from "../src/types";
+import { USER_SECTION_MARKER, bijiNoteToRawNote, buildMarkdown } from "../src/markdown";
+import { NoteStateStore } from "../src/state";
+import { hashContent } from "../src/conflict";
+import { VaultWriter } from "../src/writer";
+import { ObsidianVault } from "../src/obsidian-vault";
+import { DEFAULT_PROFILE_ID, createProfile } from "../src/profiles";
+
+const { mockFetchLinkDetail, mockFetchNote } = vi.hoisted(() => ({
+  mockFetchLinkDetail: vi.fn(),
+  mockFetchNote: vi.fn(),
+}));
+
+vi.mock("../src/api", () => {
+  class AuthFatalError extends Error {}
+  return {
+    AuthFatalError,
+    DETAIL_DELAY: 0,
+    fetchLinkDetail: (...args: any[]) => mockFetchLinkDetail(...args),
+    fetchNote: (...args: any[]) => mockFetchNote(...args),
+  };
+});
+
+import { AuthFatalError } from "../src/api";
+import { backfillOriginals } from "../src/originals";
+
+const linkNote: BijiNote = {
+  id: "note-001",
+  note_id: "note-001",
+  title: "Link",
+  content: "My summary",
+  body_text: "My summary",
+  source: "app",
+  note_type: "link",
+  entry_type: "manual",
+  tags: [],
+  attachments: [],
+  created_at: "2024-01-01T00:00:00Z",
+  updated_at: "2024-01-01T00:00:00Z",
+  edit_time: "2024-01-01T00:00:00Z",
+};
+
+describe("backfillOriginals", () => {
+  const file = new TFile("Get笔记/Link.md");
+  const rawNote = { ...bijiNoteToRawNote(linkNote)!, account: DEFAULT_PROFILE_ID };
+  const markdown = buildMarkdown(rawNote);
+  const render = async (note: RawNote) => buildMarkdown(note);
+
+  function createPlugin(
+    files: Record<string, TFile> = { "note-001": file },
+    content = markdown,
+    frontmatter: Record<string, unknown> = {},
+  ) {
+    const adapter = { exists: vi.fn(async () => false), read: vi.fn(), write: vi.fn() };
+    const plugin = {
+      settings: { ...DEFAULT_SETTINGS },
+      noteIndex: { get: (id: string) => files[id] ?? null },
+      noteState: new NoteStateStore(adapter as any, "state.json"),
+      app: {
+        vault: {
+          read: vi.fn().mockResolvedValue(content),
+          modify: vi.fn().mockResolvedValue(undefined),
+        },
+        metadataCache: {
+          getFileCache: vi.fn().mockReturnValue({ frontmatter }),
+        },
+      },
+    } as unknown as BijiSyncPlugin;
+    plugin.vault = new ObsidianVault(plugin.app);
+    plugin.noteState.set("note-001", { hash: hashContent(markdown), missingOriginal: true });
+    return plugin;
+  }
+
+  const run = (
+    plugin: BijiSyncPlugin,
+    writer = new VaultWriter(plugin.vault),
+    profile = createProfile(DEFAULT_PROFILE_ID, "Default"),
+    renderNote = render,
+  ) => backfillOriginals(plugin, profile, writer, "jwt", vi.fn(), new AbortController().signal, renderNote);
+
+  const written = (plugin: BijiSyncPlugin): string => (plugin.app.vault.modify as any).mock.calls[0][1];
+
+  beforeEach(() => {
+    mockFetchLinkDetail.mockReset();
+    mockFetchNote.mockReset().mockResolvedValue(linkNote);
+  });
+
+  it("should insert the original and follow it with the stored hash", async () => {
+    const plugin = createPlugin();
+    mockFetchLinkDetail.mockResolvedValue("<p>Article</p>");
+
+    expect(await run(plugin)).toEqual(["Get笔记/Link.md"]);
+
+    expect(written(plugin)).toBe(buildMarkdown({ ...rawNote, originalContent: "Article" }));
+    expect(plugin.noteState.get("note-001")).toEqual({ hash: hashContent(written(plugin)) });
+  });
+
+  it("should only add the original to a locally edited note", async () => {
+    const edited = `${markdown.replace("# Link", "# Link, annotated")}My thoughts\n`;
+    const plugin = createPlugin(undefined, edited);
+    mockFetchLinkDetail.mockResolvedValue("<p>Article</p>");
+
+    await run(plugin);
+
+    expect(written(plugin)).toContain("# Link, annotated");
+    expect(written(plugin)).toContain("> Article");
+    expect(written(plugin).endsWith(`${USER_SECTION_MARKER}\nMy thoughts\n`)).toBe(true);
+    expect(plugin.noteState.get("note-001")).toEqual({ hash: hashContent(markdown) });
+  });
+
+  it("should put the original where a custom template wants it", async () => {
+    const template = "{{#if original_content}}## Article\n\n{{original_content}}\n\n{{/if}}# {{title}}\n";
+    const plugin = createPlugin(undefined, buildMarkdown(rawNote, template));
+    mockFetchLinkDetail.mockResolvedValue("<p>Article</p>");
+
+    await run(plugin, undefined, undefined, async (note) => buildMarkdown(note, template));
+
+    expect(written(plugin)).toBe(buildMarkdown({ ...rawNote, originalContent: "Article" }, template));
+  });
+
+  it("should keep the mark when the note was edited where the original goes", async () => {
+    const edited = markdown.replace(USER_SECTION_MARKER, `My closing line\n${USER_SECTION_MARKER}`);
+    const plugin = createPlugin(undefined, edited);
+    mockFetchLinkDetail.mockResolvedValue("<p>Article</p>");
+
+    expect(await run(plugin)).toEqual([]);
+
+    expect(plugin.app.vault.modify).not.toHaveBeenCalled();
+    expect(plugin.noteState.get("note-001")?.missingOriginal).toBe(true);
+  });
+
+  it("should keep notes marked while the original is still missing", async () => {
+    const plugin = createPlugin();
+    mockFetchLinkDetail.mockResolvedValue(null);
+
+    expect(await run(plugin)).toEqual([]);
+    expect(mockFetchNote).not.toHaveBeenCalled();
+    expect(plugin.noteState.get("note-001")?.missingOriginal).toBe(true);
+  });
+
+  it("should unmark notes that left the vault or lost their marker", async () => {
+    const gone = createPlugin({});
+    await run(gone);
+    expect(gone.noteState.get("note-001")?.missingOriginal).toBeUndefined();
+
+    mockFetchLinkDetail.mockResolvedValue("<p>Article</p>");
+
+    mockFetchNote.mockResolvedValue(linkNote);
+    const markerless = createPlugin(undefined, "# Link\n\nNo marker\n");
+    await run(markerless);
+    expect(markerless.app.vault.modify).not.toHaveBeenCalled();
+    expect(markerless.noteState.get("note-001")?.missingOriginal).toBeUndefined();
+  });
+
+  it("should keep the mark when the note cannot be fetched by id", async () => {
+    const plugin = createPlugin();
+    mockFetchLinkDetail.mockResolvedValue("<p>Article</p>");
+    mockFetchNote.mockResolvedValue(null);
+
+    await run(plugin);
+
+    expect(plugin.app.vault.modify).not.toHaveBeenCalled();
+    expect(plugin.noteState.get("note-001")?.missingOriginal).toBe(true);
+  });
+
+  it("should only plan the change in a dry run", async () => {
+    const plugin = createPlugin();
+    mockFetchLinkDetail.mockResolvedValue("<p>Article</p>");
+    const writer = new VaultWriter(plugin.vault, true);
+
+    await run(plugin, writer);
+
+    expect(plugin.app.vault.modify).not.toHaveBeenCalled();
+    expect(writer.actions).toEqual([
+      { action: "update", path: "Get笔记/Link.md", noteId: "note-001", reason: "original article now available" },
+    ]);
+    expect(plugin.noteState.get("note-001")?.missingOriginal).toBe(true);
+  });
+
+  it("should propagate AuthFatalError", async () => {
+    const plugin = createPlugin();
+    mockFetchLinkDetail.mockRejectedValue(new AuthFatalError("expired"));
+
+    await expect(run(plugin)).rejects.toThrow(AuthFatalError);
+  });
+
+  it("should leave notes of other accounts marked for their own profile", async () => {
+    const plugin = createPlugin(undefined, markdown, { biji_account: "work" });
+
+    expect(await run(plugin)).toEqual([]);
+    expect(mockFetchLinkDetail).not.toHaveBeenCalled();
+    expect(plugin.noteState.get("note-001")?.missingOriginal).toBe(true);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PROFILE_ID,
+  createProfile,
+  extractSecrets,
+  latestSyncTime,
+  migrateProfiles,
+  ownsNote,
+  profileId,
+} from "../src/profiles";
+
+describe("profileId", () => {
+  it("should slug the name", () => {
+    expect(profileId("  Work Account ", [])).toBe("work-account");
+    expect(profileId("工作", [])).toBe("工作");
+  });
+
+  it("should fall back to a generic id for names without letters", () => {
+    expect(profileId("!!!", [])).toBe("account");
+  });
+
+  it("should not reuse a taken id", () => {
+    expect(profileId("Work", ["work", "work-2"])).toBe("work-3");
+  });
+});
+
+describe("migrateProfiles", () => {
+  it("should create the default profile for fresh installs", () => {
+    expect(migrateProfiles(null)).toEqual([createProfile(DEFAULT_PROFILE_ID, "Default")]);
+  });
+
+  it("should move per-account settings of older versions into the default profile", () => {
+    const [profile] = migrateProfiles({
+      refreshToken: "token",
+      lastSyncId: "note-9",
+      autoSyncEnabled: true,
+      conflictPolicy: "keep-local",
+    });
+    expect(profile).toMatchObject({
+      id: DEFAULT_PROFILE_ID,
+      lastSyncId: "note-9",
+      autoSyncEnabled: true,
+      targetFolder: "Get笔记",
+    });
+    expect(profile).not.toHaveProperty("conflictPolicy");
+    expect(profile).not.toHaveProperty("refreshToken");
+  });
+
+  it("should keep stored profiles and fill in missing fields", () => {
+    const profiles = migrateProfiles({
+      refreshToken: "ignored",
+      profiles: [{ id: "work", name: "Work", refreshToken: "work-token" }],
+    });
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0]).toMatchObject({ id: "work", retryQueue: [] });
+    expect(profiles[0]).not.toHaveProperty("refreshToken");
+  });
+
+  it("should copy the once shared folder rules into stored profiles without their own", () => {
+    const shared = [{ field: "noteType", value: "link", folder: "Links" }];
+    const own = [{ field: "tag", value: "work", folder: "Work" }];
+    const profiles = migrateProfiles({
+      folderRules: shared,
+      profiles: [
+        { id: "default", name: "Default" },
+        { id: "work", name: "Work", folderRules: own },
+      ],
+    });
+    expect(profiles.map((p) => p.folderRules)).toEqual([shared, own]);
+  });
+
+  it("should move folder rules of single-account versions into the default profile", () => {
+    const rules = [{ field: "noteType", value: "link", folder: "Links" }];
+    expect(migrateProfiles({ folderRules: rules })[0].folderRules).toEqual(rules);
+  });
+});
+
+describe("extractSecrets", () => {
+  it("should find tokens at the top level and in stored profiles", () => {
+    expect(
+      extractSecrets({
+        refreshToken: "legacy",
+        accessToken: "legacy-jwt",
+        profiles: [
+          { id: "work", name: "Work", refreshToken: "work-token" },
+          { id: "empty", name: "Empty", refreshToken: "" },
+        ],
+      }),
+    ).toEqual({
+      [DEFAULT_PROFILE_ID]: { refreshToken: "legacy", accessToken: "legacy-jwt" },
+      work: { refreshToken: "work-token", accessToken: "" },
+    });
+  });
+
+  it("should find nothing in data without tokens", () => {
+    expect(extractSecrets(null)).toEqual({});
+    expect(extractSecrets({ profiles: [{ id: "work", name: "Work" }] })).toEqual({});
+  });
+});
+
+describe("ownsNote", () => {
+  const main = createProfile(DEFAULT_PROFILE_ID, "Default");
+  const work = createProfile("work", "Work");
+
+  it("should match the biji_account of a note", () => {
+    expect(ownsNote(work, "work")).toBe(true);
+    expect(ownsNote(main, "work")).toBe(false);
+  });
+
+  it("should give notes without an account to the default profile", () => {
+    expect(ownsNote(main, undefined)).toBe(true);
+    expect(ownsNote(main, "")).toBe(true);
+    expect(ownsNote(work, undefined)).toBe(false);
+  });
+});
+
+describe("latestSyncTime", () => {
+  it("should return the most recent sync of any profile", () => {
+    expect(latestSyncTime([createProfile("a", "A")])).toBeNull();
+    expect(
+      latestSyncTime([
+        createProfile("a", "A", { lastSyncTime: 1000 }),
+        createProfile("b", "B", { lastSyncTime: null }),
+        createProfile("c", "C", { lastSyncTime: 3000 }),
+      ]),
+    ).toBe(3000);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  dequeueRetry,
+  dueRetries,
+  givenUpRetries,
+  queueRetry,
+  retryDelay,
+  type RetryEntry,
+} from "../src/retry-queue";
+
+const MINUTE = 60 * 1000;
+
+function entry(overrides: Partial<RetryEntry> = {}): RetryEntry {
+  return {
+    noteId: "note-001",
+    title: "Note",
+    attempts: 1,
+    lastError: "Disk full",
+    nextRetryAt: 0,
+    ...overrides,
+  };
+}
+
+describe("retryDelay", () => {
+  it("should double from 5 minutes and stop at a day", () => {
+    expect(retryDelay(1)).toBe(5 * MINUTE);
+    expect(retryDelay(2)).toBe(10 * MINUTE);
+    expect(retryDelay(3)).toBe(20 * MINUTE);
+    expect(retryDelay(20)).toBe(24 * 60 * MINUTE);
+  });
+});
+
+describe("queueRetry", () => {
+  it("should add a new failure with one attempt", () => {
+    const queue = queueRetry([], { noteId: "a", title: "A", message: "Disk full" }, 1000);
+    expect(queue).toEqual([
+      { noteId: "a", title: "A", attempts: 1, lastError: "Disk full", nextRetryAt: 1000 + 5 * MINUTE },
+    ]);
+  });
+
+  it("should count another attempt and keep the known title", () => {
+    const queue = queueRetry(
+      [entry({ noteId: "a", title: "A", attempts: 2 })],
+      { noteId: "a", title: "", message: "Server error" },
+      0,
+    );
+    expect(queue).toEqual([
+      { noteId: "a", title: "A", attempts: 3, lastError: "Server error", nextRetryAt: 20 * MINUTE },
+    ]);
+  });
+
+  it("should not mutate the previous queue", () => {
+    const previous = [entry()];
+    queueRetry(previous, { noteId: "note-001", title: "Note", message: "again" }, 0);
+    expect(previous[0].attempts).toBe(1);
+  });
+});
+
+describe("dequeueRetry", () => {
+  it("should remove the note", () => {
+    expect(dequeueRetry([entry({ noteId: "a" }), entry({ noteId: "b" })], "a")).toEqual([
+      entry({ noteId: "b" }),
+    ]);
+  });
+
+  it("should return the same queue when the note is not queued", () => {
+    const queue = [entry()];
+    expect(dequeueRetry(queue, "other")).toBe(queue);
+  });
+});
+
+describe("dueRetries / givenUpRetries", () => {
+  const queue = [
+    entry({ noteId: "due", nextRetryAt: 100 }),
+    entry({ noteId: "later", nextRetryAt: 300 }),
+    entry({ noteId: "given-up", attempts: 5, nextRetryAt: 100 }),
+  ];
+
+  it("should return due entries below the attempt limit", () => {
+    expect(dueRetries(queue, 5, 200).map((e) => e.noteId)).toEqual(["due"]);
+  });
+
+  it("should return entries that reached the attempt limit", () => {
+    expect(givenUpRetries(queue, 5).map((e) => e.noteId)).toEqual(["given-up"]);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import {
+  expandFolderPattern,
+  resolveFolder,
+  ruleMatches,
+  validateFolderRule,
+  type FolderRule,
+} from "../src/routing";
+import { TemplateError } from "../src/template";
+import type { RawNote } from "../src/types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeRawNote(overrides: Partial<RawNote> = {}): RawNote {
+  return {
+    id: "note-abc-123",
+    title: "Test Note",
+    content: "Hello world",
+    tags: ["Reading", "AI"],
+    // Local time, so date routing is stable across time zones
+    createdAt: "2024-03-05T08:09:10",
+    updatedAt: "2024-03-05T08:09:10",
+    noteType: "link",
+    entryType: "ai",
+    origin: "web",
+    ...overrides,
+  };
+}
+
+function rule(field: FolderRule["field"], value: string, folder: string): FolderRule {
+  return { field, value, folder };
+}
+
+// ---------------------------------------------------------------------------
+// ruleMatches
+// ---------------------------------------------------------------------------
+
+describe("ruleMatches", () => {
+  const note = makeRawNote();
+
+  it("matches note type, origin and entry type case-insensitively", () => {
+    expect(ruleMatches(rule("noteType", "LINK", "x"), note)).toBe(true);
+    expect(ruleMatches(rule("noteType", "audio", "x"), note)).toBe(false);
+    expect(ruleMatches(rule("origin", "web", "x"), note)).toBe(true);
+    expect(ruleMatches(rule("entryType", "manual", "x"), note)).toBe(false);
+  });
+
+  it("matches tags, with or without a leading #", () => {
+    expect(ruleMatches(rule("tag", "reading", "x"), note)).toBe(true);
+    expect(ruleMatches(rule("tag", "#AI", "x"), note)).toBe(true);
+    expect(ruleMatches(rule("tag", "Read", "x"), note)).toBe(false);
+  });
+
+  it("matches created date prefixes", () => {
+    expect(ruleMatches(rule("created", "2024", "x"), note)).toBe(true);
+    expect(ruleMatches(rule("created", "2024-03", "x"), note)).toBe(true);
+    expect(ruleMatches(rule("created", "2024-03-05", "x"), note)).toBe(true);
+    expect(ruleMatches(rule("created", "2023", "x"), note)).toBe(false);
+  });
+
+  it("treats an empty value as a catch-all", () => {
+    expect(ruleMatches(rule("tag", " ", "x"), makeRawNote({ tags: [] }))).toBe(true);
+  });
+
+  it("does not match missing fields", () => {
+    expect(ruleMatches(rule("origin", "web", "x"), makeRawNote({ origin: undefined }))).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resolveFolder
+// ---------------------------------------------------------------------------
+
+describe("resolveFolder", () => {
+  it("falls back to the target folder when no rule matches", () => {
+    expect(resolveFolder(makeRawNote(), [rule("noteType", "audio", "Voice")], "Get笔记/")).toBe(
+      "Get笔记",
+    );
+    expect(resolveFolder(makeRawNote(), [], "Get笔记")).toBe("Get笔记");
+  });
+
+  it("uses the first matching rule", () => {
+    const rules = [
+      rule("noteType", "audio", "Get笔记/Voice"),
+      rule("noteType", "link", "Get笔记/Links"),
+      rule("noteType", "", "Get笔记/Other"),
+    ];
+    expect(resolveFolder(makeRawNote(), rules, "Get笔记")).toBe("Get笔记/Links");
+  });
+
+  it("renders date shorthands and template fields", () => {
+    expect(
+      resolveFolder(makeRawNote(), [rule("created", "", "Get笔记/{{YYYY}}/{{MM}}/{{note_type}}")], "x"),
+    ).toBe("Get笔记/2024/03/link");
+  });
+
+  it("sanitizes segments and drops empty ones", () => {
+    expect(
+      resolveFolder(makeRawNote({ origin: "a:b" }), [rule("origin", "", "/Get笔记//{{origin}}/ {{source_url}} /")], "x"),
+    ).toBe("Get笔记/ab");
+  });
+
+  it("falls back when the pattern renders to nothing", () => {
+    expect(resolveFolder(makeRawNote(), [rule("origin", "", "{{source_url}}")], "Get笔记")).toBe(
+      "Get笔记",
+    );
+  });
+
+  it("throws TemplateError for a malformed pattern", () => {
+    expect(() => resolveFolder(makeRawNote(), [rule("origin", "", "{{nope}}")], "x")).toThrow(
+      TemplateError,
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// expandFolderPattern / validateFolderRule
+// ---------------------------------------------------------------------------
+
+describe("expandFolderPattern", () => {
+  it("expands bare date tokens into created formats", () => {
+    expect(expandFolderPattern("A/{{YYYY}}/{{ MM }}-{{DD}}/{{title}}")).toBe(
+      "A/{{created:YYYY}}/{{created:MM}}-{{created:DD}}/{{title}}",
+    );
+  });
+});
+
+describe("validateFolderRule", () => {
+  it("accepts valid rules", () => {
+    expect(validateFolderRule(rule("tag", "x", "Get笔记/{{YYYY}}"))).toBeNull();
+  });
+
+  it("rejects empty folders, bad fields and bad patterns", () => {
+    expect(validateFolderRule(rule("tag", "x", " "))).toMatch(/empty/);
+    expect(validateFolderRule({ field: "author" as any, value: "", folder: "A" })).toMatch(/Unknown rule field/);
+    expect(validateFolderRule(rule("tag", "x", "{{content}}"))).toMatch(/content/);
+    expect(validateFolderRule(rule("tag", "x", "{{#if title}}"))).toMatch(/never closed/);
+  });
+});
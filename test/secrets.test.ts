@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+import { SecretStore, WrongPassphraseError } from "../src/secrets";
+
+function createMemoryAdapter() {
+  const files = new Map<string, string>();
+  return {
+    files,
+    exists: vi.fn(async (path: string) => files.has(path)),
+    read: vi.fn(async (path: string) => files.get(path) ?? ""),
+    write: vi.fn(async (path: string, data: string) => {
+      files.set(path, data);
+    }),
+  };
+}
+
+async function reload(adapter: ReturnType<typeof createMemoryAdapter>): Promise<SecretStore> {
+  const store = new SecretStore(adapter as any, "secrets.json");
+  await store.load();
+  return store;
+}
+
+describe("SecretStore", () => {
+  it("should persist tokens per profile in its own file", async () => {
+    const adapter = createMemoryAdapter();
+    const store = await reload(adapter);
+    store.set("work", { refreshToken: "refresh" });
+    store.set("work", { accessToken: "jwt" });
+    await store.save();
+
+    const again = await reload(adapter);
+    expect(again.get("work")).toEqual({ refreshToken: "refresh", accessToken: "jwt" });
+    expect(again.get("other")).toEqual({ refreshToken: "", accessToken: "" });
+  });
+
+  it("should only write when something changed", async () => {
+    const adapter = createMemoryAdapter();
+    const store = await reload(adapter);
+    await store.save();
+    expect(adapter.write).not.toHaveBeenCalled();
+  });
+
+  it("should encrypt with a passphrase and start locked next session", async () => {
+    const adapter = createMemoryAdapter();
+    const store = await reload(adapter);
+    store.set("default", { refreshToken: "secret-refresh" });
+    await store.setPassphrase("correct horse");
+
+    const file = adapter.files.get("secrets.json")!;
+    expect(file).not.toContain("secret-refresh");
+    expect(JSON.parse(file)).toMatchObject({ version: 1, encrypted: true });
+
+    const locked = await reload(adapter);
+    expect(locked.isEncrypted).toBe(true);
+    expect(locked.isLocked).toBe(true);
+    expect(locked.get("default").refreshToken).toBe("");
+
+    await locked.unlock("correct horse");
+    expect(locked.isLocked).toBe(false);
+    expect(locked.get("default").refreshToken).toBe("secret-refresh");
+  });
+
+  it("should reject a wrong passphrase and stay locked", async () => {
+    const adapter = createMemoryAdapter();
+    const store = await reload(adapter);
+    store.set("default", { refreshToken: "secret-refresh" });
+    await store.setPassphrase("correct horse");
+
+    const locked = await reload(adapter);
+    await expect(locked.unlock("wrong horse")).rejects.toThrow(WrongPassphraseError);
+    expect(locked.isLocked).toBe(true);
+  });
+
+  it("should keep saves encrypted once unlocked and ignore changes while locked", async () => {
+    const adapter = createMemoryAdapter();
+    const store = await reload(adapter);
+    await store.setPassphrase("correct horse");
+
+    const locked = await reload(adapter);
+    locked.set("default", { refreshToken: "ignored" });
+    await locked.unlock("correct horse");
+    expect(locked.get("default").refreshToken).toBe("");
+
+    locked.set("default", { refreshToken: "rotated" });
+    await locked.save();
+    expect(adapter.files.get("secrets.json")).not.toContain("rotated");
+    const again = await reload(adapter);
+    await again.unlock("correct horse");
+    expect(again.get("default").refreshToken).toBe("rotated");
+  });
+
+  it("should refuse short passphrases and store plainly after removing encryption", async () => {
+    const adapter = createMemoryAdapter();
+    const store = await reload(adapter);
+    store.set("default", { refreshToken: "refresh" });
+    await expect(store.setPassphrase("short")).rejects.toThrow("at least 8");
+
+    await store.setPassphrase("correct horse");
+    await store.removePassphrase();
+
+    expect(JSON.parse(adapter.files.get("secrets.json")!)).toEqual({
+      version: 1,
+      encrypted: false,
+      secrets: { default: { refreshToken: "refresh", accessToken: "" } },
+    });
+  });
+
+  it("should adopt tokens only for profiles without one, after unlocking when locked", async () => {
+    const adapter = createMemoryAdapter();
+    const store = await reload(adapter);
+    store.set("default", { refreshToken: "kept" });
+    await store.setPassphrase("correct horse");
+
+    const locked = await reload(adapter);
+    locked.adopt({
+      default: { refreshToken: "legacy", accessToken: "" },
+      work: { refreshToken: "work-legacy", accessToken: "" },
+    });
+    await locked.unlock("correct horse");
+
+    expect(locked.get("default").refreshToken).toBe("kept");
+    expect(locked.get("work").refreshToken).toBe("work-legacy");
+  });
+
+  it("should forget tokens and encryption without the passphrase", async () => {
+    const adapter = createMemoryAdapter();
+    const store = await reload(adapter);
+    store.set("default", { refreshToken: "secret-refresh" });
+    await store.setPassphrase("correct horse");
+
+    const locked = await reload(adapter);
+    await locked.reset();
+
+    expect(locked.isLocked).toBe(false);
+    expect(locked.isEncrypted).toBe(false);
+    expect(JSON.parse(adapter.files.get("secrets.json")!)).toEqual({ version: 1, encrypted: false, secrets: {} });
+  });
+
+  it("should start without tokens when the file is corrupt", async () => {
+    const adapter = createMemoryAdapter();
+    adapter.files.set("secrets.json", "{not json");
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const store = await reload(adapter);
+
+    expect(store.isLocked).toBe(false);
+    expect(store.get("default").refreshToken).toBe("");
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from "vitest";
+import { NoteStateStore } from "../src/state";
+
+function createMemoryAdapter(initial: Record<string, string> = {}) {
+  const files = new Map(Object.entries(initial));
+  return {
+    files,
+    exists: vi.fn(async (path: string) => files.has(path)),
+    read: vi.fn(async (path: string) => files.get(path) ?? ""),
+    write: vi.fn(async (path: string, data: string) => {
+      files.set(path, data);
+    }),
+  };
+}
+
+describe("NoteStateStore", () => {
+  it("loads existing state from disk", async () => {
+    const adapter = createMemoryAdapter({
+      "state.json": JSON.stringify({ "note-1": { hash: "abcd1234" } }),
+    });
+    const store = new NoteStateStore(adapter as any, "state.json");
+    await store.load();
+    expect(store.get("note-1")).toEqual({ hash: "abcd1234" });
+    expect(store.get("note-2")).toBeNull();
+  });
+
+  it("starts empty when the file is missing or corrupt", async () => {
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const adapter = createMemoryAdapter({ "state.json": "{not json" });
+    const store = new NoteStateStore(adapter as any, "state.json");
+    await store.load();
+    expect(store.get("note-1")).toBeNull();
+    consoleSpy.mockRestore();
+  });
+
+  it("only writes when something changed", async () => {
+    const adapter = createMemoryAdapter();
+    const store = new NoteStateStore(adapter as any, "state.json");
+    await store.load();
+    await store.save();
+    expect(adapter.write).not.toHaveBeenCalled();
+
+    store.set("note-1", { hash: "00000000" });
+    await store.save();
+    expect(JSON.parse(adapter.files.get("state.json")!)).toEqual({
+      "note-1": { hash: "00000000" },
+    });
+  });
+
+  it("deletes entries", async () => {
+    const adapter = createMemoryAdapter();
+    const store = new NoteStateStore(adapter as any, "state.json");
+    store.set("note-1", { hash: "00000000" });
+    store.delete("note-1");
+    expect(store.get("note-1")).toBeNull();
+  });
+
+  it("loads only once", async () => {
+    const adapter = createMemoryAdapter({ "state.json": "{}" });
+    const store = new NoteStateStore(adapter as any, "state.json");
+    await store.load();
+    await store.load();
+    expect(adapter.read).toHaveBeenCalledTimes(1);
+  });
+
+  it("lists the ids whose state matches a predicate", () => {
+    const store = new NoteStateStore(createMemoryAdapter() as any, "state.json");
+    store.set("note-1", { hash: "a", missingOriginal: true });
+    store.set("note-2", { hash: "b" });
+    expect(store.idsWhere((state) => state.missingOriginal === true)).toEqual(["note-1"]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import { SyncStatusBar, estimateRemaining, formatProgress } from "../src/status-bar";
+import type { SyncProgress } from "../src/sync";
+
+function progress(overrides: Partial<SyncProgress> = {}): SyncProgress {
+  return {
+    phase: "pages",
+    processed: 100,
+    pages: 2,
+    remaining: 20,
+    linkDetailsPending: 0,
+    morePages: false,
+    ...overrides,
+  };
+}
+
+function createElement() {
+  return {
+    addClass: vi.fn(),
+    removeClass: vi.fn(),
+    setText: vi.fn(),
+    setAttr: vi.fn(),
+    addEventListener: vi.fn(),
+  };
+}
+
+describe("estimateRemaining", () => {
+  it("should extrapolate from the average pace", () => {
+    expect(estimateRemaining(progress(), 50_000)).toBe(10_000);
+  });
+
+  it("should return null before any note was processed", () => {
+    expect(estimateRemaining(progress({ processed: 0 }), 5_000)).toBeNull();
+  });
+});
+
+describe("formatProgress", () => {
+  it("should show count, page, pending links and time left", () => {
+    expect(formatProgress(progress({ linkDetailsPending: 3 }), 50_000)).toBe(
+      "Get笔记: 100 notes · page 2 · 3 links pending · ~10s left",
+    );
+  });
+
+  it("should mark estimates that only cover the current page", () => {
+    expect(formatProgress(progress({ morePages: true, remaining: 50 }), 300_000)).toBe(
+      "Get笔记: 100 notes · page 2 · ~3m+ left",
+    );
+  });
+
+  it("should describe the retry and originals phases", () => {
+    expect(formatProgress(progress({ phase: "retry", remaining: 2, processed: 0 }), 0)).toBe(
+      "Get笔记: retrying 2 failed notes",
+    );
+    expect(formatProgress(progress({ phase: "originals", remaining: 4 }), 1000)).toBe(
+      "Get笔记: filling in 4 link originals",
+    );
+  });
+});
+
+describe("SyncStatusBar", () => {
+  it("should cancel while syncing and open the details otherwise", () => {
+    const el = createElement();
+    const actions = { cancel: vi.fn(), openDetails: vi.fn() };
+    const bar = new SyncStatusBar(el as any, actions);
+    const click = el.addEventListener.mock.calls[0][1];
+
+    bar.setIdle(null);
+    click();
+    expect(actions.openDetails).toHaveBeenCalledTimes(1);
+
+    bar.start();
+    click();
+    expect(actions.cancel).toHaveBeenCalledTimes(1);
+
+    bar.setError("Token expired");
+    click();
+    expect(actions.openDetails).toHaveBeenCalledTimes(2);
+  });
+
+  it("should ignore progress when not syncing", () => {
+    const el = createElement();
+    const bar = new SyncStatusBar(el as any, { cancel: vi.fn(), openDetails: vi.fn() });
+    bar.setIdle(null);
+    bar.setProgress(progress());
+    expect(el.setText).toHaveBeenLastCalledWith("Get笔记: never synced");
+  });
+
+  it("should show the error state until the next sync", () => {
+    const el = createElement();
+    const bar = new SyncStatusBar(el as any, { cancel: vi.fn(), openDetails: vi.fn() });
+    bar.setError("Token expired");
+    expect(el.addClass).toHaveBeenCalledWith("getbiji-status-error");
+    expect(el.setText).toHaveBeenLastCalledWith("Get笔记: sync failed");
+
+    bar.start();
+    expect(el.removeClass).toHaveBeenCalledWith("getbiji-status-error");
+  });
+});
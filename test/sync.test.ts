@@ -1,14 +1,25 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { Notice, TFile, TFolder } from "obsidian";
-import { DEFAULT_SETTINGS, BijiSyncSettings } from "../src/settings";
+import { TFile, TFolder } from "obsidian";
+import { DEFAULT_SETTINGS, BijiSyncSettings } from "../src/settings-schema";
 import type BijiSyncPlugin from "../src/main";
 import type { BijiNote } from "../src/types";
+import { BijiNoteIndex } from "../src/note-index";
+import { ObsidianVault } from "../src/obsidian-vault";
+import { DEFAULT_SYNC_FILTER } from "../src/filters";
+import { USER_SECTION_MARKER, buildMarkdown, bijiNoteToRawNote, stripUserEdits } from "../src/markdown";
+import { NoteStateStore } from "../src/state";
+import { hashContent } from "../src/conflict";
+import { VaultWriter } from "../src/writer";
+import { startSyncRun } from "../src/history";
+import type { RetryEntry } from "../src/retry-queue";
 
 // ── Hoisted variables for use inside vi.mock factories ──────────────
 
 const {
   mockFetchNotes,
+  mockFetchNote,
   mockFetchLinkDetail,
+  mockDownloadAttachment,
   MockAuthFatalError,
   mockRefreshJwt,
   mockValidateRefreshToken,
@@ -21,7 +32,9 @@ const {
   }
   return {
     mockFetchNotes: vi.fn(),
+    mockFetchNote: vi.fn(),
     mockFetchLinkDetail: vi.fn(),
+    mockDownloadAttachment: vi.fn(),
     MockAuthFatalError,
     mockRefreshJwt: vi.fn().mockResolvedValue("mock-jwt-token"),
     mockValidateRefreshToken: vi.fn().mockReturnValue(null),
@@ -34,13 +47,20 @@ vi.mock("../src/api", () => ({
   AuthFatalError: MockAuthFatalError,
   DETAIL_DELAY: 0, // Use 0ms in tests to avoid unnecessary wait
   fetchNotes: (...args: any[]) => mockFetchNotes(...args),
+  fetchNote: (...args: any[]) => mockFetchNote(...args),
   fetchLinkDetail: (...args: any[]) => mockFetchLinkDetail(...args),
+  downloadAttachment: (...args: any[]) => mockDownloadAttachment(...args),
 }));
 
 // ── Mock auth module ────────────────────────────────────────────────
 
 vi.mock("../src/auth", () => ({
-  refreshJwt: (...args: any[]) => mockRefreshJwt(...args),
+  refreshJwt: async (...args: any[]) => ({
+    jwt: await mockRefreshJwt(...args),
+    refreshToken: null,
+    refreshTokenExpiresAt: null,
+  }),
+  decodeJwt: vi.fn().mockReturnValue(null),
   isJwtExpired: vi.fn().mockReturnValue(false),
   validateRefreshToken: (...args: any[]) => mockValidateRefreshToken(...args),
 }));
@@ -48,30 +68,80 @@ vi.mock("../src/auth", () => ({
 // ── Import syncBiji AFTER mocks ─────────────────────────────────────
 
 import { syncBiji } from "../src/sync";
+import { JwtCache } from "../src/jwt-cache";
+import { DEFAULT_PROFILE_ID, PROFILE_KEYS, createProfile } from "../src/profiles";
+import type { AccountProfile } from "../src/profiles";
+import { SecretStore } from "../src/secrets";
 
 // ── Helpers ─────────────────────────────────────────────────────────
 
+function createMemoryAdapter() {
+  const files = new Map<string, string>();
+  return {
+    files,
+    exists: vi.fn(async (path: string) => files.has(path)),
+    read: vi.fn(async (path: string) => files.get(path) ?? ""),
+    write: vi.fn(async (path: string, data: string) => {
+      files.set(path, data);
+    }),
+  };
+}
+
+const REFRESH_TOKEN = "header.eyJleHAiOjk5OTk5OTk5OTksInVpZCI6MX0.sig";
+
+/**
+ * Plugin with one account profile; per-account overrides go into that profile,
+ * `refreshToken` into the secret store.
+ */
 function createMockPlugin(
-  settings: Partial<BijiSyncSettings> = {},
+  overrides: Partial<BijiSyncSettings> & Partial<AccountProfile> & { refreshToken?: string } = {},
 ): BijiSyncPlugin {
-  return {
+  const settings: Record<string, unknown> = {};
+  const profile: Partial<AccountProfile> = {};
+  const { refreshToken = REFRESH_TOKEN, ...rest } = overrides;
+  for (const [key, value] of Object.entries(rest)) {
+    if ((PROFILE_KEYS as readonly string[]).includes(key)) Object.assign(profile, { [key]: value });
+    else settings[key] = value;
+  }
+  const app = {
+    vault: {
+      getAbstractFileByPath: vi.fn().mockReturnValue(new TFolder("Get笔记")),
+      getMarkdownFiles: vi.fn().mockReturnValue([]),
+      createFolder: vi.fn().mockResolvedValue(undefined),
+      create: vi.fn().mockResolvedValue(new TFile()),
+      modify: vi.fn().mockResolvedValue(undefined),
+      read: vi.fn().mockResolvedValue(""),
+      trash: vi.fn().mockResolvedValue(undefined),
+      createBinary: vi.fn().mockResolvedValue(new TFile()),
+    },
+    metadataCache: {
+      getFileCache: vi.fn().mockReturnValue(null),
+    },
+    fileManager: {
+      renameFile: vi.fn().mockResolvedValue(undefined),
+      processFrontMatter: vi.fn().mockResolvedValue(undefined),
+    },
+  };
+  const vault = new ObsidianVault(app as any);
+  const plugin = {
     settings: {
       ...DEFAULT_SETTINGS,
-      refreshToken: "header.eyJleHAiOjk5OTk5OTk5OTksInVpZCI6MX0.sig",
+      profiles: [createProfile(DEFAULT_PROFILE_ID, "Default", profile)],
       ...settings,
     },
     saveSettings: vi.fn().mockResolvedValue(undefined),
-    app: {
-      vault: {
-        getAbstractFileByPath: vi.fn().mockReturnValue(new TFolder("Get笔记")),
-        createFolder: vi.fn().mockResolvedValue(undefined),
-        create: vi.fn().mockResolvedValue(new TFile()),
-      },
-      metadataCache: {
-        getFileCache: vi.fn().mockReturnValue(null),
-      },
-    },
+    notify: vi.fn(),
+    app,
+    vault,
+    noteIndex: new BijiNoteIndex(vault),
+    noteState: new NoteStateStore(createMemoryAdapter() as any, "sync-state.json"),
+    secrets: new SecretStore(createMemoryAdapter() as any, "secrets.json"),
+    transport: { request: vi.fn() }, // Unused: the API and auth modules are mocked
   } as unknown as BijiSyncPlugin;
+  plugin.secrets.set(DEFAULT_PROFILE_ID, { refreshToken });
+  const cache = new JwtCache(plugin.transport, () => plugin.secrets.get(DEFAULT_PROFILE_ID).refreshToken, "", () => {});
+  (plugin as any).tokenCache = () => cache;
+  return plugin;
 }
 
 function makeBijiNote(overrides: Partial<BijiNote> = {}): BijiNote {
@@ -120,12 +190,12 @@ describe("syncBiji", () => {
     mockFetchNotes.mockReturnValue(mockPages([[]]));
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
     expect(plugin.saveSettings).toHaveBeenCalled();
     // lastSyncId should remain null since there were no notes
-    expect(plugin.settings.lastSyncId).toBeNull();
-    expect(plugin.settings.lastSyncTime).toBeTypeOf("number");
+    expect(plugin.settings.profiles[0].lastSyncId).toBeNull();
+    expect(plugin.settings.profiles[0].lastSyncTime).toBeTypeOf("number");
   });
 
   // ── Basic sync creates files ───────────────────────────────────
@@ -151,13 +221,32 @@ describe("syncBiji", () => {
     mockFetchNotes.mockReturnValue(mockPages([notes]));
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
     expect(plugin.app.vault.create).toHaveBeenCalledTimes(2);
-    expect(plugin.settings.lastSyncId).toBe("note-002"); // newest = first on first page
+    expect(plugin.settings.profiles[0].lastSyncId).toBe("note-002"); // newest = first on first page
     expect(plugin.saveSettings).toHaveBeenCalled();
   });
 
+  it("should sync an account into its own folder, cursor and biji_account", async () => {
+    const plugin = createMockPlugin();
+    const work = createProfile("work", "Work", { targetFolder: "Work" });
+    plugin.secrets.set("work", { refreshToken: REFRESH_TOKEN });
+    plugin.settings.profiles.push(work);
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => (path === "Work" ? new TFolder("Work") : null),
+    );
+    mockFetchNotes.mockReturnValue(mockPages([[makeBijiNote({ id: "note-007", title: "Plan" })]]));
+
+    await syncBiji(plugin, work, new AbortController().signal);
+
+    const [path, content] = (plugin.app.vault.create as any).mock.calls[0];
+    expect(path).toBe("Work/Plan.md");
+    expect(content).toContain('biji_account: "work"');
+    expect(work.lastSyncId).toBe("note-007");
+    expect(plugin.settings.profiles[0].lastSyncId).toBeNull();
+  });
+
   // ── Dedup: skip already synced notes ───────────────────────────
 
   it("should skip notes already in vault (dedup via biji_id)", async () => {
@@ -171,6 +260,7 @@ describe("syncBiji", () => {
         return null;
       },
     );
+    (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([existingFile]);
     (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
       frontmatter: { biji_id: "note-001" },
     });
@@ -180,204 +270,332 @@ describe("syncBiji", () => {
     );
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
     // Should NOT create any file since note is already synced
     expect(plugin.app.vault.create).not.toHaveBeenCalled();
   });
 
-  // ── Filename conflict: different biji_id at same path ──────────
-
-  it("should resolve filename conflicts with id suffix", async () => {
+  it("should skip a synced note that was renamed and moved elsewhere", async () => {
     const plugin = createMockPlugin();
 
-    const existingFile = new TFile("Get笔记/Same Title.md");
+    const movedFile = new TFile("Archive/My renamed note.md");
     (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
       (path: string) => {
         if (path === "Get笔记") return new TFolder("Get笔记");
-        if (path === "Get笔记/Same Title.md") return existingFile;
+        if (path === "Archive/My renamed note.md") return movedFile;
         return null;
       },
     );
+    (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([movedFile]);
     (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
-      frontmatter: { biji_id: "note-old" },
+      frontmatter: { biji_id: "note-001", updated_at: "2024-01-01T00:00:00Z" },
     });
 
     mockFetchNotes.mockReturnValue(
-      mockPages([[makeBijiNote({ id: "note-new", title: "Same Title" })]]),
+      mockPages([[makeBijiNote({ id: "note-001", title: "Test Note" })]]),
     );
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
-    // Should create with conflict-resolved filename (note-new suffix)
-    expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
-    const createdPath = (plugin.app.vault.create as any).mock.calls[0][0];
-    expect(createdPath).toContain("note-n"); // starts with "note-n" from slice(0,6)
+    expect(plugin.app.vault.create).not.toHaveBeenCalled();
+    expect(plugin.app.vault.modify).not.toHaveBeenCalled();
   });
 
-  // ── Incremental stop condition ─────────────────────────────────
+  it("should rewrite a moved note at its new location", async () => {
+    const plugin = createMockPlugin();
 
-  it("should stop when reaching lastSyncId", async () => {
-    const plugin = createMockPlugin({ lastSyncId: "note-002" });
-    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
-      (path: string) => {
-        if (path === "Get笔记") return new TFolder("Get笔记");
-        return null;
-      },
-    );
+    const movedFile = new TFile("Archive/My renamed note.md");
+    (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([movedFile]);
+    plugin.noteState.set("note-001", { hash: hashContent(stripUserEdits("")) }); // Unedited since the last sync
+    (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+      frontmatter: { biji_id: "note-001", updated_at: "2024-01-01T00:00:00Z" },
+    });
 
-    const notes = [
-      makeBijiNote({ id: "note-003", title: "New Note" }),
-      makeBijiNote({ id: "note-002", title: "Already Synced" }), // This is lastSyncId
-      makeBijiNote({ id: "note-001", title: "Old Note" }),
-    ];
-    mockFetchNotes.mockReturnValue(mockPages([notes]));
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [
+          makeBijiNote({
+            id: "note-001",
+            title: "Test Note",
+            updated_at: "2024-03-01T00:00:00Z",
+          }),
+        ],
+      ]),
+    );
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
-    // Only note-003 should be created (note-002 triggers stop, note-001 skipped)
-    expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
-    expect(plugin.settings.lastSyncId).toBe("note-003");
+    expect(plugin.app.vault.modify).toHaveBeenCalledWith(
+      movedFile,
+      expect.any(String),
+    );
   });
 
-  it("should not fetch more pages after incremental stop", async () => {
-    const plugin = createMockPlugin({ lastSyncId: "note-002" });
+  it("should not create a duplicate when a note appears twice in one run", async () => {
+    const plugin = createMockPlugin();
     (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
       (path: string) => {
         if (path === "Get笔记") return new TFolder("Get笔记");
         return null;
       },
     );
+    (plugin.app.vault.create as any).mockImplementation(
+      async (path: string) => new TFile(path),
+    );
 
-    // Page 1 contains lastSyncId, so page 2 should never be processed
-    const page1 = [
-      makeBijiNote({ id: "note-003", title: "New" }),
-      makeBijiNote({ id: "note-002", title: "Stop Here" }),
-    ];
-    const page2 = [makeBijiNote({ id: "note-001", title: "Should Not Reach" })];
-
-    // Track if page 2 notes get processed
-    let page2Reached = false;
-    mockFetchNotes.mockImplementation(async function* () {
-      yield { notes: page1, isLastPage: false };
-      page2Reached = true;
-      yield { notes: page2, isLastPage: true };
-    });
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [makeBijiNote({ id: "note-001" })],
+        [makeBijiNote({ id: "note-001" })],
+      ]),
+    );
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
-    // page2 generator may or may not be entered depending on implementation,
-    // but note-001 should NOT be created
     expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
   });
 
-  // ── Error isolation: single note error continues ───────────────
+  // ── Remote edits: rewrite in place when remote is newer ───────
 
-  it("should continue on single-note error", async () => {
+  it("should rewrite an existing note when the remote copy is newer", async () => {
     const plugin = createMockPlugin();
+
+    const existingFile = new TFile("Get笔记/Test Note.md");
     (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
       (path: string) => {
         if (path === "Get笔记") return new TFolder("Get笔记");
+        if (path === "Get笔记/Test Note.md") return existingFile;
         return null;
       },
     );
-
-    // Make vault.create fail for the first note
-    let callCount = 0;
-    (plugin.app.vault.create as any).mockImplementation(async () => {
-      callCount++;
-      if (callCount === 1) throw new Error("Disk full");
-      return new TFile();
+    (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([existingFile]);
+    (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+      frontmatter: { biji_id: "note-001", updated_at: "2024-01-01T00:00:00Z" },
     });
+    plugin.noteState.set("note-001", { hash: hashContent(stripUserEdits("")) });
 
-    const notes = [
-      makeBijiNote({ id: "note-002", title: "Will Fail" }),
-      makeBijiNote({ id: "note-001", title: "Will Succeed" }),
-    ];
-    mockFetchNotes.mockReturnValue(mockPages([notes]));
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [
+          makeBijiNote({
+            id: "note-001",
+            title: "Test Note",
+            content: "Edited on mobile",
+            edit_time: "2024-02-01T00:00:00Z",
+          }),
+        ],
+      ]),
+    );
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
-    // Both notes attempted, one succeeded
-    expect(plugin.app.vault.create).toHaveBeenCalledTimes(2);
+    expect(plugin.app.vault.create).not.toHaveBeenCalled();
+    expect(plugin.app.vault.modify).toHaveBeenCalledTimes(1);
+    const [file, content] = (plugin.app.vault.modify as any).mock.calls[0];
+    expect(file).toBe(existingFile);
+    expect(content).toContain("Edited on mobile");
+    expect(content).toContain('updated_at: "2024-02-01T00:00:00Z"');
   });
 
-  // ── Error isolation: AuthFatalError stops sync ─────────────────
-
-  it("should re-throw AuthFatalError immediately", async () => {
+  it("should keep the user section when rewriting an edited note", async () => {
     const plugin = createMockPlugin();
-    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
-      (path: string) => {
-        if (path === "Get笔记") return new TFolder("Get笔记");
-        return null;
-      },
-    );
 
-    // Make vault.create throw AuthFatalError
-    (plugin.app.vault.create as any).mockRejectedValue(
-      new MockAuthFatalError("Auth failed"),
-    );
+    const existingFile = new TFile("Get笔记/Test Note.md");
+    (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([existingFile]);
+    (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+      frontmatter: { biji_id: "note-001", updated_at: "2024-01-01T00:00:00Z" },
+    });
+    const existing = [
+      "---",
+      'biji_id: "note-001"',
+      'updated_at: "2024-01-01T00:00:00Z"',
+      "reviewed: true",
+      "---",
+      "",
+      "Old text",
+      "",
+      USER_SECTION_MARKER,
+      "My annotation",
+      "",
+    ].join("\n");
+    (plugin.app.vault.read as any).mockResolvedValue(existing);
+    plugin.noteState.set("note-001", { hash: hashContent(stripUserEdits(existing)) });
 
     mockFetchNotes.mockReturnValue(
-      mockPages([[makeBijiNote({ id: "note-001" })]]),
+      mockPages([
+        [
+          makeBijiNote({
+            id: "note-001",
+            content: "New text",
+            updated_at: "2024-02-01T00:00:00Z",
+          }),
+        ],
+      ]),
     );
 
     const controller = new AbortController();
-    await expect(syncBiji(plugin, controller.signal)).rejects.toThrow(
-      "Auth failed",
-    );
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    const content = (plugin.app.vault.modify as any).mock.calls[0][1];
+    expect(content).toContain("New text");
+    expect(content).not.toContain("Old text");
+    expect(content).toContain("reviewed: true");
+    expect(content).toContain(`${USER_SECTION_MARKER}\nMy annotation`);
   });
 
-  // ── JWT refresh failure → AuthFatalError ───────────────────────
+  // ── Conflicts: vault copy and remote both changed ──────────────
 
-  it("should throw AuthFatalError when JWT refresh fails", async () => {
-    const plugin = createMockPlugin();
-    mockRefreshJwt.mockRejectedValue(new Error("Network error"));
+  describe("conflicts", () => {
+    const oldNote = makeBijiNote({ id: "note-001", content: "line A\nline B\nline C" });
+    const oldRender = buildMarkdown(bijiNoteToRawNote(oldNote)!);
+    const newNote = makeBijiNote({
+      id: "note-001",
+      content: "line A\nline B\nline C remote",
+      updated_at: "2024-02-01T00:00:00Z",
+    });
 
-    const controller = new AbortController();
-    await expect(syncBiji(plugin, controller.signal)).rejects.toThrow();
-  });
+    function setupConflict(
+      policy: BijiSyncSettings["conflictPolicy"],
+      localContent: string,
+    ) {
+      const plugin = createMockPlugin({ conflictPolicy: policy });
+      const existingFile = new TFile("Get笔记/Test Note.md");
+      (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([existingFile]);
+      (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+        frontmatter: { biji_id: "note-001", updated_at: "2024-01-01T00:00:00Z" },
+      });
+      (plugin.app.vault.read as any).mockResolvedValue(localContent);
+      plugin.noteState.set("note-001", {
+        hash: hashContent(oldRender),
+        base: oldRender,
+      });
+      mockFetchNotes.mockReturnValue(mockPages([[newNote]]));
+      return { plugin, existingFile };
+    }
 
-  // ── Invalid refresh token aborts early ─────────────────────────
+    const locallyEdited = oldRender.replace("line A", "line A local");
 
-  it("should abort if refreshToken is invalid", async () => {
-    const plugin = createMockPlugin({ refreshToken: "" });
-    mockValidateRefreshToken.mockReturnValue(
-      "Please configure refresh token in settings",
-    );
+    it("should overwrite when only the remote changed", async () => {
+      const { plugin } = setupConflict("keep-local", oldRender);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
 
-    const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+      const content = (plugin.app.vault.modify as any).mock.calls[0][1];
+      expect(content).toContain("line C remote");
+    });
 
-    // Should not attempt to fetch notes
-    expect(mockFetchNotes).not.toHaveBeenCalled();
-    expect(mockRefreshJwt).not.toHaveBeenCalled();
-  });
+    it("should ignore edits in the user section when detecting conflicts", async () => {
+      const { plugin } = setupConflict("keep-local", `${oldRender}my annotation\n`);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
 
-  // ── Target folder auto-creation ────────────────────────────────
+      const content = (plugin.app.vault.modify as any).mock.calls[0][1];
+      expect(content).toContain("line C remote");
+      expect(content).toContain("my annotation");
+    });
 
-  it("should create target folder if it does not exist", async () => {
-    const plugin = createMockPlugin();
-    // Return null for folder check (folder doesn't exist)
-    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
-      (path: string) => {
-        return null; // Nothing exists
-      },
-    );
+    it("should rewrite a note without stored state instead of raising a conflict", async () => {
+      const { plugin } = setupConflict("conflict-file", oldRender);
+      plugin.noteState.delete("note-001");
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
 
-    mockFetchNotes.mockReturnValue(mockPages([[]]));
+      expect((plugin.app.vault.modify as any).mock.calls[0][1]).toContain("line C remote");
+      expect(plugin.app.vault.create).not.toHaveBeenCalled();
+    });
 
-    const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    it("should seed the state of a note first seen unchanged", async () => {
+      const { plugin } = setupConflict("conflict-file", oldRender);
+      plugin.noteState.delete("note-001");
+      mockFetchNotes.mockReturnValue(mockPages([[oldNote]]));
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
 
-    expect(plugin.app.vault.createFolder).toHaveBeenCalledWith("Get笔记");
+      expect(plugin.noteState.get("note-001")).toEqual({ hash: hashContent(stripUserEdits(oldRender)) });
+    });
+
+    it("should raise a conflict once per remote revision", async () => {
+      const { plugin } = setupConflict("conflict-file", locallyEdited);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { fullScan: true });
+      mockFetchNotes.mockReturnValue(mockPages([[newNote]]));
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { fullScan: true });
+
+      expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
+      expect(plugin.noteState.get("note-001")?.handledRemote).toBe("2024-02-01T00:00:00Z");
+
+      const newer = { ...newNote, updated_at: "2024-03-01T00:00:00Z", edit_time: "2024-03-01T00:00:00Z" };
+      mockFetchNotes.mockReturnValue(mockPages([[newer]]));
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { fullScan: true });
+
+      expect(plugin.app.vault.create).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep the body of a note written before the user section marker", async () => {
+      const legacy = `${oldRender.slice(0, oldRender.indexOf(USER_SECTION_MARKER))}My annotation\n`;
+      const { plugin } = setupConflict("take-remote", legacy);
+      plugin.noteState.delete("note-001");
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      const content = (plugin.app.vault.modify as any).mock.calls[0][1];
+      expect(content).toContain("line C remote");
+      expect(content.slice(content.indexOf(USER_SECTION_MARKER))).toContain("My annotation");
+    });
+
+    it("keep-local: should leave the vault copy alone", async () => {
+      const { plugin } = setupConflict("keep-local", locallyEdited);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      expect(plugin.app.vault.modify).not.toHaveBeenCalled();
+      expect(plugin.app.vault.create).not.toHaveBeenCalled();
+    });
+
+    it("take-remote: should overwrite the vault copy", async () => {
+      const { plugin } = setupConflict("take-remote", locallyEdited);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      const content = (plugin.app.vault.modify as any).mock.calls[0][1];
+      expect(content).toContain("line C remote");
+      expect(content).not.toContain("line A local");
+    });
+
+    it("conflict-file: should write the remote version to a sibling file", async () => {
+      const { plugin } = setupConflict("conflict-file", locallyEdited);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      expect(plugin.app.vault.modify).not.toHaveBeenCalled();
+      const [path, content] = (plugin.app.vault.create as any).mock.calls[0];
+      expect(path).toBe("Get笔记/Test Note (conflict).md");
+      expect(content).toContain("line C remote");
+      expect(content).toContain('biji_conflict_of: "note-001"');
+      expect(content).not.toContain("biji_id:");
+    });
+
+    it("merge: should combine non-overlapping local and remote edits", async () => {
+      const { plugin } = setupConflict("merge", locallyEdited);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      const content = (plugin.app.vault.modify as any).mock.calls[0][1];
+      expect(content).toContain("line A local");
+      expect(content).toContain("line C remote");
+      expect(content).toContain('updated_at: "2024-02-01T00:00:00Z"');
+    });
+
+    it("merge: should fall back to a conflict file when edits overlap", async () => {
+      const { plugin } = setupConflict(
+        "merge",
+        oldRender.replace("line C", "line C local"),
+      );
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      expect(plugin.app.vault.modify).not.toHaveBeenCalled();
+      expect((plugin.app.vault.create as any).mock.calls[0][0]).toBe(
+        "Get笔记/Test Note (conflict).md",
+      );
+    });
   });
 
-  it("should not create folder if it already exists", async () => {
+  it("should record note state for newly created notes", async () => {
     const plugin = createMockPlugin();
     (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
       (path: string) => {
@@ -385,97 +603,729 @@ describe("syncBiji", () => {
         return null;
       },
     );
+    mockFetchNotes.mockReturnValue(mockPages([[makeBijiNote({ id: "note-001" })]]));
 
-    mockFetchNotes.mockReturnValue(mockPages([[]]));
-
-    const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
 
-    expect(plugin.app.vault.createFolder).not.toHaveBeenCalled();
+    const content = (plugin.app.vault.create as any).mock.calls[0][1];
+    expect(plugin.noteState.get("note-001")).toEqual({
+      hash: hashContent(content),
+      base: undefined,
+    });
   });
 
-  // ── Cursor save semantics ──────────────────────────────────────
-
-  it("should save newestNoteId as lastSyncId (first note of first page)", async () => {
+  it("should not rewrite an existing note when timestamps match", async () => {
     const plugin = createMockPlugin();
+
+    const existingFile = new TFile("Get笔记/Test Note.md");
     (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
       (path: string) => {
         if (path === "Get笔记") return new TFolder("Get笔记");
+        if (path === "Get笔记/Test Note.md") return existingFile;
         return null;
       },
     );
+    (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([existingFile]);
+    (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+      frontmatter: { biji_id: "note-001", updated_at: "2024-01-01T00:00:00Z" },
+    });
 
-    const page1 = [
-      makeBijiNote({ id: "note-100", title: "Newest" }),
-      makeBijiNote({ id: "note-099", title: "Older" }),
-    ];
-    const page2 = [
-      makeBijiNote({ id: "note-098", title: "Even Older" }),
-    ];
-    mockFetchNotes.mockReturnValue(mockPages([page1, page2]));
+    mockFetchNotes.mockReturnValue(
+      mockPages([[makeBijiNote({ id: "note-001", title: "Test Note" })]]),
+    );
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
-    // lastSyncId should be the first note of the first page
-    expect(plugin.settings.lastSyncId).toBe("note-100");
-    expect(plugin.settings.lastSyncTime).toBeTypeOf("number");
-    expect(plugin.saveSettings).toHaveBeenCalled();
+    expect(plugin.app.vault.modify).not.toHaveBeenCalled();
+    expect(plugin.app.vault.create).not.toHaveBeenCalled();
   });
 
-  // ── Link notes fetch original content ──────────────────────────
+  // ── Filename conflict: different biji_id at same path ──────────
 
-  it("should fetch link detail for link-type notes", async () => {
+  it("should resolve filename conflicts with id suffix", async () => {
     const plugin = createMockPlugin();
+
+    const existingFile = new TFile("Get笔记/Same Title.md");
     (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
       (path: string) => {
         if (path === "Get笔记") return new TFolder("Get笔记");
+        if (path === "Get笔记/Same Title.md") return existingFile;
         return null;
       },
     );
-
-    mockFetchLinkDetail.mockResolvedValue("<p>Original article content</p>");
+    (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([existingFile]);
+    (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+      frontmatter: { biji_id: "note-old" },
+    });
 
     mockFetchNotes.mockReturnValue(
-      mockPages([
-        [makeBijiNote({ id: "note-001", note_type: "link", title: "Link Note" })],
-      ]),
+      mockPages([[makeBijiNote({ id: "note-new", title: "Same Title" })]]),
     );
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
-    expect(mockFetchLinkDetail).toHaveBeenCalledWith(
-      "mock-jwt-token",
-      "note-001",
-      expect.any(Function),
-    );
+    // Should create with conflict-resolved filename (note-new suffix)
     expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
-    // Check the markdown contains the cleaned original content in a callout
-    const createdContent = (plugin.app.vault.create as any).mock.calls[0][1];
-    expect(createdContent).toContain("Original article content");
-    expect(createdContent).toContain("[!quote]- 原文");
+    const createdPath = (plugin.app.vault.create as any).mock.calls[0][0];
+    expect(createdPath).toContain("note-n"); // starts with "note-n" from slice(0,6)
   });
 
-  it("should continue if link detail fetch fails", async () => {
+  it("should fall back to the full id when the short id suffix is taken too", async () => {
     const plugin = createMockPlugin();
+    const files = new Map<string, TFile>();
     (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
-      (path: string) => {
-        if (path === "Get笔记") return new TFolder("Get笔记");
-        return null;
-      },
+      (path: string) => (path === "Get笔记" ? new TFolder("Get笔记") : files.get(path) ?? null),
     );
-
-    mockFetchLinkDetail.mockResolvedValue(null);
-
+    (plugin.app.vault.create as any).mockImplementation(async (path: string) => {
+      files.set(path, new TFile(path));
+      return files.get(path);
+    });
     mockFetchNotes.mockReturnValue(
       mockPages([
-        [makeBijiNote({ id: "note-001", note_type: "link", title: "Link Note" })],
+        ["1900001", "1900002", "1900003", "1900004"].map((id) => makeBijiNote({ id, title: "Same" })),
+      ]),
+    );
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect((plugin.app.vault.create as any).mock.calls.map((call: any[]) => call[0])).toEqual([
+      "Get笔记/Same.md",
+      "Get笔记/Same-190000.md",
+      "Get笔记/Same-1900003.md",
+      "Get笔记/Same-1900004.md",
+    ]);
+    expect(errorSpy).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it("should name files with the configured file name template", async () => {
+    const plugin = createMockPlugin({ filenameTemplate: "{{created:YYYY}} {{note_type}} {{title}}" });
+    mockFetchNotes.mockReturnValue(
+      mockPages([[makeBijiNote({ id: "note-001", title: "Named", created_at: "2024-06-15T10:00:00Z" })]]),
+    );
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect((plugin.app.vault.create as any).mock.calls[0][0]).toBe(
+      "Get笔记/2024 plain_text Named.md",
+    );
+  });
+
+  it("should fall back to the id suffix when a template renders to an occupied path", async () => {
+    const plugin = createMockPlugin({ filenameTemplate: "{{note_type}}" });
+    const occupant = new TFile("Get笔记/plain_text.md");
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        if (path === "Get笔记/plain_text.md") return occupant;
+        return null;
+      },
+    );
+    (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([occupant]);
+    (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+      frontmatter: { biji_id: "note-old" },
+    });
+    mockFetchNotes.mockReturnValue(mockPages([[makeBijiNote({ id: "abcdef123" })]]));
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect((plugin.app.vault.create as any).mock.calls[0][0]).toBe(
+      "Get笔记/plain_text-abcdef.md",
+    );
+  });
+
+  it("should abort before fetching if the file name template is invalid", async () => {
+    const plugin = createMockPlugin({ filenameTemplate: "{{content}}" });
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect(mockFetchNotes).not.toHaveBeenCalled();
+  });
+
+  // ── Sync filters ───────────────────────────────────────────────
+
+  it("should skip notes rejected by the sync filter", async () => {
+    const plugin = createMockPlugin({
+      syncFilter: {
+        ...DEFAULT_SYNC_FILTER,
+        excludeNoteTypes: ["plain_text"],
+        createdFrom: "2024-01-01",
+      },
+    });
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [
+          makeBijiNote({ id: "note-003", title: "Link", note_type: "link", created_at: "2024-06-01T12:00:00Z" }),
+          makeBijiNote({ id: "note-002", title: "Scratch", note_type: "plain_text", created_at: "2024-06-01T12:00:00Z" }),
+          makeBijiNote({ id: "note-001", title: "Old link", note_type: "link", created_at: "2023-06-01T12:00:00Z" }),
+        ],
+      ]),
+    );
+    mockFetchLinkDetail.mockResolvedValue(null);
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    const paths = (plugin.app.vault.create as any).mock.calls.map((c: any[]) => c[0]);
+    expect(paths).toEqual(["Get笔记/Link.md"]);
+    // Filtered notes still advance the cursor
+    expect(plugin.settings.profiles[0].lastSyncId).toBe("note-003");
+  });
+
+  // ── Folder routing ─────────────────────────────────────────────
+
+  it("should route new notes by the first matching folder rule", async () => {
+    const plugin = createMockPlugin({
+      folderRules: [
+        { field: "noteType", value: "audio", folder: "Get笔记/Voice" },
+        { field: "created", value: "2024", folder: "Get笔记/{{YYYY}}" },
+      ],
+    });
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [
+          makeBijiNote({ id: "note-002", title: "Voice memo", note_type: "audio" }),
+          makeBijiNote({ id: "note-001", title: "Plain", created_at: "2024-06-15T10:00:00Z" }),
+        ],
+      ]),
+    );
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    const paths = (plugin.app.vault.create as any).mock.calls.map((c: any[]) => c[0]);
+    expect(paths).toEqual(["Get笔记/Voice/Voice memo.md", "Get笔记/2024/Plain.md"]);
+    expect(plugin.app.vault.createFolder).toHaveBeenCalledWith("Get笔记/Voice");
+    expect(plugin.app.vault.createFolder).toHaveBeenCalledWith("Get笔记/2024");
+  });
+
+  it("should route by the folder rules of the synced account only", async () => {
+    const plugin = createMockPlugin({
+      folderRules: [{ field: "noteType", value: "link", folder: "Get笔记/Links" }],
+    });
+    const work = createProfile("work", "Work", { targetFolder: "Work" });
+    plugin.secrets.set("work", { refreshToken: REFRESH_TOKEN });
+    plugin.settings.profiles.push(work);
+    const link = (id: string) => makeBijiNote({ id, title: `Link ${id}`, note_type: "link" });
+
+    mockFetchNotes.mockReturnValue(mockPages([[link("note-001")]]));
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+    mockFetchNotes.mockReturnValue(mockPages([[link("note-002")]]));
+    await syncBiji(plugin, work, new AbortController().signal);
+
+    const paths = (plugin.app.vault.create as any).mock.calls.map((c: any[]) => c[0]);
+    expect(paths).toEqual(["Get笔记/Links/Link note-001.md", "Work/Link note-002.md"]);
+  });
+
+  it("should not re-create a synced note in a newly routed folder", async () => {
+    const plugin = createMockPlugin({
+      folderRules: [{ field: "noteType", value: "", folder: "Get笔记/Sorted" }],
+    });
+    const existing = new TFile("Get笔记/Old place.md");
+    (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([existing]);
+    (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+      frontmatter: { biji_id: "note-001", updated_at: "2024-01-15T10:00:00Z" },
+    });
+    mockFetchNotes.mockReturnValue(
+      mockPages([[makeBijiNote({ id: "note-001", updated_at: "2024-01-15T10:00:00Z" })]]),
+    );
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect(plugin.app.vault.create).not.toHaveBeenCalled();
+  });
+
+  it("should abort before fetching if a folder rule is invalid", async () => {
+    const plugin = createMockPlugin({
+      folderRules: [{ field: "tag", value: "x", folder: "{{nope}}" }],
+    });
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect(mockFetchNotes).not.toHaveBeenCalled();
+  });
+
+  // ── Incremental stop condition ─────────────────────────────────
+
+  it("should stop when reaching lastSyncId", async () => {
+    const plugin = createMockPlugin({ lastSyncId: "note-002" });
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    const notes = [
+      makeBijiNote({ id: "note-003", title: "New Note" }),
+      makeBijiNote({ id: "note-002", title: "Already Synced" }), // This is lastSyncId
+      makeBijiNote({ id: "note-001", title: "Old Note" }),
+    ];
+    mockFetchNotes.mockReturnValue(mockPages([notes]));
+
+    const controller = new AbortController();
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    // Only note-003 should be created (note-002 triggers stop, note-001 skipped)
+    expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
+    expect(plugin.settings.profiles[0].lastSyncId).toBe("note-003");
+  });
+
+  it("should not fetch more pages after incremental stop", async () => {
+    const plugin = createMockPlugin({ lastSyncId: "note-002" });
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    // Page 1 contains lastSyncId, so page 2 should never be processed
+    const page1 = [
+      makeBijiNote({ id: "note-003", title: "New" }),
+      makeBijiNote({ id: "note-002", title: "Stop Here" }),
+    ];
+    const page2 = [makeBijiNote({ id: "note-001", title: "Should Not Reach" })];
+
+    // Track if page 2 notes get processed
+    let page2Reached = false;
+    mockFetchNotes.mockImplementation(async function* () {
+      yield { notes: page1, isLastPage: false };
+      page2Reached = true;
+      yield { notes: page2, isLastPage: true };
+    });
+
+    const controller = new AbortController();
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    // page2 generator may or may not be entered depending on implementation,
+    // but note-001 should NOT be created
+    expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
+  });
+
+  it("should walk past lastSyncId on a full scan", async () => {
+    const plugin = createMockPlugin({ lastSyncId: "note-002" });
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    const notes = [
+      makeBijiNote({ id: "note-003", title: "New Note" }),
+      makeBijiNote({ id: "note-002", title: "Already Synced" }),
+      makeBijiNote({ id: "note-001", title: "Old Note" }),
+    ];
+    mockFetchNotes.mockReturnValue(mockPages([notes]));
+
+    const controller = new AbortController();
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal, { fullScan: true });
+
+    expect(plugin.app.vault.create).toHaveBeenCalledTimes(3);
+    expect(plugin.settings.profiles[0].lastSyncId).toBe("note-003");
+  });
+
+  describe("daily edit check", () => {
+    // note-001 sits below the cursor and was edited in Get笔记 after its import
+    function setupEditBelowCursor(lastFullScan: number | null) {
+      const plugin = createMockPlugin({ lastSyncId: "note-002" });
+      plugin.settings.profiles[0].lastFullScan = lastFullScan;
+      const existingFile = new TFile("Get笔记/Old Note.md");
+      (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([existingFile]);
+      (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+        frontmatter: { biji_id: "note-001", updated_at: "2024-01-01T00:00:00Z" },
+      });
+      plugin.noteState.set("note-001", { hash: hashContent(stripUserEdits("")) });
+      mockFetchNotes.mockReturnValue(
+        mockPages([
+          [
+            makeBijiNote({ id: "note-002", title: "Already Synced" }),
+            makeBijiNote({ id: "note-001", title: "Old Note", content: "Edited later", edit_time: "2024-02-01T00:00:00Z" }),
+          ],
+        ]),
+      );
+      return plugin;
+    }
+
+    it("should let an auto sync pick up an edit below the cursor once a day", async () => {
+      const plugin = setupEditBelowCursor(Date.now() - 25 * 60 * 60 * 1000);
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { silent: true });
+
+      expect((plugin.app.vault.modify as any).mock.calls[0][1]).toContain("Edited later");
+      expect(plugin.settings.profiles[0].lastFullScan).toBeGreaterThan(Date.now() - 60 * 1000);
+    });
+
+    it("should stop at the cursor within a day of the last full scan", async () => {
+      const plugin = setupEditBelowCursor(Date.now() - 60 * 1000);
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { silent: true });
+
+      expect(plugin.app.vault.modify).not.toHaveBeenCalled();
+    });
+
+    it("should leave manual syncs and disabled checks incremental", async () => {
+      const plugin = setupEditBelowCursor(null);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      const disabled = setupEditBelowCursor(null);
+      disabled.settings.checkEditsOnAutoSync = false;
+      await syncBiji(disabled, disabled.settings.profiles[0], new AbortController().signal, { silent: true });
+
+      expect(plugin.app.vault.modify).not.toHaveBeenCalled();
+      expect(disabled.app.vault.modify).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Remote deletions ───────────────────────────────────────────
+
+  describe("remote deletions", () => {
+    function setupDeletion(settings: Partial<BijiSyncSettings>) {
+      const plugin = createMockPlugin({ deletionPolicy: "tag", ...settings });
+      const kept = new TFile("Get笔记/Kept.md");
+      const gone = new TFile("Get笔记/Gone.md");
+      (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([kept, gone]);
+      (plugin.app.metadataCache.getFileCache as any).mockImplementation(
+        (file: TFile) => ({
+          frontmatter: {
+            biji_id: file === kept ? "note-001" : "note-gone",
+            updated_at: "2024-01-01T00:00:00Z",
+          },
+        }),
+      );
+      mockFetchNotes.mockReturnValue(
+        mockPages([[makeBijiNote({ id: "note-001" })]]),
+      );
+      return { plugin, gone };
+    }
+
+    it("should apply the deletion policy after a full scan", async () => {
+      const { plugin, gone } = setupDeletion({});
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { fullScan: true });
+
+      expect(plugin.app.fileManager.processFrontMatter).toHaveBeenCalledTimes(1);
+      expect((plugin.app.fileManager.processFrontMatter as any).mock.calls[0][0]).toBe(gone);
+      expect(plugin.settings.profiles[0].lastDeletionCheck).toBeTypeOf("number");
+    });
+
+    it("should not treat filtered-out notes as deleted", async () => {
+      const { plugin } = setupDeletion({
+        syncFilter: { ...DEFAULT_SYNC_FILTER, excludeNoteTypes: ["plain_text"] },
+      });
+      mockFetchNotes.mockReturnValue(
+        mockPages([[makeBijiNote({ id: "note-001" }), makeBijiNote({ id: "note-gone" })]]),
+      );
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { fullScan: true });
+
+      expect(plugin.app.fileManager.processFrontMatter).not.toHaveBeenCalled();
+    });
+
+    it("should not reconcile on an incremental sync", async () => {
+      const { plugin } = setupDeletion({});
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      expect(plugin.app.fileManager.processFrontMatter).not.toHaveBeenCalled();
+    });
+
+    it("should not reconcile when the full scan was cancelled", async () => {
+      const { plugin } = setupDeletion({});
+      const controller = new AbortController();
+      mockFetchNotes.mockImplementation(async function* () {
+        controller.abort();
+        yield { notes: [makeBijiNote({ id: "note-001" })], isLastPage: true };
+      });
+      await syncBiji(plugin, plugin.settings.profiles[0], controller.signal, { fullScan: true });
+
+      expect(plugin.app.fileManager.processFrontMatter).not.toHaveBeenCalled();
+    });
+
+    it("should never reconcile in silent mode without the opt-in", async () => {
+      const { plugin } = setupDeletion({});
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, {
+        silent: true,
+        fullScan: true,
+      });
+
+      expect(plugin.app.fileManager.processFrontMatter).not.toHaveBeenCalled();
+    });
+
+    it("should upgrade an opted-in auto sync to a full scan when a check is due", async () => {
+      const { plugin } = setupDeletion({
+        lastSyncId: "note-001",
+        reconcileDeletionsOnAutoSync: true,
+        lastDeletionCheck: null,
+      });
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { silent: true });
+
+      expect(plugin.app.fileManager.processFrontMatter).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not run the opted-in check again within a day", async () => {
+      const { plugin } = setupDeletion({
+        lastSyncId: "note-001",
+        reconcileDeletionsOnAutoSync: true,
+        lastDeletionCheck: Date.now() - 60 * 1000,
+        checkEditsOnAutoSync: false,
+      });
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { silent: true });
+
+      expect(plugin.app.fileManager.processFrontMatter).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Error isolation: single note error continues ───────────────
+
+  it("should continue on single-note error", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    // Make vault.create fail for the first note
+    let callCount = 0;
+    (plugin.app.vault.create as any).mockImplementation(async () => {
+      callCount++;
+      if (callCount === 1) throw new Error("Disk full");
+      return new TFile();
+    });
+
+    const notes = [
+      makeBijiNote({ id: "note-002", title: "Will Fail" }),
+      makeBijiNote({ id: "note-001", title: "Will Succeed" }),
+    ];
+    mockFetchNotes.mockReturnValue(mockPages([notes]));
+
+    const controller = new AbortController();
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    // Both notes attempted, one succeeded
+    expect(plugin.app.vault.create).toHaveBeenCalledTimes(2);
+  });
+
+  // ── Error isolation: AuthFatalError stops sync ─────────────────
+
+  it("should re-throw AuthFatalError immediately", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    // Make vault.create throw AuthFatalError
+    (plugin.app.vault.create as any).mockRejectedValue(
+      new MockAuthFatalError("Auth failed"),
+    );
+
+    mockFetchNotes.mockReturnValue(
+      mockPages([[makeBijiNote({ id: "note-001" })]]),
+    );
+
+    const controller = new AbortController();
+    await expect(syncBiji(plugin, plugin.settings.profiles[0], controller.signal)).rejects.toThrow(
+      "Auth failed",
+    );
+  });
+
+  // ── JWT refresh failure → AuthFatalError ───────────────────────
+
+  it("should throw AuthFatalError when JWT refresh fails", async () => {
+    const plugin = createMockPlugin();
+    mockRefreshJwt.mockRejectedValue(new Error("Network error"));
+
+    const controller = new AbortController();
+    await expect(syncBiji(plugin, plugin.settings.profiles[0], controller.signal)).rejects.toThrow();
+  });
+
+  // ── Invalid refresh token aborts early ─────────────────────────
+
+  it("should abort if refreshToken is invalid", async () => {
+    const plugin = createMockPlugin({ refreshToken: "" });
+    mockValidateRefreshToken.mockReturnValue(
+      "Please configure refresh token in settings",
+    );
+
+    const controller = new AbortController();
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    // Should not attempt to fetch notes
+    expect(mockFetchNotes).not.toHaveBeenCalled();
+    expect(mockRefreshJwt).not.toHaveBeenCalled();
+  });
+
+  it("should abort while encrypted tokens are locked", async () => {
+    const plugin = createMockPlugin();
+    const adapter = createMemoryAdapter();
+    const encrypted = new SecretStore(adapter as any, "secrets.json");
+    encrypted.set(DEFAULT_PROFILE_ID, { refreshToken: REFRESH_TOKEN });
+    await encrypted.setPassphrase("correct horse");
+    plugin.secrets = new SecretStore(adapter as any, "secrets.json");
+    await plugin.secrets.load();
+    const run = startSyncRun("manual", DEFAULT_PROFILE_ID);
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { run });
+
+    expect(mockFetchNotes).not.toHaveBeenCalled();
+    expect(run).toMatchObject({ status: "failed", message: expect.stringContaining("unlock") });
+  });
+
+  // ── Note template ──────────────────────────────────────────────
+
+  it("should abort before fetching if the note template is invalid", async () => {
+    const plugin = createMockPlugin({ noteTemplate: "{{#if title}}never closed" });
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect(mockRefreshJwt).not.toHaveBeenCalled();
+    expect(mockFetchNotes).not.toHaveBeenCalled();
+  });
+
+  it("should render notes with the configured template", async () => {
+    const plugin = createMockPlugin({ noteTemplate: "## {{title}} ({{note_type}})\n\n{{content}}" });
+    mockFetchNotes.mockReturnValue(
+      mockPages([[makeBijiNote({ id: "note-001", title: "Custom" })]]),
+    );
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    const content = (plugin.app.vault.create as any).mock.calls[0][1];
+    expect(content).toContain("## Custom (plain_text)\n\n");
+    expect(content).not.toContain("# Custom\n");
+    expect(content).toContain('biji_id: "note-001"');
+    expect(content.trimEnd().endsWith(USER_SECTION_MARKER)).toBe(true);
+  });
+
+  // ── Target folder auto-creation ────────────────────────────────
+
+  it("should create target folder if it does not exist", async () => {
+    const plugin = createMockPlugin();
+    // Return null for folder check (folder doesn't exist)
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        return null; // Nothing exists
+      },
+    );
+
+    mockFetchNotes.mockReturnValue(mockPages([[]]));
+
+    const controller = new AbortController();
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    expect(plugin.app.vault.createFolder).toHaveBeenCalledWith("Get笔记");
+  });
+
+  it("should not create folder if it already exists", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    mockFetchNotes.mockReturnValue(mockPages([[]]));
+
+    const controller = new AbortController();
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    expect(plugin.app.vault.createFolder).not.toHaveBeenCalled();
+  });
+
+  // ── Cursor save semantics ──────────────────────────────────────
+
+  it("should save newestNoteId as lastSyncId (first note of first page)", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    const page1 = [
+      makeBijiNote({ id: "note-100", title: "Newest" }),
+      makeBijiNote({ id: "note-099", title: "Older" }),
+    ];
+    const page2 = [
+      makeBijiNote({ id: "note-098", title: "Even Older" }),
+    ];
+    mockFetchNotes.mockReturnValue(mockPages([page1, page2]));
+
+    const controller = new AbortController();
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    // lastSyncId should be the first note of the first page
+    expect(plugin.settings.profiles[0].lastSyncId).toBe("note-100");
+    expect(plugin.settings.profiles[0].lastSyncTime).toBeTypeOf("number");
+    expect(plugin.saveSettings).toHaveBeenCalled();
+  });
+
+  // ── Link notes fetch original content ──────────────────────────
+
+  it("should fetch link detail for link-type notes", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    mockFetchLinkDetail.mockResolvedValue("<p>Original article content</p>");
+
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [makeBijiNote({ id: "note-001", note_type: "link", title: "Link Note" })],
+      ]),
+    );
+
+    const controller = new AbortController();
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    expect(mockFetchLinkDetail).toHaveBeenCalledWith(
+      plugin.transport,
+      "mock-jwt-token",
+      "note-001",
+      expect.any(Function),
+    );
+    expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
+    // Check the markdown contains the cleaned original content in a callout
+    const createdContent = (plugin.app.vault.create as any).mock.calls[0][1];
+    expect(createdContent).toContain("Original article content");
+    expect(createdContent).toContain("[!quote]- 原文");
+  });
+
+  it("should continue if link detail fetch fails", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    mockFetchLinkDetail.mockResolvedValue(null);
+
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [makeBijiNote({ id: "note-001", note_type: "link", title: "Link Note" })],
       ]),
     );
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
     // Should still create the file even without original content
     expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
@@ -484,6 +1334,183 @@ describe("syncBiji", () => {
     expect(createdContent).not.toContain("[!quote]- 原文");
   });
 
+  it("should mark link notes written without their original for backfill", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => (path === "Get笔记" ? new TFolder("Get笔记") : null),
+    );
+    mockFetchLinkDetail.mockResolvedValue(null);
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [
+          makeBijiNote({ id: "note-002", note_type: "link", title: "Pending" }),
+          makeBijiNote({ id: "note-001", title: "Plain" }),
+        ],
+      ]),
+    );
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect(plugin.noteState.get("note-002")?.missingOriginal).toBe(true);
+    expect(plugin.noteState.get("note-001")?.missingOriginal).toBeUndefined();
+  });
+
+  it("should not mark link notes when the template has no original", async () => {
+    const plugin = createMockPlugin({ noteTemplate: "# {{title}}\n\n{{content}}\n" });
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => (path === "Get笔记" ? new TFolder("Get笔记") : null),
+    );
+    mockFetchLinkDetail.mockResolvedValue(null);
+    mockFetchNotes.mockReturnValue(
+      mockPages([[makeBijiNote({ note_type: "link", title: "Pending" })]]),
+    );
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect(plugin.noteState.get("note-001")?.missingOriginal).toBeUndefined();
+  });
+
+  /** A link note imported before its original was ready, rendered with `template`. */
+  async function pendingLinkNote(template?: string) {
+    const file = new TFile("Get笔记/Pending.md");
+    const plugin = createMockPlugin({ lastSyncId: "note-000", ...(template ? { noteTemplate: template } : {}) });
+    await plugin.noteState.load();
+    const note = makeBijiNote({ id: "note-002", note_type: "link", title: "Pending" });
+    const rawNote = { ...bijiNoteToRawNote(note)!, account: DEFAULT_PROFILE_ID };
+    const content = buildMarkdown(rawNote, template);
+    plugin.noteState.set("note-002", { hash: hashContent(content), missingOriginal: true });
+    (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([file]);
+    (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+      frontmatter: { biji_id: "note-002" },
+    });
+    (plugin.app.vault.read as any).mockResolvedValue(`${content}My thoughts\n`);
+    mockFetchNote.mockResolvedValue(note);
+    mockFetchLinkDetail.mockResolvedValue("<p>Now available</p>");
+    return { plugin, rawNote };
+  }
+
+  it("should only fill in originals in an originals-only run", async () => {
+    const { plugin, rawNote } = await pendingLinkNote();
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { originalsOnly: true });
+
+    expect(mockFetchNotes).not.toHaveBeenCalled();
+    expect((plugin.app.vault.modify as any).mock.calls[0][1]).toBe(
+      `${buildMarkdown({ ...rawNote, originalContent: "Now available" })}My thoughts\n`,
+    );
+    expect(plugin.noteState.get("note-002")?.missingOriginal).toBeUndefined();
+    expect(plugin.settings.profiles[0].lastSyncId).toBe("note-000");
+  });
+
+  it("should fill in originals where a custom note template puts them", async () => {
+    const template = "{{#if original_content}}## Article\n\n{{original_content}}\n\n{{/if}}# {{title}}\n";
+    const { plugin } = await pendingLinkNote(template);
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { originalsOnly: true });
+
+    const written = (plugin.app.vault.modify as any).mock.calls[0][1];
+    expect(written).toContain("## Article\n\nNow available\n\n# Pending\n");
+    expect(written).not.toContain("[!quote]- 原文");
+  });
+
+  it("should add the original to an edited note without a conflict copy", async () => {
+    const { plugin } = await pendingLinkNote();
+    const edited = (await plugin.app.vault.read(new TFile("x"))).replace("# Pending", "# Pending, edited");
+    (plugin.app.vault.read as any).mockResolvedValue(edited);
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { originalsOnly: true });
+
+    const written = (plugin.app.vault.modify as any).mock.calls[0][1];
+    expect(written).toContain("# Pending, edited");
+    expect(written).toContain("> Now available");
+    expect(plugin.app.vault.create).not.toHaveBeenCalled();
+    expect(plugin.noteState.get("note-002")?.missingOriginal).toBeUndefined();
+  });
+
+  // ── Attachments ────────────────────────────────────────────────
+
+  it("should download media attachments and embed them", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+    mockDownloadAttachment.mockResolvedValue({ data: new ArrayBuffer(4) });
+
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [
+          makeBijiNote({
+            id: "note-001",
+            attachments: [
+              { type: "image", url: "https://cdn.example.com/p.png", title: "photo" },
+            ],
+          }),
+        ],
+      ]),
+    );
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect(plugin.app.vault.createBinary).toHaveBeenCalledTimes(1);
+    const [attachmentFile] = (plugin.app.vault.createBinary as any).mock.calls[0];
+    expect(attachmentFile).toMatch(/^Get笔记\/attachments\/photo-[0-9a-f]{16}\.png$/);
+    const content = (plugin.app.vault.create as any).mock.calls[0][1];
+    expect(content).toContain(`![[${attachmentFile}]]`);
+  });
+
+  it("should still write the note when an attachment fails", async () => {
+    const plugin = createMockPlugin({ attachmentFolder: "Files" });
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+    mockDownloadAttachment.mockResolvedValue({ skipped: "download failed, status 403" });
+
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [
+          makeBijiNote({
+            id: "note-001",
+            attachments: [
+              { type: "audio", url: "https://cdn.example.com/v.mp3", title: "voice" },
+            ],
+          }),
+        ],
+      ]),
+    );
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
+    const content = (plugin.app.vault.create as any).mock.calls[0][1];
+    expect(content).not.toContain("![[");
+  });
+
+  it("should not download attachments when disabled", async () => {
+    const plugin = createMockPlugin({ downloadAttachments: false });
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [
+          makeBijiNote({
+            id: "note-001",
+            attachments: [
+              { type: "image", url: "https://cdn.example.com/p.png", title: "photo" },
+            ],
+          }),
+        ],
+      ]),
+    );
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+    expect(mockDownloadAttachment).not.toHaveBeenCalled();
+  });
+
   // ── Abort signal ───────────────────────────────────────────────
 
   it("should stop when abort signal is triggered", async () => {
@@ -509,7 +1536,7 @@ describe("syncBiji", () => {
     ];
     mockFetchNotes.mockReturnValue(mockPages([notes]));
 
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
     // Only the first note should be created (abort happens during its creation)
     expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
@@ -517,6 +1544,141 @@ describe("syncBiji", () => {
     expect(plugin.saveSettings).toHaveBeenCalled();
   });
 
+  // ── Resumable checkpoint ───────────────────────────────────────
+
+  it("should not promote lastSyncId when cancelled and should save a checkpoint", async () => {
+    const plugin = createMockPlugin({ lastSyncId: "note-001" });
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    const controller = new AbortController();
+    (plugin.app.vault.create as any).mockImplementation(async () => {
+      controller.abort();
+      return new TFile();
+    });
+
+    const notes = [
+      makeBijiNote({ id: "note-003", title: "Newest" }),
+      makeBijiNote({ id: "note-002", title: "Not Reached" }),
+      makeBijiNote({ id: "note-001", title: "Previously Synced" }),
+    ];
+    mockFetchNotes.mockReturnValue(mockPages([notes]));
+
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    expect(plugin.settings.profiles[0].lastSyncId).toBe("note-001");
+    expect(plugin.settings.profiles[0].syncCheckpoint).toEqual({
+      targetId: "note-003",
+      sinceId: "note-003",
+      stopId: "note-001",
+    });
+  });
+
+  it("should resume from the checkpoint and promote lastSyncId once the gap closes", async () => {
+    const plugin = createMockPlugin({
+      lastSyncId: "note-001",
+      syncCheckpoint: {
+        targetId: "note-003",
+        sinceId: "note-003",
+        stopId: "note-001",
+      },
+    });
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [
+          makeBijiNote({ id: "note-002", title: "Resumed" }),
+          makeBijiNote({ id: "note-001", title: "Previously Synced" }),
+        ],
+      ]),
+    );
+
+    const controller = new AbortController();
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
+
+    // Paging resumes below the checkpoint
+    expect(mockFetchNotes.mock.calls[0][4]).toBe("note-003");
+    expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
+    expect(plugin.settings.profiles[0].lastSyncId).toBe("note-003");
+    expect(plugin.settings.profiles[0].syncCheckpoint).toBeNull();
+  });
+
+  it("should save a checkpoint when the sync fails mid-run", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    mockFetchNotes.mockImplementation(async function* () {
+      yield {
+        notes: [
+          makeBijiNote({ id: "note-004", title: "A" }),
+          makeBijiNote({ id: "note-003", title: "B" }),
+        ],
+        isLastPage: false,
+      };
+      throw new Error("Network error");
+    });
+
+    const controller = new AbortController();
+    await expect(syncBiji(plugin, plugin.settings.profiles[0], controller.signal)).rejects.toThrow(
+      "Network error",
+    );
+
+    expect(plugin.settings.profiles[0].lastSyncId).toBeNull();
+    expect(plugin.settings.profiles[0].syncCheckpoint).toEqual({
+      targetId: "note-004",
+      sinceId: "note-003",
+      stopId: null,
+    });
+  });
+
+  it("should not advance the checkpoint past a note that hit AuthFatalError", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => {
+        if (path === "Get笔记") return new TFolder("Get笔记");
+        return null;
+      },
+    );
+
+    let callCount = 0;
+    (plugin.app.vault.create as any).mockImplementation(async () => {
+      callCount++;
+      if (callCount === 2) throw new MockAuthFatalError("Auth failed");
+      return new TFile();
+    });
+
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [
+          makeBijiNote({ id: "note-002", title: "Written" }),
+          makeBijiNote({ id: "note-001", title: "Auth Failure" }),
+        ],
+      ]),
+    );
+
+    const controller = new AbortController();
+    await expect(syncBiji(plugin, plugin.settings.profiles[0], controller.signal)).rejects.toThrow(
+      "Auth failed",
+    );
+
+    expect(plugin.settings.profiles[0].syncCheckpoint?.sinceId).toBe("note-002");
+  });
+
   // ── Notes with missing id are skipped ──────────────────────────
 
   it("should skip notes with missing id", async () => {
@@ -535,7 +1697,7 @@ describe("syncBiji", () => {
     mockFetchNotes.mockReturnValue(mockPages([notes]));
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal);
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal);
 
     // Only the note with valid id should be created
     expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
@@ -544,12 +1706,6 @@ describe("syncBiji", () => {
   // ── Silent mode (syncBiji level) ──────────────────────────────
 
   it("should suppress all Notices in silent mode", async () => {
-    const NoticeSpy = vi.spyOn(Notice.prototype, "constructor" as any);
-    // Track Notice instantiation via the mock class
-    const noticeInstances: string[] = [];
-    const OrigNotice = Notice;
-    vi.stubGlobal("__noticeMessages", noticeInstances);
-
     const plugin = createMockPlugin();
     (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
       (path: string) => {
@@ -562,13 +1718,11 @@ describe("syncBiji", () => {
     mockFetchNotes.mockReturnValue(mockPages([notes]));
 
     const controller = new AbortController();
-    await syncBiji(plugin, controller.signal, { silent: true });
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal, { silent: true });
 
-    // Since our obsidian mock's Notice doesn't track calls,
-    // verify indirectly: syncBiji completed without throwing
     expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
     expect(plugin.saveSettings).toHaveBeenCalled();
-    NoticeSpy.mockRestore();
+    expect(plugin.notify).not.toHaveBeenCalled();
   });
 
   it("should suppress token validation Notice in silent mode", async () => {
@@ -579,9 +1733,331 @@ describe("syncBiji", () => {
 
     // In silent mode, syncBiji should return without throwing
     // even when token validation fails
-    await syncBiji(plugin, controller.signal, { silent: true });
+    await syncBiji(plugin, plugin.settings.profiles[0], controller.signal, { silent: true });
 
     // Should not attempt to fetch notes
     expect(mockFetchNotes).not.toHaveBeenCalled();
+    expect(plugin.notify).not.toHaveBeenCalled();
+  });
+
+  // ── Run record ──────────────────────────────────────────────────
+
+  describe("run record", () => {
+    it("should report counts, per-note errors and completion", async () => {
+      const plugin = createMockPlugin();
+      (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+        (path: string) => (path === "Get笔记" ? new TFolder("Get笔记") : null),
+      );
+      (plugin.app.vault.create as any)
+        .mockRejectedValueOnce(new Error("Disk full"))
+        .mockResolvedValue(new TFile());
+      mockFetchNotes.mockReturnValue(
+        mockPages([[makeBijiNote({ id: "note-002", title: "Will Fail" }), makeBijiNote()]]),
+      );
+
+      const run = startSyncRun("manual", DEFAULT_PROFILE_ID);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { run });
+
+      expect(run).toMatchObject({ status: "complete", created: 1, skipped: 0, fullScan: false });
+      expect(run.errors).toEqual([{ noteId: "note-002", title: "Will Fail", message: "Disk full" }]);
+    });
+
+    it("should mark the run cancelled when aborted", async () => {
+      const plugin = createMockPlugin();
+      mockFetchNotes.mockReturnValue(mockPages([[makeBijiNote()]]));
+      const controller = new AbortController();
+      controller.abort();
+
+      const run = startSyncRun("manual", DEFAULT_PROFILE_ID);
+      await syncBiji(plugin, plugin.settings.profiles[0], controller.signal, { run });
+
+      expect(run.status).toBe("cancelled");
+    });
+
+    it("should mark the run failed when it cannot start", async () => {
+      mockValidateRefreshToken.mockReturnValueOnce("Token is empty");
+      const plugin = createMockPlugin({ refreshToken: "" });
+
+      const run = startSyncRun("auto", DEFAULT_PROFILE_ID);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { silent: true, run });
+
+      expect(run).toMatchObject({ status: "failed", message: "Token is empty" });
+    });
+  });
+
+  // ── Progress ────────────────────────────────────────────────────
+
+  it("should report progress before every note", async () => {
+    const plugin = createMockPlugin();
+    (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+      (path: string) => (path === "Get笔记" ? new TFolder("Get笔记") : null),
+    );
+    mockFetchLinkDetail.mockResolvedValue(null);
+    mockFetchNotes.mockReturnValue(
+      mockPages([
+        [makeBijiNote({ id: "note-003", note_type: "link" }), makeBijiNote({ id: "note-002" })],
+        [makeBijiNote({ id: "note-001" })],
+      ]),
+    );
+    const onProgress = vi.fn();
+
+    await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { onProgress });
+
+    expect(onProgress.mock.calls.map(([p]) => p)).toEqual([
+      { phase: "pages", processed: 0, pages: 1, remaining: 2, linkDetailsPending: 1, morePages: true },
+      { phase: "pages", processed: 1, pages: 1, remaining: 1, linkDetailsPending: 0, morePages: true },
+      { phase: "pages", processed: 2, pages: 2, remaining: 1, linkDetailsPending: 0, morePages: false },
+    ]);
+  });
+
+  // ── Retry queue ─────────────────────────────────────────────────
+
+  describe("retry queue", () => {
+    const queued = (overrides: Partial<RetryEntry> = {}): RetryEntry => ({
+      noteId: "note-009",
+      title: "Failed before",
+      attempts: 1,
+      lastError: "Disk full",
+      nextRetryAt: 0,
+      ...overrides,
+    });
+
+    function createPluginWithoutFiles(settings: Partial<BijiSyncSettings> = {}) {
+      const plugin = createMockPlugin(settings);
+      (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+        (path: string) => (path === "Get笔记" ? new TFolder("Get笔记") : null),
+      );
+      return plugin;
+    }
+
+    it("should queue a note that fails", async () => {
+      const plugin = createPluginWithoutFiles();
+      (plugin.app.vault.create as any).mockRejectedValueOnce(new Error("Disk full"));
+      mockFetchNotes.mockReturnValue(mockPages([[makeBijiNote({ title: "Will Fail" })]]));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      expect(plugin.settings.profiles[0].retryQueue).toEqual([
+        expect.objectContaining({ noteId: "note-001", title: "Will Fail", attempts: 1, lastError: "Disk full" }),
+      ]);
+      expect(plugin.settings.profiles[0].retryQueue[0].nextRetryAt).toBeGreaterThan(Date.now());
+    });
+
+    it("should fetch due entries one by one before paging and dequeue them", async () => {
+      const plugin = createPluginWithoutFiles({ retryQueue: [queued()] });
+      mockFetchNote.mockResolvedValue(makeBijiNote({ id: "note-009", title: "Failed before" }));
+      mockFetchNotes.mockReturnValue(mockPages([[]]));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      expect(mockFetchNote).toHaveBeenCalledWith(plugin.transport, "mock-jwt-token", "note-009", expect.any(Function));
+      expect((plugin.app.vault.create as any).mock.calls[0][0]).toBe("Get笔记/Failed before.md");
+      expect(plugin.settings.profiles[0].retryQueue).toEqual([]);
+    });
+
+    it("should leave entries that are not due yet or given up on", async () => {
+      const plugin = createPluginWithoutFiles({
+        maxRetryAttempts: 3,
+        retryQueue: [
+          queued({ noteId: "later", nextRetryAt: Date.now() + 60_000 }),
+          queued({ noteId: "given-up", attempts: 3 }),
+        ],
+      });
+      mockFetchNotes.mockReturnValue(mockPages([[]]));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      expect(mockFetchNote).not.toHaveBeenCalled();
+      expect(plugin.settings.profiles[0].retryQueue).toHaveLength(2);
+    });
+
+    it("should count another failed attempt", async () => {
+      const plugin = createPluginWithoutFiles({ maxRetryAttempts: 2, retryQueue: [queued()] });
+      mockFetchNote.mockResolvedValue(makeBijiNote({ id: "note-009" }));
+      (plugin.app.vault.create as any).mockRejectedValueOnce(new Error("Disk full again"));
+      mockFetchNotes.mockReturnValue(mockPages([[]]));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { silent: true });
+
+      expect(plugin.settings.profiles[0].retryQueue).toEqual([
+        expect.objectContaining({ noteId: "note-009", attempts: 2, lastError: "Disk full again" }),
+      ]);
+    });
+
+    it("should look past the cursor for notes fetchNote cannot return", async () => {
+      const plugin = createPluginWithoutFiles({ lastSyncId: "note-005", retryQueue: [queued()] });
+      mockFetchNote.mockRejectedValue(new Error("Request failed, status 404"));
+      mockFetchNotes.mockReturnValue(
+        mockPages([
+          [makeBijiNote({ id: "note-006", title: "New" }), makeBijiNote({ id: "note-005", title: "Synced" })],
+          [makeBijiNote({ id: "note-009", title: "Failed before" }), makeBijiNote({ id: "note-004", title: "Older" })],
+        ]),
+      );
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      const created = (plugin.app.vault.create as any).mock.calls.map((call: any[]) => call[0]);
+      expect(created).toContain("Get笔记/Failed before.md");
+      // The walk stops again once the note is found
+      expect(created).not.toContain("Get笔记/Older.md");
+      expect(plugin.settings.profiles[0].retryQueue).toEqual([]);
+      expect(plugin.settings.profiles[0].lastSyncId).toBe("note-006");
+    });
+
+    it("should count a failed attempt when the walk could not look everywhere", async () => {
+      const plugin = createPluginWithoutFiles({
+        retryQueue: [queued()],
+        syncCheckpoint: { targetId: "note-008", sinceId: "note-007", stopId: null },
+      });
+      mockFetchNote.mockRejectedValue(new Error("Server error"));
+      mockFetchNotes.mockReturnValue(mockPages([[]]));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      expect(plugin.settings.profiles[0].retryQueue).toEqual([
+        expect.objectContaining({ noteId: "note-009", attempts: 2, lastError: "Server error" }),
+      ]);
+    });
+
+    it("should drop entries for notes deleted in Get笔记", async () => {
+      const plugin = createPluginWithoutFiles({ retryQueue: [queued()] });
+      mockFetchNote.mockResolvedValue(null);
+      mockFetchNotes.mockReturnValue(mockPages([[]]));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal);
+
+      expect(plugin.settings.profiles[0].retryQueue).toEqual([]);
+      expect(plugin.app.vault.create).not.toHaveBeenCalled();
+    });
+
+    it("should not process a retried note again during the page walk", async () => {
+      const plugin = createPluginWithoutFiles({ retryQueue: [queued({ noteId: "note-001" })] });
+      mockFetchNote.mockResolvedValue(makeBijiNote());
+      mockFetchNotes.mockReturnValue(mockPages([[makeBijiNote()]]));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { fullScan: true });
+
+      expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("should only process the requested notes and leave the cursor alone", async () => {
+      const plugin = createPluginWithoutFiles({ lastSyncId: "note-000" });
+      mockFetchNote.mockResolvedValue(makeBijiNote({ id: "note-002", title: "Failed" }));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { noteIds: ["note-002"] });
+
+      expect(mockFetchNotes).not.toHaveBeenCalled();
+      expect((plugin.app.vault.create as any).mock.calls[0][0]).toBe("Get笔记/Failed.md");
+      expect(plugin.settings.profiles[0].lastSyncId).toBe("note-000");
+      expect(plugin.settings.profiles[0].syncCheckpoint).toBeNull();
+    });
+
+    it("should walk the pages for requested notes fetchNote cannot return", async () => {
+      const plugin = createPluginWithoutFiles({ lastSyncId: "note-000", retryQueue: [queued()] });
+      mockFetchNote.mockResolvedValue(null);
+      mockFetchNotes.mockReturnValue(
+        mockPages([[makeBijiNote({ id: "note-010", title: "Other" }), makeBijiNote({ id: "note-009", title: "Failed before" })]]),
+      );
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { noteIds: ["note-009"] });
+
+      expect(mockFetchNotes.mock.calls[0][4]).toBeUndefined();
+      expect((plugin.app.vault.create as any).mock.calls.map((call: any[]) => call[0])).toEqual([
+        "Get笔记/Failed before.md",
+      ]);
+      expect(plugin.settings.profiles[0].retryQueue).toEqual([]);
+      expect(plugin.settings.profiles[0].lastSyncId).toBe("note-000");
+    });
+
+    it("should retry requested notes even when given up on", async () => {
+      const plugin = createPluginWithoutFiles({
+        maxRetryAttempts: 2,
+        retryQueue: [queued({ attempts: 2 })],
+      });
+      mockFetchNote.mockResolvedValue(makeBijiNote({ id: "note-009" }));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { noteIds: ["note-009"] });
+
+      expect(plugin.app.vault.create).toHaveBeenCalledTimes(1);
+      expect(plugin.settings.profiles[0].retryQueue).toEqual([]);
+    });
+
+    it("should never reconcile deletions in a retry run", async () => {
+      const plugin = createMockPlugin({ deletionPolicy: "trash" });
+      const orphan = new TFile("Get笔记/Gone.md");
+      (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([orphan]);
+      (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+        frontmatter: { biji_id: "note-gone" },
+      });
+      mockFetchNote.mockResolvedValue(makeBijiNote({ id: "note-002" }));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { noteIds: ["note-002"] });
+
+      expect(plugin.app.vault.trash).not.toHaveBeenCalled();
+    });
+
+    it("should leave the queue alone in a dry run", async () => {
+      const plugin = createPluginWithoutFiles({ retryQueue: [queued()] });
+      mockFetchNote.mockRejectedValue(new Error("Server error"));
+      mockFetchNotes.mockReturnValue(mockPages([[]]));
+
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, {
+        writer: new VaultWriter(plugin.vault, true),
+      });
+
+      expect(plugin.settings.profiles[0].retryQueue).toEqual([queued()]);
+    });
+  });
+
+  // ── Dry run ─────────────────────────────────────────────────────
+
+  describe("dry run", () => {
+    it("should plan creates without writing files, state or settings", async () => {
+      const plugin = createMockPlugin({ lastSyncId: null });
+      (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+        (path: string) => (path === "Get笔记" ? new TFolder("Get笔记") : null),
+      );
+      mockFetchNotes.mockReturnValue(
+        mockPages([[makeBijiNote({ id: "note-002", title: "Second" }), makeBijiNote({ title: "First" })]]),
+      );
+
+      const writer = new VaultWriter(plugin.vault, true);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { writer });
+
+      expect(writer.actions).toEqual([
+        { action: "create", path: "Get笔记/Second.md", noteId: "note-002", reason: "new note" },
+        { action: "create", path: "Get笔记/First.md", noteId: "note-001", reason: "new note" },
+      ]);
+      expect(plugin.app.vault.create).not.toHaveBeenCalled();
+      expect(plugin.app.vault.createFolder).not.toHaveBeenCalled();
+      expect(plugin.saveSettings).not.toHaveBeenCalled();
+      expect(plugin.settings.profiles[0].lastSyncId).toBeNull();
+      expect(plugin.settings.profiles[0].lastSyncTime).toBeNull();
+      expect(plugin.noteState.get("note-001")).toBeNull();
+    });
+
+    it("should plan a skip for notes already in the vault", async () => {
+      const plugin = createMockPlugin();
+      const existingFile = new TFile("Get笔记/Test Note.md");
+      (plugin.app.vault.getAbstractFileByPath as any).mockImplementation(
+        (path: string) => (path === "Get笔记/Test Note.md" ? existingFile : new TFolder("Get笔记")),
+      );
+      (plugin.app.vault.getMarkdownFiles as any).mockReturnValue([existingFile]);
+      (plugin.app.metadataCache.getFileCache as any).mockReturnValue({
+        frontmatter: { biji_id: "note-001", updated_at: "2024-01-01T00:00:00Z" },
+      });
+      mockFetchNotes.mockReturnValue(mockPages([[makeBijiNote()]]));
+
+      const writer = new VaultWriter(plugin.vault, true);
+      await syncBiji(plugin, plugin.settings.profiles[0], new AbortController().signal, { writer });
+
+      expect(writer.actions).toHaveLength(1);
+      expect(writer.actions[0]).toMatchObject({
+        action: "skip",
+        path: "Get笔记/Test Note.md",
+        noteId: "note-001",
+      });
+      expect(plugin.app.vault.modify).not.toHaveBeenCalled();
+    });
   });
 });
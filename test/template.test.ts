@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_NOTE_TEMPLATE,
+  TemplateError,
+  formatDate,
+  noteTemplateContext,
+  renderTemplate,
+  templateUsesField,
+  validateTemplate,
+  validateFilenameTemplate,
+} from "../src/template";
+import type { RawNote } from "../src/types";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeRawNote(overrides: Partial<RawNote> = {}): RawNote {
+  return {
+    id: "note-abc-123",
+    title: "Test Note",
+    content: "Hello world",
+    tags: ["tag-a", "tag-b"],
+    // No zone suffix: parsed as local time, so formatted dates are stable across time zones
+    createdAt: "2024-03-05T08:09:10",
+    updatedAt: "2024-12-25T18:00:00",
+    noteType: "link",
+    entryType: "ai",
+    origin: "web",
+    ...overrides,
+  };
+}
+
+function render(template: string, overrides: Partial<RawNote> = {}): string {
+  return renderTemplate(template, noteTemplateContext(makeRawNote(overrides)));
+}
+
+// ---------------------------------------------------------------------------
+// Fields
+// ---------------------------------------------------------------------------
+
+describe("renderTemplate fields", () => {
+  it("substitutes text fields", () => {
+    expect(render("{{id}} {{title}} {{note_type}}/{{entry_type}}/{{origin}}")).toBe(
+      "note-abc-123 Test Note link/ai/web",
+    );
+  });
+
+  it("renders missing optional fields as empty", () => {
+    expect(render("[{{source_url}}][{{original_content}}]")).toBe("[][]");
+  });
+
+  it("joins lists with commas", () => {
+    expect(render("{{tags}}")).toBe("tag-a, tag-b");
+  });
+
+  it("flattens multi-line titles", () => {
+    expect(render("{{title}}", { title: "a\nb" })).toBe("a b");
+  });
+
+  it("formats dates", () => {
+    expect(render("{{created:YYYY-MM-DD HH:mm:ss}}")).toBe("2024-03-05 08:09:10");
+    expect(render("{{created:YY/M/D H}}")).toBe("24/3/5 8");
+    expect(render("{{updated:YYYY年MM月DD日}}")).toBe("2024年12月25日");
+  });
+
+  it("renders raw dates without a format", () => {
+    expect(render("{{created}}")).toBe("2024-03-05T08:09:10");
+  });
+
+  it("quotes text with :quote", () => {
+    expect(render("{{original_content:quote}}", { originalContent: "a\n\nb\n" })).toBe(
+      "> a\n>\n> b",
+    );
+  });
+
+  it("allows whitespace inside tags", () => {
+    expect(render("{{ title }}")).toBe("Test Note");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+describe("renderTemplate blocks", () => {
+  it("renders #if branches", () => {
+    const template = "{{#if source_url}}link{{else}}no link{{/if}}";
+    expect(render(template)).toBe("no link");
+    expect(render(template, { sourceUrl: "https://e.com" })).toBe("link");
+  });
+
+  it("treats empty lists as false", () => {
+    expect(render("{{#if tags}}tagged{{else}}untagged{{/if}}", { tags: [] })).toBe("untagged");
+  });
+
+  it("loops over lists with #each", () => {
+    expect(render("{{#each tags}}#{{this}} {{/each}}")).toBe("#tag-a #tag-b ");
+  });
+
+  it("nests blocks and keeps outer fields visible in loops", () => {
+    expect(render("{{#each tags}}{{#if this}}{{title}}:{{this}};{{/if}}{{/each}}")).toBe(
+      "Test Note:tag-a;Test Note:tag-b;",
+    );
+  });
+
+  it("removes lines that only hold a block tag", () => {
+    const template = "a\n  {{#if tags}}\nb\n{{/if}}  \nc";
+    expect(render(template)).toBe("a\nb\nc");
+    expect(render(template, { tags: [] })).toBe("a\nc");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Default template
+// ---------------------------------------------------------------------------
+
+describe("DEFAULT_NOTE_TEMPLATE", () => {
+  it("renders heading and content", () => {
+    expect(render(DEFAULT_NOTE_TEMPLATE, { originalContent: undefined })).toBe(
+      "# Test Note\n\nHello world\n",
+    );
+  });
+
+  it("renders embeds and the original callout", () => {
+    expect(
+      render(DEFAULT_NOTE_TEMPLATE, { embeds: ["a.png", "b.mp3"], originalContent: "x" }),
+    ).toBe("# Test Note\n\nHello world\n\n![[a.png]]\n![[b.mp3]]\n\n> [!quote]- 原文\n> x\n");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+describe("validateTemplate", () => {
+  it("accepts valid templates", () => {
+    expect(validateTemplate(DEFAULT_NOTE_TEMPLATE)).toBeNull();
+    expect(validateTemplate("plain text")).toBeNull();
+  });
+
+  it("reports unknown fields and formats", () => {
+    expect(validateTemplate("{{author}}")).toMatch(/Unknown field "author"/);
+    expect(validateTemplate("{{title:upper}}")).toMatch(/Unknown format "upper"/);
+    expect(validateTemplate("{{this}}")).toMatch(/#each/);
+    expect(validateTemplate("{{#if}}")).toMatch(/Invalid placeholder/);
+  });
+
+  it("reports unbalanced blocks", () => {
+    expect(validateTemplate("{{#if title}}x")).toMatch(/never closed/);
+    expect(validateTemplate("x{{/each}}")).toMatch(/without a matching/);
+    expect(validateTemplate("{{#each tags}}x{{/if}}")).toMatch(/without a matching/);
+    expect(validateTemplate("{{else}}")).toMatch(/without a matching/);
+    expect(validateTemplate("{{#if title}}a{{else}}b{{else}}c{{/if}}")).toMatch(/without a matching/);
+  });
+
+  it("renderTemplate throws TemplateError for the same templates", () => {
+    expect(() => render("{{author}}")).toThrow(TemplateError);
+  });
+});
+
+describe("validateFilenameTemplate", () => {
+  it("accepts single-line fields", () => {
+    expect(validateFilenameTemplate("{{created:YYYY-MM-DD}} {{title}}")).toBeNull();
+    expect(validateFilenameTemplate("{{#if title}}{{title}}{{else}}{{id}}{{/if}}")).toBeNull();
+  });
+
+  it("rejects empty templates", () => {
+    expect(validateFilenameTemplate("  ")).toMatch(/empty/);
+  });
+
+  it("rejects multi-line fields", () => {
+    expect(validateFilenameTemplate("{{content}}")).toMatch(/content/);
+    expect(validateFilenameTemplate("{{#each embeds}}x{{/each}}")).toMatch(/embeds/);
+    expect(validateFilenameTemplate("{{ original_content }}")).toMatch(/original_content/);
+  });
+
+  it("reports template syntax errors first", () => {
+    expect(validateFilenameTemplate("{{nope}}")).toMatch(/Unknown field/);
+  });
+});
+
+describe("templateUsesField", () => {
+  it("finds fields in placeholders and block tags", () => {
+    expect(templateUsesField(DEFAULT_NOTE_TEMPLATE, "original_content")).toBe(true);
+    expect(templateUsesField("{{#if source_url}}x{{/if}}", "source_url")).toBe(true);
+    expect(templateUsesField("{{ original_content:quote }}", "original_content")).toBe(true);
+  });
+
+  it("does not match other fields with the same prefix", () => {
+    expect(templateUsesField("# {{title}}\n{{content}}", "original_content")).toBe(false);
+    expect(templateUsesField("{{created}}", "create")).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// formatDate
+// ---------------------------------------------------------------------------
+
+describe("formatDate", () => {
+  it("returns unparseable values unchanged", () => {
+    expect(formatDate("not a date", "YYYY")).toBe("not a date");
+    expect(formatDate("", "YYYY")).toBe("");
+  });
+
+  it("leaves other characters of the format alone", () => {
+    expect(formatDate("2024-03-05T08:09:10", "[YYYY] week")).toBe("[2024] week");
+  });
+});
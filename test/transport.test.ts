@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+
+vi.mock("obsidian", () => ({
+  requestUrl: vi.fn(),
+}));
+
+import { requestUrl } from "obsidian";
+import { API_BASE, AuthFatalError, fetchLinkDetail, fetchNotes, isHttpError } from "../src/api";
+import { AUTH_BASE } from "../src/auth";
+import { JwtCache } from "../src/jwt-cache";
+import { obsidianTransport } from "../src/obsidian-transport";
+import { HttpStatusError, fetchTransport } from "../src/transport";
+import type { HttpTransport } from "../src/transport";
+
+const mockRequestUrl = vi.mocked(requestUrl);
+
+// ── obsidianTransport ───────────────────────────────────────────────
+
+describe("obsidianTransport", () => {
+  beforeEach(() => {
+    mockRequestUrl.mockReset();
+  });
+
+  it("should return 2xx responses with lowercase header names", async () => {
+    const body = new TextEncoder().encode('{"c":{"ok":true}}');
+    mockRequestUrl.mockResolvedValueOnce({
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      arrayBuffer: body.buffer,
+    } as any);
+
+    const response = await obsidianTransport.request({ url: "https://example.com/a", method: "POST", body: "{}" });
+
+    expect(mockRequestUrl).toHaveBeenCalledWith({ url: "https://example.com/a", method: "POST", body: "{}", throw: false });
+    expect(response.headers).toEqual({ "content-type": "application/json" });
+    expect(response.json).toEqual({ c: { ok: true } });
+  });
+
+  it("should throw HttpStatusError with the headers for other statuses", async () => {
+    mockRequestUrl.mockResolvedValueOnce({
+      status: 429,
+      headers: { "Retry-After": "3" },
+      arrayBuffer: new ArrayBuffer(0),
+    } as any);
+
+    const err = await obsidianTransport.request({ url: "https://example.com/a" }).catch((e) => e);
+
+    expect(err).toBeInstanceOf(HttpStatusError);
+    expect(err).toMatchObject({ status: 429, headers: { "retry-after": "3" } });
+    expect(isHttpError(err)).toBe(true);
+  });
+});
+
+// ── The API client end to end against a fake Get笔记 server ─────────
+
+describe("API client (fake Get笔记 server)", () => {
+  const TOTAL = 60; // Two pages of 50
+  let server: Server;
+  let origin: string;
+  let transport: HttpTransport;
+  const validJwt = "jwt-2"; // Issued by the refresh endpoint
+  const requests: Array<{ method: string; path: string; auth: string }> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        requests.push({ method: req.method ?? "", path: url.pathname, auth: req.headers.authorization ?? "" });
+        const reply = (status: number, json: unknown) => {
+          res.writeHead(status, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(json));
+        };
+
+        if (url.pathname === "/auth/refresh") {
+          const body = JSON.parse(raw);
+          if (body.refresh_token !== "refresh-1") return reply(401, { c: { success: false } });
+          return reply(200, { c: { success: true, token: { token: validJwt, refresh_token: "refresh-2" } } });
+        }
+
+        // The notes API: only the current JWT, and only with X-OAuth-Version
+        if (req.headers.authorization !== `Bearer ${validJwt}`) return reply(401, {});
+        if (req.headers["x-oauth-version"] !== "1") return reply(403, {});
+
+        if (url.pathname === "/api/notes") {
+          // Newest first: note-60 ... note-1, paged below since_id
+          const sinceId = url.searchParams.get("since_id");
+          const limit = Number(url.searchParams.get("limit"));
+          const start = sinceId ? Number(sinceId.replace("note-", "")) - 1 : TOTAL;
+          const list = Array.from({ length: Math.min(limit, start) }, (_, i) => ({
+            id: `note-${start - i}`,
+            title: `Note ${start - i}`,
+          }));
+          return reply(200, { c: { list, total: TOTAL } });
+        }
+        const detail = url.pathname.match(/^\/api\/notes\/([^/]+)\/links\/detail$/);
+        if (detail) {
+          return reply(200, { c: { has_content: true, content: `<p>Original of ${detail[1]}</p>` } });
+        }
+        reply(404, {});
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // The real endpoints, redirected to the fake server
+    const local = fetchTransport();
+    transport = {
+      request: (request) =>
+        local.request({
+          ...request,
+          url: request.url.replace(API_BASE, `${origin}/api`).replace(AUTH_BASE, `${origin}/auth`),
+        }),
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it("should page through all notes, refreshing a rejected JWT once", async () => {
+    let refreshToken = "refresh-1";
+    const persist = vi.fn((update: { refreshToken?: string }) => {
+      if (update.refreshToken) refreshToken = update.refreshToken;
+    });
+    const cache = new JwtCache(transport, () => refreshToken, "", persist);
+
+    const ids: string[] = [];
+    for await (const page of fetchNotes(transport, "jwt-1", (rejected) => cache.refresh(rejected))) {
+      expect(page.total).toBe(TOTAL);
+      ids.push(...page.notes.map((n) => n.id));
+    }
+
+    expect(ids).toHaveLength(TOTAL);
+    expect(ids[0]).toBe("note-60");
+    expect(ids[TOTAL - 1]).toBe("note-1");
+    // Every page is first sent with the stale JWT, but only the first rejection refreshes
+    expect(requests.filter((r) => r.path === "/auth/refresh")).toHaveLength(1);
+    expect(refreshToken).toBe("refresh-2");
+    expect(persist).toHaveBeenCalledWith(expect.objectContaining({ accessToken: "jwt-2", refreshToken: "refresh-2" }));
+  });
+
+  it("should fetch the original of a link note", async () => {
+    const refresh = vi.fn();
+
+    await expect(fetchLinkDetail(transport, "jwt-2", "note-7", refresh)).resolves.toBe("<p>Original of note-7</p>");
+    expect(requests[0]).toMatchObject({ method: "GET", path: "/api/notes/note-7/links/detail", auth: "Bearer jwt-2" });
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it("should fail with AuthFatalError when the refresh token was revoked", async () => {
+    const cache = new JwtCache(transport, () => "revoked", "", vi.fn());
+
+    const pages = fetchNotes(transport, "jwt-1", (rejected) => cache.refresh(rejected));
+    const err = await pages[Symbol.asyncIterator]().next().catch((e) => e);
+
+    expect(err).toBeInstanceOf(AuthFatalError);
+    expect(err.cause).toMatchObject({ status: 401 });
+  });
+});